@@ -2,21 +2,83 @@ import Arweave from "arweave";
 import { JWKInterface } from "arweave/node/lib/wallet";
 import axios from "axios";
 import { ethers } from "ethers";
-import { Struct, create } from "superstruct";
+import { Struct, array, create, is, number, object, string } from "superstruct";
 import winston from "winston";
-import { ARWEAVE_TAG_APP_NAME, ARWEAVE_TAG_APP_VERSION, DEFAULT_ARWEAVE_STORAGE_ADDRESS } from "../../constants";
+import {
+  ARWEAVE_MAX_PAYLOAD_SIZE,
+  ARWEAVE_TAG_APP_NAME,
+  ARWEAVE_TAG_APP_VERSION,
+  DEFAULT_ARWEAVE_STORAGE_ADDRESS,
+} from "../../constants";
 import { isDefined, jsonReplacerWithBigNumbers, parseWinston, toBN } from "../../utils";
 
+/**
+ * A versioned record schema. Records are tagged with the version of their schema when stored, and records stored
+ * under older versions are migrated to the current version when retrieved.
+ */
+export type ArweaveSchema<T> = {
+  // The current version of the record.
+  version: number;
+  // Validator for records of the current version.
+  validator: Struct<T>;
+  // Functions that migrate a record from the keyed version to the next version. Records stored without a
+  // Schema-Version tag are considered to be version 0.
+  migrations?: { [version: number]: (record: unknown) => unknown };
+};
+
+// Content types of complete records, chunk manifests, and chunks of a record.
+const RECORD_CONTENT_TYPE = "application/json";
+const MANIFEST_CONTENT_TYPE = "application/vnd.across.chunk-manifest+json";
+const CHUNK_CONTENT_TYPE = "application/octet-stream";
+
+// The default number of transactions to query per page. This is the maximum permitted by arweave.net.
+const DEFAULT_PAGE_SIZE = 100;
+
+export type ArweaveTopicQuery = {
+  // The address that stored the records. Defaults to the address of the RL Arweave storage wallet.
+  originQueryAddress?: string;
+  // Only include records mined at or after this block timestamp, in seconds.
+  fromTimestamp?: number;
+  // Only include records mined at or before this block timestamp, in seconds.
+  toTimestamp?: number;
+  // The number of transactions to query per page.
+  pageSize?: number;
+  // The cursor returned with the previous page, from which to continue the query.
+  cursor?: string;
+};
+
+export type ArweaveTopicPage<T> = {
+  records: { data: T; hash: string }[];
+  // The cursor of the next page, or undefined if there are no further records.
+  cursor?: string;
+};
+
+// A chunk manifest lists the transactions that hold each consecutive chunk of a record.
+const ChunkManifestSS = object({
+  chunks: array(string()),
+  size: number(),
+  sha256: string(),
+});
+
 export class ArweaveClient {
   private client: Arweave;
   private gatewayUrl: string;
 
+  /**
+   * @param arweaveJWT The JWK of the wallet that signs stored records.
+   * @param logger A logger for logging messages.
+   * @param gatewayURL The host of the Arweave gateway.
+   * @param protocol The protocol of the Arweave gateway.
+   * @param port The port of the Arweave gateway.
+   * @param maxPayloadSize The size, in bytes, above which records are stored as a series of linked chunks.
+   */
   public constructor(
     private arweaveJWT: JWKInterface,
     private logger: winston.Logger,
     gatewayURL = "arweave.net",
     protocol = "https",
-    port = 443
+    port = 443,
+    readonly maxPayloadSize = ARWEAVE_MAX_PAYLOAD_SIZE
   ) {
     this.gatewayUrl = `${protocol}://${gatewayURL}:${port}`;
     this.client = new Arweave({
@@ -36,86 +98,97 @@ export class ArweaveClient {
   /**
    * Stores an arbitrary record in the Arweave network. The record is stored as a JSON string and uses
    * JSON.stringify to convert the record to a string. The record has all of its big numbers converted
-   * to strings for convenience.
+   * to strings for convenience. Records larger than `maxPayloadSize` are stored as a series of chunks,
+   * which are linked by a manifest.
    * @param value The value to store
    * @param topicTag An optional topic tag to add to the transaction
-   * @returns The transaction ID of the stored value
-   * @
+   * @param schemaVersion An optional version of the record's schema to add to the transaction
+   * @returns The transaction ID of the stored value. For chunked records, this is the ID of the manifest.
    */
-  async set(value: Record<string, unknown>, topicTag?: string | undefined): Promise<string | undefined> {
-    const transaction = await this.client.createTransaction(
-      { data: JSON.stringify(value, jsonReplacerWithBigNumbers) },
-      this.arweaveJWT
-    );
+  async set(
+    value: Record<string, unknown>,
+    topicTag?: string | undefined,
+    schemaVersion?: number
+  ): Promise<string | undefined> {
+    const payload = Buffer.from(JSON.stringify(value, jsonReplacerWithBigNumbers), "utf8");
+    const recordTags = {
+      ...(isDefined(topicTag) ? { Topic: topicTag } : {}),
+      ...(isDefined(schemaVersion) ? { "Schema-Version": schemaVersion.toString() } : {}),
+    };
 
-    // Add tags to the transaction
-    transaction.addTag("Content-Type", "application/json");
-    transaction.addTag("App-Name", ARWEAVE_TAG_APP_NAME);
-    transaction.addTag("App-Version", ARWEAVE_TAG_APP_VERSION.toString());
-    if (isDefined(topicTag)) {
-      transaction.addTag("Topic", topicTag);
+    if (payload.length <= this.maxPayloadSize) {
+      return this.post(payload, RECORD_CONTENT_TYPE, recordTags);
     }
 
-    // Sign the transaction
-    await this.client.transactions.sign(transaction, this.arweaveJWT);
-    // Send the transaction
-    const result = await this.client.transactions.post(transaction);
-
-    // Ensure that the result is successful
-    if (result.status !== 200) {
-      const message = result?.data?.error?.msg ?? "Unknown error";
-      this.logger.error({
-        at: "ArweaveClient:set",
-        message,
-        result,
-        txn: transaction.id,
-        address: await this.getAddress(),
-        balance: (await this.getBalance()).toString(),
-      });
-      throw new Error(message);
-    } else {
-      this.logger.debug({
-        at: "ArweaveClient:set",
-        message: `Arweave transaction posted with ${transaction.id}`,
-      });
+    // Chunks are stored in order, so that the manifest can link to each of them.
+    const chunks: string[] = [];
+    for (let offset = 0; offset < payload.length; offset += this.maxPayloadSize) {
+      chunks.push(await this.post(payload.subarray(offset, offset + this.maxPayloadSize), CHUNK_CONTENT_TYPE));
     }
-    return transaction.id;
+    const manifest = { chunks, size: payload.length, sha256: ethers.utils.sha256(payload) };
+
+    this.logger.debug({
+      at: "ArweaveClient:set",
+      message: `Stored ${payload.length} byte record in ${chunks.length} chunks`,
+      chunks,
+    });
+    return this.post(Buffer.from(JSON.stringify(manifest), "utf8"), MANIFEST_CONTENT_TYPE, recordTags);
   }
 
   /**
    * Retrieves a record from the Arweave network. The record is expected to be a JSON string and is
-   * parsed using JSON.parse. All numeric strings are converted to big numbers for convenience.
+   * parsed using JSON.parse. All numeric strings are converted to big numbers for convenience. Chunked
+   * records are reassembled and verified against their manifest.
    * @param transactionID The transaction ID of the record to retrieve
-   * @param structValidator An optional struct validator to validate the retrieved value. If the value does not match the struct, null is returned.
+   * @param validator A struct validator, or a versioned schema, to validate the retrieved value. If the value does
+   * not match, or can not be migrated to the current version of the schema, null is returned.
    * @returns The record if it exists, otherwise null
+   * @note The data of a pending transaction can be retrieved before its tags. Until the transaction is mined, its
+   * record is read as an unversioned record that is not chunked.
    */
-  async get<T>(transactionID: string, validator: Struct<T>): Promise<T | null> {
-    // Resolve the URL of the transaction
-    const transactionUrl = `${this.gatewayUrl}/${transactionID}`;
-    // We should query in via Axios directly to the gateway URL. The reasoning behind this is
-    // that the Arweave SDK's `getData` method is too slow and does not provide a way to set a timeout.
-    // Therefore, something that could take milliesconds to complete could take tens of minutes.
-    const { data, status: responseStatus } = await axios.get<Record<string, unknown>>(transactionUrl);
-    // Ensure that the result is successful. If it is not, the retrieved value is not our expected type
-    // but rather a {status: string, statusText: string} object. We can detect that and return null.
-    if (responseStatus !== 200 || ("status" in data && data["status"] !== 200)) {
+  async get<T>(transactionID: string, validator: Struct<T> | ArweaveSchema<T>): Promise<T | null> {
+    let payload = await this.getData(transactionID);
+    const tags = isDefined(payload) ? await this.getTags(transactionID) : null;
+    if (isDefined(payload) && tags?.["Content-Type"] === MANIFEST_CONTENT_TYPE) {
+      payload = await this.getChunkedData(transactionID, payload);
+    }
+    if (!isDefined(tags) || !isDefined(payload)) {
       this.logger.debug({
         at: "ArweaveClient:get",
         message: "Failed to retrieve value from Arweave - network error or invalid response status",
         transactionID,
-        responseStatus,
-        data,
       });
       return null;
     }
+
     try {
+      let data = JSON.parse(payload.toString("utf8"));
+      if (validator instanceof Struct) {
+        return create(data, validator);
+      }
+
+      // Migrate the record from the version it was stored under to the current version of the schema.
+      const recordVersion = Number(tags["Schema-Version"] ?? 0);
+      if (!Number.isInteger(recordVersion) || recordVersion > validator.version) {
+        throw new Error(`Unsupported schema version ${tags["Schema-Version"]}`);
+      }
+      for (let version = recordVersion; version < validator.version; ++version) {
+        const migration = validator.migrations?.[version];
+        if (!isDefined(migration)) {
+          throw new Error(`No migration from schema version ${version}`);
+        }
+        data = migration(data);
+      }
+
       // We should validate the data and perform any logical coercion here.
-      return create(data, validator);
+      return create(data, validator.validator);
     } catch (e) {
       // If the data does not match the validator, log a warning and return null.
       this.logger.warn({
         at: "ArweaveClient:get",
         message: "Retrieved value from Arweave does not match the expected type",
+        transactionID,
+        reason: e instanceof Error ? e.message : String(e),
       });
       return null;
     }
@@ -126,51 +199,111 @@ export class ArweaveClient {
    * The records are expected to be a JSON string and are pre-filtered by the Across
    * protocol tag, the content-type tag, and this client's address. Furthermore, the
    * records are expected to be an array of the given type and will be discarded if
-   * they do not match the given validator.
+   * they do not match the given validator. Every page of matching records is retrieved.
    * @param tag The tag to filter all the transactions by
-   * @param validator The validator to validate the retrieved values
+   * @param validator The validator, or versioned schema, to validate the retrieved values
    * @param originQueryAddress An optional flag to override the originating address for the query. By default,
    *                           the address of the RL Arweave storage wallet is used.
-   * @returns The records if they exist, otherwise an empty array
+   * @param window An optional window of block timestamps to which the records are restricted.
+   * @returns The records if they exist, otherwise an empty array. Records are ordered from newest to oldest.
    */
   async getByTopic<T>(
     tag: string,
-    validator: Struct<T>,
-    originQueryAddress = DEFAULT_ARWEAVE_STORAGE_ADDRESS
+    validator: Struct<T> | ArweaveSchema<T>,
+    originQueryAddress = DEFAULT_ARWEAVE_STORAGE_ADDRESS,
+    window: Pick<ArweaveTopicQuery, "fromTimestamp" | "toTimestamp"> = {}
   ): Promise<{ data: T; hash: string }[]> {
+    const results: { data: T; hash: string }[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getByTopicPage(tag, validator, { ...window, originQueryAddress, cursor });
+      results.push(...page.records);
+      cursor = page.cursor;
+    } while (isDefined(cursor));
+
+    return results;
+  }
+
+  /**
+   * Retrieves a single page of records from the Arweave network that have a specific tag. Records are
+   * filtered as per getByTopic(), and pages are ordered from newest to oldest.
+   * @param tag The tag to filter all the transactions by
+   * @param validator The validator, or versioned schema, to validate the retrieved values
+   * @param query Optional query parameters, including the cursor returned with the previous page.
+   * @returns The valid records within the page, and the cursor of the next page if there are further records.
+   * @note A page may contain fewer than `pageSize` records, or none, if transactions fail validation or fall
+   * outside of the time window. Iteration is complete only once no cursor is returned.
+   */
+  async getByTopicPage<T>(
+    tag: string,
+    validator: Struct<T> | ArweaveSchema<T>,
+    query: ArweaveTopicQuery = {}
+  ): Promise<ArweaveTopicPage<T>> {
+    const {
+      originQueryAddress = DEFAULT_ARWEAVE_STORAGE_ADDRESS,
+      fromTimestamp,
+      toTimestamp,
+      pageSize = DEFAULT_PAGE_SIZE,
+      cursor,
+    } = query;
     const transactions = await this.client.api.post<{
       data: {
         transactions: {
+          pageInfo: { hasNextPage: boolean };
           edges: {
+            cursor: string;
             node: {
               id: string;
+              block: { timestamp: number } | null;
             };
           }[];
         };
       };
     }>("/graphql", {
       query: `
-        { 
+        {
           transactions (
-            owners: ["${originQueryAddress}"]
+            owners: [${JSON.stringify(originQueryAddress)}]
             tags: [
               { name: "App-Name", values: ["${ARWEAVE_TAG_APP_NAME}"] },
-              { name: "Content-Type", values: ["application/json"] },
+              { name: "Content-Type", values: ["${RECORD_CONTENT_TYPE}", "${MANIFEST_CONTENT_TYPE}"] },
               { name: "App-Version", values: ["${ARWEAVE_TAG_APP_VERSION}"] },
-              ${tag ? `{ name: "Topic", values: ["${tag}"] } ` : ""}
+              ${tag ? `{ name: "Topic", values: [${JSON.stringify(tag)}] } ` : ""}
             ]
-          ) { edges { node { id } } } 
+            sort: HEIGHT_DESC
+            first: ${pageSize}
+            ${isDefined(cursor) ? `after: ${JSON.stringify(cursor)}` : ""}
+          ) { pageInfo { hasNextPage } edges { cursor node { id block { timestamp } } } }
         }`,
     });
-    const entries = transactions?.data?.data?.transactions?.edges ?? [];
+    const { edges = [], pageInfo } = transactions?.data?.data?.transactions ?? {};
+
+    // Pending transactions have no block, so they are only included if there is no time window. Transactions are
+    // ordered by descending block height, so the query is complete once a transaction predates the window.
+    const windowed = isDefined(fromTimestamp) || isDefined(toTimestamp);
+    const entries = edges.filter(
+      ({ node: { block } }) =>
+        !windowed ||
+        (isDefined(block) &&
+          block.timestamp >= (fromTimestamp ?? 0) &&
+          block.timestamp <= (toTimestamp ?? Number.MAX_SAFE_INTEGER))
+    );
+    const complete =
+      !pageInfo?.hasNextPage ||
+      edges.length === 0 ||
+      (isDefined(fromTimestamp) && edges.some(({ node: { block } }) => block && block.timestamp < fromTimestamp));
+
     this.logger.debug({
-      at: "ArweaveClient:getByTopic",
+      at: "ArweaveClient:getByTopicPage",
       message: `Retrieved ${entries.length} matching transactions from Arweave`,
       transactions: entries.map((edge) => edge.node.id),
       metaInformation: {
         tag,
         originQueryAddress,
         appVersion: ARWEAVE_TAG_APP_VERSION,
+        fromTimestamp,
+        toTimestamp,
+        cursor,
       },
     });
     const results = await Promise.all(
@@ -184,25 +317,22 @@ export class ArweaveClient {
           : null;
       })
     );
-    return results.filter(isDefined);
+    return {
+      records: results.filter(isDefined),
+      cursor: complete ? undefined : edges[edges.length - 1].cursor,
+    };
   }
 
   /**
    * Retrieves the metadata of a transaction
    * @param transactionID The transaction ID of the record to retrieve
-   * @returns The metadata of the transaction if it exists, otherwise null
+   * @returns The metadata of the transaction if it exists and has been mined, otherwise null
    */
   async getMetadata(transactionID: string): Promise<Record<string, string> | null> {
-    const transaction = await this.client.transactions.get(transactionID);
-    if (!isDefined(transaction)) {
+    const tags = await this.getTags(transactionID);
+    if (!isDefined(tags) || Object.keys(tags).length === 0) {
       return null;
     }
-    const tags = Object.fromEntries(
-      transaction.tags.map((tag) => [
-        tag.get("name", { decode: true, string: true }),
-        tag.get("value", { decode: true, string: true }),
-      ])
-    );
     return {
       contentType: tags["Content-Type"],
       appName: tags["App-Name"],
@@ -235,4 +365,121 @@ export class ArweaveClient {
       return parseWinston(balanceInFloat);
     }
   }
+
+  /**
+   * Signs and posts a transaction to the Arweave network.
+   * @param data The data of the transaction
+   * @param contentType The content type of the data
+   * @param tags Any additional tags to add to the transaction
+   * @returns The transaction ID
+   */
+  private async post(data: Uint8Array, contentType: string, tags: Record<string, string> = {}): Promise<string> {
+    const transaction = await this.client.createTransaction({ data }, this.arweaveJWT);
+
+    // Add tags to the transaction
+    transaction.addTag("Content-Type", contentType);
+    transaction.addTag("App-Name", ARWEAVE_TAG_APP_NAME);
+    transaction.addTag("App-Version", ARWEAVE_TAG_APP_VERSION.toString());
+    Object.entries(tags).forEach(([name, value]) => transaction.addTag(name, value));
+
+    // Sign the transaction
+    await this.client.transactions.sign(transaction, this.arweaveJWT);
+    // Send the transaction
+    const result = await this.client.transactions.post(transaction);
+
+    // Ensure that the result is successful
+    if (result.status !== 200) {
+      const message = result?.data?.error?.msg ?? "Unknown error";
+      this.logger.error({
+        at: "ArweaveClient:set",
+        message,
+        result,
+        txn: transaction.id,
+        address: await this.getAddress(),
+        balance: (await this.getBalance()).toString(),
+      });
+      throw new Error(message);
+    } else {
+      this.logger.debug({
+        at: "ArweaveClient:set",
+        message: `Arweave transaction posted with ${transaction.id}`,
+      });
+    }
+    return transaction.id;
+  }
+
+  /**
+   * Retrieves the decoded tags of a transaction
+   * @param transactionID The transaction ID
+   * @returns The tags of the transaction, keyed by name, or null if the transaction could not be retrieved. Pending
+   * transactions, for which the gateway responds with HTTP 202, have no tags yet.
+   */
+  private async getTags(transactionID: string): Promise<Record<string, string> | null> {
+    const { data, status } = await this.client.api.get<{ tags?: { name: string; value: string }[] }>(
+      `tx/${transactionID}`
+    );
+    if (status === 202) {
+      return {};
+    }
+    if (status !== 200 || !Array.isArray(data?.tags)) {
+      return null;
+    }
+    return Object.fromEntries(
+      data.tags.map(({ name, value }) => [Arweave.utils.b64UrlToString(name), Arweave.utils.b64UrlToString(value)])
+    );
+  }
+
+  /**
+   * Retrieves the raw data of a transaction
+   * @param transactionID The transaction ID
+   * @returns The data of the transaction, or null if it could not be retrieved
+   */
+  private async getData(transactionID: string): Promise<Buffer | null> {
+    // We should query in via Axios directly to the gateway URL. The reasoning behind this is
+    // that the Arweave SDK's `getData` method is too slow and does not provide a way to set a timeout.
+    // Therefore, something that could take milliesconds to complete could take tens of minutes.
+    const { data, status } = await axios.get<ArrayBuffer>(`${this.gatewayUrl}/${transactionID}`, {
+      responseType: "arraybuffer",
+      validateStatus: () => true,
+    });
+    return status === 200 ? Buffer.from(data) : null;
+  }
+
+  /**
+   * Reassembles a chunked record from its manifest
+   * @param transactionID The transaction ID of the manifest
+   * @param manifestData The data of the manifest
+   * @returns The data of the record, or null if any chunk could not be retrieved or the record does not match
+   * its manifest
+   */
+  private async getChunkedData(transactionID: string, manifestData: Buffer): Promise<Buffer | null> {
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(manifestData.toString("utf8"));
+    } catch {
+      manifest = undefined;
+    }
+    if (!is(manifest, ChunkManifestSS)) {
+      this.logger.warn({ at: "ArweaveClient:get", message: "Invalid chunk manifest", transactionID });
+      return null;
+    }
+
+    const chunks = await Promise.all(manifest.chunks.map((chunk) => this.getData(chunk)));
+    if (!chunks.every(isDefined)) {
+      return null;
+    }
+
+    const data = Buffer.concat(chunks);
+    if (data.length !== manifest.size || ethers.utils.sha256(data) !== manifest.sha256) {
+      this.logger.warn({
+        at: "ArweaveClient:get",
+        message: "Reassembled record does not match its chunk manifest",
+        transactionID,
+        size: data.length,
+        manifest,
+      });
+      return null;
+    }
+    return data;
+  }
 }
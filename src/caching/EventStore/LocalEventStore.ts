@@ -0,0 +1,98 @@
+import * as fs from "fs/promises";
+import path from "path";
+import { EventStoreInterface, EventStoreKey, StoredEvent } from "../../interfaces";
+import { objectWithBigNumberReviver, sortEventsAscendingInPlace } from "../../utils";
+
+type EventStoreFile = {
+  fromBlock: number;
+  toBlock: number;
+  events: StoredEvent[];
+};
+
+/**
+ * A file-backed event store. Each event stream is persisted as a single JSON file under
+ * `<directory>/<chainId>/<contract>/<eventName>.json`.
+ */
+export class LocalEventStore implements EventStoreInterface {
+  /**
+   * @param directory The directory under which event streams are persisted. Created on first write.
+   */
+  constructor(readonly directory: string) {}
+
+  async getBlockRange(key: EventStoreKey): Promise<[number, number] | undefined> {
+    const stored = await this.read(key);
+    return stored ? [stored.fromBlock, stored.toBlock] : undefined;
+  }
+
+  async load(key: EventStoreKey, fromBlock: number, toBlock: number): Promise<StoredEvent[]> {
+    const stored = await this.read(key);
+    return (stored?.events ?? []).filter(({ blockNumber }) => blockNumber >= fromBlock && blockNumber <= toBlock);
+  }
+
+  async append(key: EventStoreKey, fromBlock: number, toBlock: number, events: StoredEvent[]): Promise<void> {
+    if (fromBlock > toBlock) {
+      throw new Error(`Invalid event store range fromBlock (${fromBlock}) > toBlock (${toBlock})`);
+    }
+
+    const stored = await this.read(key);
+    const contiguous = stored && fromBlock <= stored.toBlock + 1 && toBlock >= stored.fromBlock - 1;
+    const updated: EventStoreFile = contiguous
+      ? {
+          fromBlock: Math.min(fromBlock, stored.fromBlock),
+          toBlock: Math.max(toBlock, stored.toBlock),
+          events: sortEventsAscendingInPlace([
+            ...stored.events.filter(({ blockNumber }) => blockNumber < fromBlock || blockNumber > toBlock),
+            ...events,
+          ]),
+        }
+      : { fromBlock, toBlock, events: sortEventsAscendingInPlace([...events]) };
+
+    await this.write(key, updated);
+  }
+
+  async rewind(key: EventStoreKey, toBlock: number): Promise<void> {
+    const stored = await this.read(key);
+    if (!stored || stored.toBlock <= toBlock) {
+      return;
+    }
+
+    if (toBlock < stored.fromBlock) {
+      await fs.rm(this.getPath(key), { force: true });
+      return;
+    }
+
+    await this.write(key, {
+      fromBlock: stored.fromBlock,
+      toBlock,
+      events: stored.events.filter(({ blockNumber }) => blockNumber <= toBlock),
+    });
+  }
+
+  protected getPath({ chainId, contract, eventName }: EventStoreKey): string {
+    return path.join(this.directory, String(chainId), contract.toLowerCase(), `${eventName}.json`);
+  }
+
+  protected async read(key: EventStoreKey): Promise<EventStoreFile | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.getPath(key), { encoding: "utf8" });
+    } catch (err) {
+      // @dev fs methods can return errors that are not Error objects (i.e. errno).
+      if ((err as Record<string, unknown>)?.code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+
+    return JSON.parse(contents, objectWithBigNumberReviver) as EventStoreFile;
+  }
+
+  protected async write(key: EventStoreKey, contents: EventStoreFile): Promise<void> {
+    // Write to a temporary file first, so that an interrupted write cannot corrupt the stored range.
+    const filePath = this.getPath(key);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(contents), { encoding: "utf8" });
+    await fs.rename(tmpPath, filePath);
+  }
+}
@@ -0,0 +1,177 @@
+import axios from "axios";
+import { Struct } from "superstruct";
+import winston from "winston";
+import { CachingMechanismInterface } from "../../interfaces";
+import { computeRawCID, verifyRawCID } from "../../utils/IPFSUtils";
+import { formattedLog, jsonReplacerWithBigNumbers, jsonReviverWithBigNumbers } from "../../utils";
+
+// Kubo rejects blocks larger than 1 MiB. Larger content would be split into a DAG, which can not be verified locally.
+const MAX_BLOCK_SIZE = 1024 * 1024;
+
+/**
+ * A client for a self-hosted IPFS node, via the Kubo RPC API. Values are stored as single raw blocks, such that the
+ * content retrieved for a CID can be verified locally without trusting the node or any gateway.
+ * This client also is a part of the caching mechanism interface.
+ * @note IPFS content does not expire. Values remain on the node for as long as they are pinned, so the TTL of the
+ * caching mechanism interface is not supported. Use `unpin` to release values that are no longer required.
+ * @see https://docs.ipfs.tech/reference/kubo/rpc/
+ */
+export class KuboIPFSClient implements CachingMechanismInterface {
+  /**
+   * @param apiURL The URL of the Kubo RPC API.
+   * @param timeout The timeout of each request to the node, in seconds.
+   * @param logger An optional logger for logging messages.
+   */
+  public constructor(
+    readonly apiURL = "http://127.0.0.1:5001",
+    readonly timeout = 30,
+    private readonly logger?: winston.Logger
+  ) {}
+
+  /**
+   * Retrieves a value from the node, and verifies it against its CID.
+   * @param key The CID of the value to retrieve.
+   * @param structValidator An optional struct validator to validate the retrieved value. If the value does not match the struct, null is returned.
+   * @returns The value if it exists, otherwise null.
+   * @throws Error if the retrieved content does not match the CID.
+   */
+  async get<ObjectType>(key?: string, structValidator?: Struct<unknown, unknown>): Promise<ObjectType | null> {
+    if (!key) {
+      return null;
+    }
+    formattedLog(this.logger, {
+      level: "debug",
+      message: `Retrieving value from IPFS with key ${key}`,
+      at: {
+        location: "KuboIPFSClient",
+        function: "get",
+      },
+    });
+
+    const content = new Uint8Array(await this.request<ArrayBuffer>("cat", { arg: key }, undefined, "arraybuffer"));
+    if (!verifyRawCID(key, content)) {
+      throw new Error(`Content retrieved from IPFS does not match CID ${key}`);
+    }
+
+    const value = JSON.parse(Buffer.from(content).toString("utf8"), jsonReviverWithBigNumbers);
+    if (structValidator && !structValidator.is(value)) {
+      formattedLog(this.logger, {
+        level: "warn",
+        message: `Retrieved value from IPFS with key ${key} does not match the expected type`,
+        at: {
+          location: "KuboIPFSClient",
+          function: "get",
+        },
+      });
+      return null;
+    }
+
+    return value as ObjectType;
+  }
+
+  /**
+   * Stores and pins a value on the node, and returns its CID.
+   * @param key A key to store the value with. This is purely used as the file name of the value.
+   * @param value The value to store.
+   * @returns The CID of the value stored.
+   * @throws Error if the value is too large to store as a single block, or if the node returns an unexpected CID.
+   */
+  async set<ObjectType>(key: string, value: ObjectType): Promise<string | undefined> {
+    formattedLog(this.logger, {
+      level: "debug",
+      message: `Setting value in IPFS with key ${key}`,
+      at: {
+        location: "KuboIPFSClient",
+        function: "set",
+      },
+    });
+
+    const content = Buffer.from(JSON.stringify(value, jsonReplacerWithBigNumbers), "utf8");
+    if (content.length > MAX_BLOCK_SIZE) {
+      throw new Error(`Value for key ${key} exceeds the maximum IPFS block size (${content.length} bytes)`);
+    }
+
+    // Build a multipart/form-data body containing the value as a single file.
+    const boundary = `----KuboIPFSClient${Date.now().toString(16)}`;
+    const body = Buffer.concat([
+      Buffer.from(
+        `--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="file"; filename="${encodeURIComponent(key)}"\r\n` +
+          "Content-Type: application/octet-stream\r\n\r\n"
+      ),
+      content,
+      Buffer.from(`\r\n--${boundary}--\r\n`),
+    ]);
+
+    const { Hash: cid } = await this.request<{ Hash: string }>(
+      "add",
+      { "cid-version": "1", "raw-leaves": "true", chunker: `size-${MAX_BLOCK_SIZE}`, pin: "true" },
+      { body, contentType: `multipart/form-data; boundary=${boundary}` }
+    );
+
+    const expectedCID = computeRawCID(content);
+    if (cid !== expectedCID) {
+      throw new Error(`IPFS node returned CID ${cid} for key ${key} (expected ${expectedCID})`);
+    }
+
+    return cid;
+  }
+
+  /**
+   * Pins a CID on the node, such that it is retained by garbage collection.
+   * @param cid The CID to pin.
+   */
+  async pin(cid: string): Promise<void> {
+    await this.request("pin/add", { arg: cid });
+  }
+
+  /**
+   * Unpins a CID on the node, such that it may be removed by garbage collection.
+   * @param cid The CID to unpin.
+   */
+  async unpin(cid: string): Promise<void> {
+    await this.request("pin/rm", { arg: cid });
+  }
+
+  /**
+   * Determines whether a CID is pinned on the node.
+   * @param cid The CID to check.
+   * @returns True if the CID is pinned.
+   */
+  async isPinned(cid: string): Promise<boolean> {
+    try {
+      const { Keys: keys } = await this.request<{ Keys: Record<string, unknown> }>("pin/ls", { arg: cid });
+      return Object.keys(keys).includes(cid);
+    } catch (err) {
+      // Kubo returns an error for CIDs that are not pinned.
+      const message = axios.isAxiosError(err) ? (err.response?.data as { Message?: string })?.Message : undefined;
+      if (message?.includes("not pinned")) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Sends a request to the Kubo RPC API. All RPC methods are invoked via POST.
+   * @param method The RPC method, i.e. "add" or "pin/add".
+   * @param params The query parameters of the request.
+   * @param payload An optional request body and its content type.
+   * @param responseType The expected type of the response.
+   * @returns The response data.
+   */
+  private async request<T>(
+    method: string,
+    params: Record<string, string>,
+    payload?: { body: Buffer; contentType: string },
+    responseType: "json" | "arraybuffer" = "json"
+  ): Promise<T> {
+    const { data } = await axios.post<T>(`${this.apiURL}/api/v0/${method}`, payload?.body, {
+      params: { ...params, timeout: `${this.timeout}s` },
+      headers: payload ? { "Content-Type": payload.contentType } : undefined,
+      responseType,
+      timeout: this.timeout * 1000,
+    });
+    return data;
+  }
+}
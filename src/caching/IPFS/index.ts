@@ -1 +1,2 @@
+export * from "./KuboIPFSClient";
 export * from "./PinataIPFSClient";
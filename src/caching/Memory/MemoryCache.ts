@@ -0,0 +1,75 @@
+import { Struct } from "superstruct";
+import { DEFAULT_CACHING_TTL } from "../../constants";
+import { CachingMechanismInterface } from "../../interfaces";
+
+type MemoryCacheEntry = {
+  value: unknown;
+  // Expiry time, in milliseconds since the epoch.
+  expiry: number;
+};
+
+/**
+ * An in-memory cache with least-recently-used eviction. Values are stored by reference, without serialisation.
+ */
+export class MemoryCache implements CachingMechanismInterface {
+  // Map iteration follows insertion order, so entries are re-inserted on access to track recency.
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+
+  /**
+   * @param maxEntries The maximum number of entries to retain. The least recently used entry is evicted beyond this.
+   * @param defaultTtl The time to live of entries, in seconds, if none is specified when they are set.
+   */
+  constructor(
+    readonly maxEntries = 10_000,
+    readonly defaultTtl = DEFAULT_CACHING_TTL
+  ) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`Invalid maximum number of cache entries ${maxEntries}`);
+    }
+  }
+
+  /**
+   * The number of entries currently held, including any that have expired but not yet been evicted.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get<ObjectType>(key?: string, structValidator?: Struct<unknown, unknown>): Promise<ObjectType | null> {
+    const entry = key ? this.entries.get(key) : undefined;
+    if (!key || !entry) {
+      return Promise.resolve(null);
+    }
+
+    this.entries.delete(key);
+    if (entry.expiry <= Date.now()) {
+      return Promise.resolve(null);
+    }
+    this.entries.set(key, entry);
+
+    if (structValidator && !structValidator.is(entry.value)) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(entry.value as ObjectType);
+  }
+
+  set<ObjectType>(key: string, value: ObjectType, ttl = this.defaultTtl): Promise<string | undefined> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiry: Date.now() + ttl * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const { value: oldestKey } = this.entries.keys().next();
+      this.entries.delete(oldestKey);
+    }
+
+    return Promise.resolve(key);
+  }
+
+  getTtl(key: string): Promise<number | null> {
+    // Reading the TTL does not count as a use of the entry.
+    const entry = this.entries.get(key);
+    const ttl = entry ? (entry.expiry - Date.now()) / 1000 : 0;
+    return Promise.resolve(ttl > 0 ? ttl : null);
+  }
+}
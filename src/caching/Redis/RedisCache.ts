@@ -0,0 +1,132 @@
+import { createClient } from "redis";
+import { Struct } from "superstruct";
+import winston from "winston";
+import { DEFAULT_CACHING_TTL } from "../../constants";
+import { CachingMechanismInterface } from "../../interfaces";
+import { formattedLog, jsonReplacerWithBigNumbers, jsonReviverWithBigNumbers } from "../../utils";
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * A cache backed by a Redis server. Values are serialised as JSON, and expire after their TTL.
+ * The connection is opened on first use, and re-opened on the next use if it is lost. Commands made while the
+ * connection is down are rejected rather than queued, such that an unavailable server surfaces as an error.
+ */
+export class RedisCache implements CachingMechanismInterface {
+  private client?: Promise<RedisClient>;
+
+  /**
+   * @param url The URL of the Redis server, i.e. redis://[[username]:password@]host[:port][/database].
+   * @param defaultTtl The time to live of values, in seconds, if none is specified when they are set.
+   * @param logger An optional logger for logging messages.
+   */
+  constructor(
+    readonly url = "redis://127.0.0.1:6379",
+    readonly defaultTtl = DEFAULT_CACHING_TTL,
+    private readonly logger?: winston.Logger
+  ) {}
+
+  async get<ObjectType>(key?: string, structValidator?: Struct<unknown, unknown>): Promise<ObjectType | null> {
+    if (!key) {
+      return null;
+    }
+
+    const client = await this.connect();
+    const reply = await client.get(key);
+    if (reply === null) {
+      return null;
+    }
+
+    const value = JSON.parse(reply, jsonReviverWithBigNumbers);
+    if (structValidator && !structValidator.is(value)) {
+      formattedLog(this.logger, {
+        level: "warn",
+        message: `Retrieved value from Redis with key ${key} does not match the expected type`,
+        at: {
+          location: "RedisCache",
+          function: "get",
+        },
+      });
+      return null;
+    }
+
+    return value as ObjectType;
+  }
+
+  async set<ObjectType>(key: string, value: ObjectType, ttl = this.defaultTtl): Promise<string | undefined> {
+    const client = await this.connect();
+    const serialised = JSON.stringify(value, jsonReplacerWithBigNumbers);
+    // Redis expiries are integral, so round up to avoid expiring immediately.
+    const reply = await client.set(key, serialised, { EX: Math.max(Math.ceil(ttl), 1) });
+    return reply === "OK" ? key : undefined;
+  }
+
+  async getTtl(key: string): Promise<number | null> {
+    const client = await this.connect();
+    // TTL replies with -2 for keys that do not exist, and -1 for keys that do not expire.
+    const ttl = await client.ttl(key);
+    return ttl >= 0 ? ttl : null;
+  }
+
+  /**
+   * Close the connection to the Redis server, if open.
+   */
+  async disconnect(): Promise<void> {
+    const { client } = this;
+    this.client = undefined;
+
+    const connected = await client?.catch(() => undefined);
+    if (connected?.isOpen) {
+      await connected.quit();
+    }
+  }
+
+  /**
+   * Resolve a connected client, opening a new connection if there is none or the previous connection was lost.
+   * @returns A connected Redis client.
+   */
+  private async connect(): Promise<RedisClient> {
+    const pending = (this.client ??= this.open().catch((error) => {
+      this.client = undefined;
+      throw error;
+    }));
+
+    const client = await pending;
+    if (client.isOpen) {
+      return client;
+    }
+
+    // Concurrent callers may observe the same lost connection, so only the first replaces it.
+    if (this.client === pending) {
+      this.client = undefined;
+    }
+    return this.connect();
+  }
+
+  private async open(): Promise<RedisClient> {
+    // Reconnection is handled on the next use, rather than by the client in the background.
+    const client = createClient({ url: this.url, socket: { reconnectStrategy: false } });
+    client.on("error", (error: Error) =>
+      formattedLog(this.logger, {
+        level: "warn",
+        message: "Redis connection error",
+        at: {
+          location: "RedisCache",
+          function: "open",
+        },
+        data: { error: error.message },
+      })
+    );
+    await client.connect();
+
+    formattedLog(this.logger, {
+      level: "debug",
+      message: `Connected to Redis at ${new URL(this.url).hostname}`,
+      at: {
+        location: "RedisCache",
+        function: "open",
+      },
+    });
+    return client;
+  }
+}
@@ -0,0 +1,133 @@
+import { Struct } from "superstruct";
+import winston from "winston";
+import { CachingMechanismInterface } from "../../interfaces";
+import { formattedLog } from "../../utils";
+
+const DEFAULT_MAX_PROMOTION_TTL = 60 * 60; // 1 hour
+
+/**
+ * A cache composed of multiple tiers, ordered from fastest to most durable (i.e. memory, then Redis, then IPFS).
+ * Reads are served by the first tier that holds the key, and the value is written back to each faster tier. Writes
+ * are made to every tier.
+ * @note Each tier is read and written with the same key, so content-addressed tiers such as IPFS can only serve reads
+ * for keys that are their content IDs.
+ * @note Failures of individual tiers are logged rather than thrown, such that an unavailable tier degrades to a miss.
+ */
+export class TieredCache implements CachingMechanismInterface {
+  /**
+   * @param tiers The cache tiers, ordered from fastest to most durable.
+   * @param maxPromotionTtl The maximum time to live, in seconds, of values written back to faster tiers.
+   * @param logger An optional logger for logging messages.
+   */
+  constructor(
+    readonly tiers: CachingMechanismInterface[],
+    readonly maxPromotionTtl = DEFAULT_MAX_PROMOTION_TTL,
+    private readonly logger?: winston.Logger
+  ) {
+    if (tiers.length === 0) {
+      throw new Error("TieredCache requires at least one tier");
+    }
+  }
+
+  /**
+   * Retrieve a value from the fastest tier that holds it.
+   * @param key The key to retrieve.
+   * @param structValidator An optional struct validator, passed to each tier.
+   * @param overrides Any overrides, passed to each tier.
+   * @returns The value if it exists in any tier, otherwise null.
+   * @note Values found in a slower tier are written back to faster tiers with the remaining TTL of the value in the
+   * slower tier, bounded by `maxPromotionTtl`, such that promoted values do not outlive the value they were read from.
+   * Values from tiers that cannot report a remaining TTL are written back with `maxPromotionTtl`.
+   */
+  async get<ObjectType, OverrideType = unknown>(
+    key?: string,
+    structValidator?: Struct<unknown, unknown>,
+    overrides?: OverrideType
+  ): Promise<ObjectType | null> {
+    if (!key) {
+      return null;
+    }
+
+    for (let idx = 0; idx < this.tiers.length; ++idx) {
+      let value: ObjectType | null = null;
+      try {
+        value = await this.tiers[idx].get<ObjectType, OverrideType>(key, structValidator, overrides);
+      } catch (err) {
+        this.logTierError(idx, "get", key, err);
+      }
+
+      if (value !== null) {
+        const ttl = idx > 0 ? await this.getPromotionTtl(idx, key) : undefined;
+        await Promise.all(
+          this.tiers.slice(0, idx).map(async (tier, tierIdx) => {
+            try {
+              await tier.set(key, value, ttl);
+            } catch (err) {
+              this.logTierError(tierIdx, "set", key, err);
+            }
+          })
+        );
+        return value;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Store a value in every tier.
+   * @param key The key to store.
+   * @param value The value to store.
+   * @param ttl The time to live in seconds. If undefined, each tier applies its own default.
+   * @param overrides Any overrides, passed to each tier.
+   * @returns The ID of the value in the most durable tier, or undefined if it could not be stored there.
+   */
+  async set<ObjectType, OverrideType>(
+    key: string,
+    value: ObjectType,
+    ttl?: number,
+    overrides?: OverrideType
+  ): Promise<string | undefined> {
+    const ids = await Promise.all(
+      this.tiers.map(async (tier, idx) => {
+        try {
+          return await tier.set(key, value, ttl, overrides);
+        } catch (err) {
+          this.logTierError(idx, "set", key, err);
+          return undefined;
+        }
+      })
+    );
+
+    return ids[ids.length - 1];
+  }
+
+  /**
+   * Resolve the TTL with which to write a value back to faster tiers.
+   * @param tier The index of the tier that holds the value.
+   * @param key The key of the value.
+   * @returns The remaining TTL of the value in `tier`, bounded by `maxPromotionTtl`.
+   */
+  private async getPromotionTtl(tier: number, key: string): Promise<number> {
+    let ttl: number | null = null;
+    try {
+      ttl = (await this.tiers[tier].getTtl?.(key)) ?? null;
+    } catch (err) {
+      this.logTierError(tier, "getTtl", key, err);
+    }
+
+    return Math.min(ttl ?? this.maxPromotionTtl, this.maxPromotionTtl);
+  }
+
+  private logTierError(tier: number, operation: string, key: string, err: unknown): void {
+    formattedLog(this.logger, {
+      level: "warn",
+      message: `Failed to ${operation} key ${key} in cache tier ${tier}`,
+      at: {
+        location: "TieredCache",
+        function: operation,
+      },
+      data: { error: err instanceof Error ? err.message : String(err) },
+    });
+  }
+}
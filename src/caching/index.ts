@@ -1,2 +1,6 @@
 export * from "./IPFS";
 export * from "./Arweave";
+export * from "./EventStore";
+export * from "./Memory";
+export * from "./Redis";
+export * from "./Tiered";
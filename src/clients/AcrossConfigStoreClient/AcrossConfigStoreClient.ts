@@ -337,7 +337,36 @@ export class AcrossConfigStoreClient extends BaseAbstractClient {
     };
   }
 
+  /**
+   * Create a read-only view of the ConfigStore as of a block. All getters on the view, including those that default
+   * to the latest block or timestamp, only reflect configuration updates made at or before `blockNumber`.
+   * @param blockNumber The block to view the ConfigStore as of. Must not exceed the latest block searched.
+   * @returns A Promise that resolves to an AcrossConfigStoreClient instance that cannot be updated.
+   */
+  asOf(blockNumber: number): Promise<this> {
+    const view = this.cloneAsOf(blockNumber);
+    const retain = (update: { blockNumber: number }) => update.blockNumber <= blockNumber;
+
+    view.cumulativeRateModelUpdates = this.cumulativeRateModelUpdates.filter(retain);
+    view.ubaConfigUpdates = this.ubaConfigUpdates.filter(retain);
+    view.cumulativeRouteRateModelUpdates = this.cumulativeRouteRateModelUpdates.filter(retain);
+    view.cumulativeMaxRefundCountUpdates = this.cumulativeMaxRefundCountUpdates.filter(retain);
+    view.cumulativeMaxL1TokenCountUpdates = this.cumulativeMaxL1TokenCountUpdates.filter(retain);
+    view.chainIdIndicesUpdates = this.chainIdIndicesUpdates.filter(retain);
+    view.liteChainIndicesUpdates = this.liteChainIndicesUpdates.filter(retain);
+    view.cumulativeSpokeTargetBalanceUpdates = this.cumulativeSpokeTargetBalanceUpdates.filter(retain);
+    view.cumulativeConfigStoreVersionUpdates = this.cumulativeConfigStoreVersionUpdates.filter(retain);
+    view.cumulativeDisabledChainUpdates = this.cumulativeDisabledChainUpdates.filter(retain);
+
+    view.rateModelDictionary = new across.rateModel.RateModelDictionary();
+    view.rateModelDictionary.updateWithEvents(view.cumulativeRateModelUpdates);
+    view.hasLatestConfigStoreVersion = view.hasValidConfigStoreVersionForTimestamp();
+
+    return Promise.resolve(view);
+  }
+
   async update(): Promise<void> {
+    this.assertNotHistoricalView();
     const result = await this._update();
     if (!result.success) {
       if (result.reason !== UpdateFailureReason.AlreadyUpdated) {
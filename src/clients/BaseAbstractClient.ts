@@ -1,11 +1,20 @@
-import { providers } from "ethers";
-import { CachingMechanismInterface } from "../interfaces";
-import { EventSearchConfig, isDefined, MakeOptional } from "../utils";
+import { Contract, Event, EventFilter, providers } from "ethers";
+import { CACHING_FINALITY, DEFAULT_CACHING_FINALITY } from "../constants";
+import { CachingMechanismInterface, EventStoreInterface, StoredEvent } from "../interfaces";
+import {
+  EventSearchConfig,
+  fromStoredEvent,
+  isDefined,
+  MakeOptional,
+  paginatedEventQuery,
+  toStoredEvent,
+} from "../utils";
 
 export enum UpdateFailureReason {
   AlreadyUpdated,
   BadRequest,
   RPCError,
+  Reorged,
 }
 
 export function isUpdateFailureReason(x: EventSearchConfig | UpdateFailureReason): x is UpdateFailureReason {
@@ -17,16 +26,19 @@ export function isUpdateFailureReason(x: EventSearchConfig | UpdateFailureReason
  */
 export abstract class BaseAbstractClient {
   protected _isUpdated: boolean;
+  protected asOfBlock: number | undefined;
   public firstBlockToSearch = 0;
   public latestBlockSearched = 0;
 
   /**
    * Creates a new client.
    * @param cachingMechanism The caching mechanism to use for this client. If not provided, the client will not rely on an external cache.
+   * @param eventStore The event store to use for this client. If not provided, all events are queried from the RPC provider.
    */
   constructor(
     readonly eventSearchConfig: MakeOptional<EventSearchConfig, "toBlock"> = { fromBlock: 0, maxBlockLookBack: 0 },
-    protected cachingMechanism?: CachingMechanismInterface
+    protected cachingMechanism?: CachingMechanismInterface,
+    protected eventStore?: EventStoreInterface
   ) {
     this._isUpdated = false;
   }
@@ -75,6 +87,45 @@ export abstract class BaseAbstractClient {
     return { fromBlock, toBlock, maxBlockLookBack };
   }
 
+  /**
+   * Indicates whether the client is a read-only view of its state as of a historical block.
+   * @returns Whether the client was created by asOf().
+   */
+  public get isHistoricalView(): boolean {
+    return isDefined(this.asOfBlock);
+  }
+
+  /**
+   * Creates a shallow copy of the client to be rewound to a historical block. The copy shares all state with the
+   * client, so callers must replace (rather than mutate) any state that they rewind.
+   * @param blockNumber The block to view the client as of.
+   * @returns A copy of the client that cannot be updated.
+   * @throws If the client has not been updated, or has not yet searched up to `blockNumber`.
+   */
+  protected cloneAsOf(blockNumber: number): this {
+    this.assertUpdated();
+    if (blockNumber > this.latestBlockSearched) {
+      throw new Error(
+        `Cannot view client as of block ${blockNumber} (latest block searched ${this.latestBlockSearched})`
+      );
+    }
+
+    const view = Object.assign(Object.create(Object.getPrototypeOf(this)), this) as this;
+    view.asOfBlock = blockNumber;
+    view.latestBlockSearched = blockNumber;
+    view.firstBlockToSearch = blockNumber + 1;
+    return view;
+  }
+
+  /**
+   * Asserts that the client is not a historical view, and can therefore be updated.
+   */
+  protected assertNotHistoricalView(): void {
+    if (isDefined(this.asOfBlock)) {
+      throw new Error(`Cannot update a client view as of block ${this.asOfBlock}`);
+    }
+  }
+
   /**
    * Asserts that the client has been updated.
    */
@@ -91,4 +142,94 @@ export abstract class BaseAbstractClient {
   protected hasCachingMechanism(): boolean {
     return isDefined(this.cachingMechanism);
   }
+
+  /**
+   * Queries events emitted by a contract. If an event store is configured, any part of the search range that has
+   * already been stored is loaded from the store, and only the remainder is queried from the RPC provider. Only
+   * events at least CACHING_FINALITY blocks behind the end of the search range are persisted, so the unfinalized tail
+   * of each query is re-queried (and persisted, once final) by the next update.
+   * @param chainId The chain ID of the contract.
+   * @param contract The contract to query.
+   * @param eventName The name of the event, used to key the event store.
+   * @param filter The event filter.
+   * @param searchConfig The range over which to search.
+   * @returns The events within the search range, in ascending order.
+   */
+  protected async queryEvents(
+    chainId: number,
+    contract: Contract,
+    eventName: string,
+    filter: EventFilter,
+    searchConfig: EventSearchConfig
+  ): Promise<Event[]> {
+    const { eventStore } = this;
+    if (!isDefined(eventStore)) {
+      return await paginatedEventQuery(contract, filter, searchConfig);
+    }
+
+    const key = { chainId, contract: contract.address, eventName };
+    const { fromBlock, toBlock } = searchConfig;
+
+    // The search range never extends beyond the chain head, so its end block bounds the finalized block from below.
+    const finalizedBlock = toBlock - (CACHING_FINALITY[chainId] ?? DEFAULT_CACHING_FINALITY);
+
+    let storedEvents: StoredEvent[] = [];
+    let queryFromBlock = fromBlock;
+    const storedRange = await eventStore.getBlockRange(key);
+    if (isDefined(storedRange) && storedRange[0] <= fromBlock) {
+      if (storedRange[1] >= fromBlock) {
+        const storedToBlock = Math.min(storedRange[1], toBlock);
+        storedEvents = await eventStore.load(key, fromBlock, storedToBlock);
+        queryFromBlock = storedToBlock + 1;
+      } else if (storedRange[1] < finalizedBlock) {
+        // Resume from the end of the stored range, such that the unfinalized tail of the previous query is persisted.
+        queryFromBlock = storedRange[1] + 1;
+      }
+    }
+
+    let events: Event[] = [];
+    if (queryFromBlock <= toBlock) {
+      events = await paginatedEventQuery(contract, filter, { ...searchConfig, fromBlock: queryFromBlock });
+
+      const storeToBlock = Math.min(toBlock, finalizedBlock);
+      if (storeToBlock >= queryFromBlock) {
+        const finalizedEvents = events.filter(({ blockNumber }) => blockNumber <= storeToBlock);
+        await eventStore.append(key, queryFromBlock, storeToBlock, finalizedEvents.map(toStoredEvent));
+      }
+      events = events.filter(({ blockNumber }) => blockNumber >= fromBlock);
+    }
+
+    return [...storedEvents.map((storedEvent) => fromStoredEvent(storedEvent, contract.address)), ...events];
+  }
+
+  /**
+   * Discards any events stored after a block, so that they are re-queried from the RPC provider.
+   * @param chainId The chain ID of the contract.
+   * @param contract The contract whose events are stored.
+   * @param eventNames The names of the events to rewind.
+   * @param toBlock The last block to retain.
+   */
+  protected async rewindEventStore(
+    chainId: number,
+    contract: Contract,
+    eventNames: string[],
+    toBlock: number
+  ): Promise<void> {
+    const { eventStore } = this;
+    if (!isDefined(eventStore)) {
+      return;
+    }
+
+    // Stores that cannot rewind only ever hold finalized events (see queryEvents()), which cannot be reorged.
+    const { rewind } = eventStore;
+    if (!isDefined(rewind)) {
+      return;
+    }
+
+    await Promise.all(
+      eventNames.map((eventName) =>
+        rewind.call(eventStore, { chainId, contract: contract.address, eventName }, toBlock)
+      )
+    );
+  }
 }
@@ -0,0 +1,1157 @@
+import winston from "winston";
+import {
+  BundleDepositsV3,
+  BundleExcessSlowFills,
+  BundleFillsV3,
+  BundleSlowFills,
+  CombinedRefunds,
+  DepositLifecycle,
+  DepositLifecycleFill,
+  DepositWithBlock,
+  ExpiredDepositRefund,
+  ExpiredDepositsToRefundV3,
+  FillStatus,
+  FillType,
+  FillWithBlock,
+  LoadDataReturnValue,
+  PoolRebalanceLeaf,
+  ProposedRootBundle,
+  RelayerRefundExecutionWithBlock,
+  RelayerRefundLeaf,
+  RootBundleExecutions,
+  RootBundleMismatch,
+  RootBundleProposal,
+  RootBundleRoots,
+  RootBundleValidation,
+  RootBundleValidationStatus,
+  RunningBalanceProjection,
+  RunningBalances,
+  SlowFillLeaf,
+  SlowFillRequestWithBlock,
+  SpokePoolClientsByChain,
+} from "../../interfaces";
+import {
+  assign,
+  bnZero,
+  buildPoolRebalanceLeafTree,
+  buildRelayerRefundTree,
+  buildSlowRelayTree,
+  compareAddresses,
+  computeRootBundleRoots,
+  dedupArray,
+  fillStatusArray,
+  findLast,
+  fixedPointAdjustment,
+  getBlockRangeForChain,
+  getImpliedBundleBlockRanges,
+  getRelayDataHash,
+  isDefined,
+  mapAsync,
+  queryHistoricalDepositForFill,
+} from "../../utils";
+import { AcrossConfigStoreClient } from "../AcrossConfigStoreClient";
+import { HubPoolClient } from "../HubPoolClient";
+import { SpokePoolClient } from "../SpokePoolClient";
+import {
+  buildPoolRebalanceLeaves,
+  buildRelayerRefundLeaves,
+  buildSlowFillLeaves,
+  getBundleRunningBalances,
+  getNetSendAmountForL1Token,
+  getRefundsFromBundle,
+  populateExecuteRelayerRefundLeaf,
+  populateExecuteRootBundle,
+  populateExecuteSlowRelayLeaf,
+  populateProposeRootBundle,
+  updateRunningBalance,
+} from "./utils";
+
+type BundleBlockTimestamps = { [chainId: number]: [number, number] };
+
+/**
+ * BundleDataClient joins the HubPool and per-chain SpokePool event stores into the contents of a root bundle: the
+ * deposits, fills, slow fill requests and expired deposits that fall within a set of bundle block ranges, as well as
+ * the refunds owed as a result.
+ */
+export class BundleDataClient {
+  /**
+   * Creates a new BundleDataClient.
+   * @param logger A logger instance.
+   * @param hubPoolClient An updated HubPoolClient instance. Used for token mappings and LP fee computation.
+   * @param spokePoolClients Updated SpokePoolClient instances for each chain that may appear in a bundle.
+   */
+  constructor(
+    readonly logger: winston.Logger,
+    readonly hubPoolClient: HubPoolClient,
+    readonly spokePoolClients: SpokePoolClientsByChain
+  ) {}
+
+  get configStoreClient(): AcrossConfigStoreClient {
+    return this.hubPoolClient.configStoreClient;
+  }
+
+  /**
+   * Reconstruct the bundle data for a proposed root bundle, using the block ranges implied by its end blocks.
+   * @param rootBundle The proposed root bundle to load data for.
+   * @returns The bundle data for the root bundle.
+   */
+  loadDataForRootBundle(rootBundle: ProposedRootBundle): Promise<LoadDataReturnValue> {
+    const blockRanges = getImpliedBundleBlockRanges(this.hubPoolClient, this.configStoreClient, rootBundle);
+    const chainIds = this.configStoreClient.getChainIdIndicesForBlock(rootBundle.blockNumber);
+    return this.loadData(blockRanges, chainIds);
+  }
+
+  /**
+   * Reconstruct the bundle data for a set of bundle block ranges.
+   * @param blockRangesForChains Inclusive [startBlock, endBlock] ranges, ordered by `chainIds`.
+   * @param chainIds The chain ID indices for the bundle. Defaults to the latest indices in the ConfigStore.
+   * @returns The deposits, fills, slow fills, expired deposits and refunds for the bundle.
+   * @note Expired deposits are only identified among the deposits within each SpokePoolClient's search range.
+   * @throws If a SpokePoolClient is missing or not updated for a chain that is enabled in the bundle.
+   */
+  async loadData(
+    blockRangesForChains: number[][],
+    chainIds = this.configStoreClient.getChainIdIndicesForBlock()
+  ): Promise<LoadDataReturnValue> {
+    const { hubPoolClient, spokePoolClients } = this;
+    const enabledChainIds = this.getEnabledChainIds(blockRangesForChains, chainIds);
+
+    const hubPoolBlock = getBlockRangeForChain(blockRangesForChains, hubPoolClient.chainId, chainIds)[1];
+    const blockRangeForChain = (chainId: number) => getBlockRangeForChain(blockRangesForChains, chainId, chainIds);
+    const bundleBlockTimestamps = await this.getBundleBlockTimestamps(enabledChainIds, blockRangesForChains, chainIds);
+
+    const bundleDepositsV3: BundleDepositsV3 = {};
+    const bundleFillsV3: BundleFillsV3 = {};
+    const bundleSlowFillsV3: BundleSlowFills = {};
+    const unexecutableSlowFills: BundleExcessSlowFills = {};
+    const expiredDepositsToRefundV3: ExpiredDepositsToRefundV3 = {};
+    const invalidFills: FillWithBlock[] = [];
+
+    // Deposits are attributed to the bundle in which they were made on the origin chain.
+    enabledChainIds.forEach((originChainId) => {
+      const [fromBlock, toBlock] = blockRangeForChain(originChainId);
+      spokePoolClients[originChainId].getDeposits({ fromBlock, toBlock }).forEach((deposit) => {
+        assign(bundleDepositsV3, [originChainId, deposit.inputToken], [deposit]);
+      });
+    });
+
+    // Fills and slow fill requests are attributed to the bundle in which they were made on the destination chain.
+    const validatedFills: { fill: FillWithBlock; deposit: DepositWithBlock }[] = [];
+    const slowFillCandidates: DepositWithBlock[] = [];
+    const replacedSlowFills: DepositWithBlock[] = [];
+
+    for (const destinationChainId of enabledChainIds) {
+      const destinationClient = spokePoolClients[destinationChainId];
+      const [startBlock, endBlock] = blockRangeForChain(destinationChainId);
+
+      const fills = destinationClient
+        .getFillsWithBlockInRange(startBlock, endBlock)
+        .filter(({ originChainId }) => enabledChainIds.includes(originChainId));
+
+      for (const fill of fills) {
+        const deposit = await this.findDeposit(spokePoolClients[fill.originChainId], fill);
+        if (!isDefined(deposit)) {
+          invalidFills.push(fill);
+          continue;
+        }
+
+        // Slow fills are paid out of the SpokePool balance allocated in an earlier bundle, so are not refunded.
+        const { fillType } = fill.relayExecutionInfo;
+        if (fillType !== FillType.SlowFill) {
+          validatedFills.push({ fill, deposit });
+        }
+
+        // If the slow fill leaf was included in an earlier bundle, it can no longer be executed.
+        if (
+          fillType === FillType.ReplacedSlowFill &&
+          this.isSlowFillLeafInPriorBundle(
+            deposit,
+            hubPoolBlock,
+            startBlock,
+            bundleBlockTimestamps[destinationChainId][0]
+          )
+        ) {
+          replacedSlowFills.push(deposit);
+        }
+      }
+
+      const slowFillRequests = enabledChainIds
+        .map((originChainId) => destinationClient.getSlowFillRequestsForOriginChain(originChainId))
+        .flat()
+        .filter(({ blockNumber }) => blockNumber >= startBlock && blockNumber <= endBlock);
+
+      for (const slowFillRequest of slowFillRequests) {
+        const deposit = await this.findDeposit(spokePoolClients[slowFillRequest.originChainId], slowFillRequest);
+        if (
+          isDefined(deposit) &&
+          this.canCreateSlowFillLeaf(deposit, hubPoolBlock) &&
+          deposit.fillDeadline >= bundleBlockTimestamps[destinationChainId][1] &&
+          !this.isFilledBeforeBlock(destinationClient, slowFillRequest, endBlock)
+        ) {
+          slowFillCandidates.push(deposit);
+        }
+      }
+    }
+
+    const expiredDeposits = await this.findExpiredDeposits(
+      blockRangesForChains,
+      chainIds,
+      enabledChainIds,
+      bundleBlockTimestamps
+    );
+    expiredDeposits.forEach(({ deposit, fillStatus }) => {
+      assign(expiredDepositsToRefundV3, [deposit.originChainId, deposit.inputToken], [deposit]);
+
+      // A slow fill leaf may have been produced for this deposit in an earlier bundle.
+      const { destinationChainId } = deposit;
+      if (
+        fillStatus === FillStatus.RequestedSlowFill &&
+        this.isSlowFillLeafInPriorBundle(
+          deposit,
+          hubPoolBlock,
+          blockRangeForChain(destinationChainId)[0],
+          bundleBlockTimestamps[destinationChainId][0]
+        )
+      ) {
+        replacedSlowFills.push(deposit);
+      }
+    });
+
+    // Resolve LP fees in a single batch. Fills are charged according to their repayment chain, whilst slow fills are
+    // charged according to their destination chain.
+    const fillRepaymentChainIds = validatedFills.map(({ fill, deposit }) =>
+      this.getRepaymentChainId(fill, deposit, enabledChainIds)
+    );
+    const lpFeeRequests = [
+      ...validatedFills.map(({ deposit }, idx) => ({ ...deposit, paymentChainId: fillRepaymentChainIds[idx] })),
+      ...[...slowFillCandidates, ...replacedSlowFills].map((deposit) => ({
+        ...deposit,
+        paymentChainId: deposit.destinationChainId,
+      })),
+    ];
+    const lpFees = lpFeeRequests.length > 0 ? await hubPoolClient.batchComputeRealizedLpFeePct(lpFeeRequests) : [];
+    const fillLpFees = lpFees.slice(0, validatedFills.length);
+    const slowFillLpFees = lpFees.slice(validatedFills.length, validatedFills.length + slowFillCandidates.length);
+    const replacedSlowFillLpFees = lpFees.slice(validatedFills.length + slowFillCandidates.length);
+
+    validatedFills.forEach(({ fill, deposit }, idx) => {
+      const repaymentChainId = fillRepaymentChainIds[idx];
+      const repaymentToken = hubPoolClient.getL2TokenForDeposit(deposit, repaymentChainId);
+      const { realizedLpFeePct: lpFeePct } = fillLpFees[idx];
+
+      bundleFillsV3[repaymentChainId] ??= {};
+      bundleFillsV3[repaymentChainId][repaymentToken] ??= {
+        fills: [],
+        refunds: {},
+        totalRefundAmount: bnZero,
+        realizedLpFees: bnZero,
+      };
+      const repayments = bundleFillsV3[repaymentChainId][repaymentToken];
+
+      const lpFee = deposit.inputAmount.mul(lpFeePct).div(fixedPointAdjustment);
+      const refundAmount = deposit.inputAmount.sub(lpFee);
+      repayments.fills.push({ ...fill, lpFeePct });
+      repayments.refunds[fill.relayer] = (repayments.refunds[fill.relayer] ?? bnZero).add(refundAmount);
+      repayments.totalRefundAmount = repayments.totalRefundAmount.add(refundAmount);
+      repayments.realizedLpFees = repayments.realizedLpFees.add(lpFee);
+    });
+
+    slowFillCandidates.forEach((deposit, idx) => {
+      const { realizedLpFeePct: lpFeePct } = slowFillLpFees[idx];
+      assign(bundleSlowFillsV3, [deposit.destinationChainId, deposit.outputToken], [{ ...deposit, lpFeePct }]);
+    });
+
+    replacedSlowFills.forEach((deposit, idx) => {
+      const { realizedLpFeePct: lpFeePct } = replacedSlowFillLpFees[idx];
+      assign(unexecutableSlowFills, [deposit.destinationChainId, deposit.outputToken], [{ ...deposit, lpFeePct }]);
+    });
+
+    this.logger.debug({
+      at: "BundleDataClient#loadData",
+      message: "Loaded bundle data.",
+      blockRangesForChains,
+      deposits: this.countEntries(bundleDepositsV3),
+      fills: validatedFills.length,
+      invalidFills: invalidFills.length,
+      slowFills: this.countEntries(bundleSlowFillsV3),
+      unexecutableSlowFills: this.countEntries(unexecutableSlowFills),
+      expiredDeposits: this.countEntries(expiredDepositsToRefundV3),
+    });
+
+    return {
+      bundleDepositsV3,
+      expiredDepositsToRefundV3,
+      bundleFillsV3,
+      unexecutableSlowFills,
+      bundleSlowFillsV3,
+      invalidFills,
+    };
+  }
+
+  /**
+   * Aggregate all refunds owed by a bundle, keyed by repayment chain, repayment token and recipient.
+   * Relayers are refunded for their fills and depositors are refunded for expired deposits on the origin chain.
+   * @param bundleData Bundle data, as returned by loadData().
+   * @returns The combined refunds for the bundle.
+   */
+  getRefundsFromBundle(
+    bundleData: Pick<LoadDataReturnValue, "bundleFillsV3" | "expiredDepositsToRefundV3">
+  ): CombinedRefunds {
+    return getRefundsFromBundle(bundleData);
+  }
+
+  /**
+   * Build the PoolRebalance, RelayerRefund and SlowFill leaves for a bundle.
+   * @param bundleData Bundle data, as returned by loadData().
+   * @param blockRangesForChains The bundle block ranges used to load `bundleData`.
+   * @param chainIds The chain ID indices for the bundle.
+   * @returns The leaves for each of the three Merkle trees in the root bundle.
+   */
+  buildRootBundleLeaves(
+    bundleData: LoadDataReturnValue,
+    blockRangesForChains: number[][],
+    chainIds = this.configStoreClient.getChainIdIndicesForBlock()
+  ): {
+    poolRebalanceLeaves: PoolRebalanceLeaf[];
+    relayerRefundLeaves: RelayerRefundLeaf[];
+    slowFillLeaves: SlowFillLeaf[];
+  } {
+    const { hubPoolClient, configStoreClient } = this;
+    const [, mainnetBundleEndBlock] = getBlockRangeForChain(blockRangesForChains, hubPoolClient.chainId, chainIds);
+
+    const { leaves: poolRebalanceLeaves } = buildPoolRebalanceLeaves(
+      bundleData,
+      mainnetBundleEndBlock,
+      hubPoolClient,
+      configStoreClient
+    );
+    const relayerRefundLeaves = buildRelayerRefundLeaves(
+      bundleData,
+      poolRebalanceLeaves,
+      mainnetBundleEndBlock,
+      hubPoolClient,
+      configStoreClient
+    );
+    const slowFillLeaves = buildSlowFillLeaves(bundleData);
+
+    return { poolRebalanceLeaves, relayerRefundLeaves, slowFillLeaves };
+  }
+
+  /**
+   * Rebuild the leaves of a proposed root bundle, using the block ranges implied by its end blocks.
+   * @param rootBundle The proposed root bundle to rebuild the leaves of.
+   * @returns The leaves for each of the three Merkle trees in the root bundle.
+   */
+  async buildRootBundleLeavesForRootBundle(rootBundle: ProposedRootBundle): Promise<{
+    poolRebalanceLeaves: PoolRebalanceLeaf[];
+    relayerRefundLeaves: RelayerRefundLeaf[];
+    slowFillLeaves: SlowFillLeaf[];
+  }> {
+    const blockRanges = getImpliedBundleBlockRanges(this.hubPoolClient, this.configStoreClient, rootBundle);
+    const chainIds = this.configStoreClient.getChainIdIndicesForBlock(rootBundle.blockNumber);
+    const bundleData = await this.loadData(blockRanges, chainIds);
+    return this.buildRootBundleLeaves(bundleData, blockRanges, chainIds);
+  }
+
+  /**
+   * Build the next root bundle proposal. Each enabled chain's bundle block range starts after the end block of the
+   * latest fully executed root bundle, and disabled chains repeat their previous end block.
+   * @param bundleEndBlocks Optional bundle end blocks, ordered by `chainIds`. Defaults to the latest block searched
+   * by each SpokePoolClient.
+   * @param chainIds The chain ID indices for the bundle. Defaults to the latest indices in the ConfigStore.
+   * @returns The bundle data, leaves and roots of the proposal, along with an unsigned proposeRootBundle() transaction.
+   * @throws If the pending root bundle still has unexecuted PoolRebalanceLeaves.
+   * @throws If an enabled chain has no new blocks to include in the bundle.
+   */
+  async buildRootBundleProposal(
+    bundleEndBlocks?: number[],
+    chainIds = this.configStoreClient.getChainIdIndicesForBlock()
+  ): Promise<RootBundleProposal> {
+    const { hubPoolClient, configStoreClient, spokePoolClients } = this;
+    const hubPoolBlock = hubPoolClient.latestBlockSearched;
+
+    const pendingRootBundle = hubPoolClient.getPendingRootBundle();
+    if (isDefined(pendingRootBundle)) {
+      throw new Error(
+        `Pending root bundle has ${pendingRootBundle.unclaimedPoolRebalanceLeafCount} unexecuted PoolRebalanceLeaves`
+      );
+    }
+
+    // Chains are enabled or disabled according to the ConfigStore at the HubPool end block of the previous bundle.
+    const prevRootBundle = hubPoolClient.getLatestFullyExecutedRootBundle(hubPoolBlock);
+    const mainnetStartBlock = prevRootBundle?.bundleEvaluationBlockNumbers[0].toNumber() ?? 0;
+    const enabledChainIds = configStoreClient.getEnabledChains(mainnetStartBlock);
+
+    const blockRanges = chainIds.map((chainId, idx) => {
+      if (!enabledChainIds.includes(chainId)) {
+        const prevEndBlock = hubPoolClient.getLatestBundleEndBlockForChain(chainIds, hubPoolBlock, chainId);
+        return [prevEndBlock, prevEndBlock];
+      }
+
+      const startBlock = hubPoolClient.getNextBundleStartBlockNumber(chainIds, hubPoolBlock, chainId);
+      const endBlock = bundleEndBlocks?.[idx] ?? spokePoolClients[chainId]?.latestBlockSearched;
+      if (!isDefined(endBlock) || endBlock <= startBlock) {
+        throw new Error(`No new blocks to propose for chain ${chainId} (start block ${startBlock})`);
+      }
+      return [startBlock, endBlock];
+    });
+
+    const bundleData = await this.loadData(blockRanges, chainIds);
+    const leaves = this.buildRootBundleLeaves(bundleData, blockRanges, chainIds);
+    const roots = computeRootBundleRoots(leaves);
+
+    const bundleEvaluationBlockNumbers = blockRanges.map(([, endBlock]) => endBlock);
+    const transaction = await populateProposeRootBundle(
+      hubPoolClient.hubPool,
+      bundleEvaluationBlockNumbers,
+      leaves.poolRebalanceLeaves.length,
+      roots
+    );
+
+    this.logger.debug({
+      at: "BundleDataClient#buildRootBundleProposal",
+      message: "Built root bundle proposal.",
+      blockRanges,
+      roots,
+      poolRebalanceLeafCount: leaves.poolRebalanceLeaves.length,
+    });
+
+    return { blockRanges, bundleEvaluationBlockNumbers, bundleData, ...leaves, roots, transaction };
+  }
+
+  /**
+   * Build the transactions that execute the outstanding leaves of a root bundle, with their Merkle proofs.
+   * PoolRebalanceLeaves are only executable while the root bundle is pending in the HubPool. RelayerRefundLeaves and
+   * SlowFillLeaves are only executable once the root bundle has been relayed to the SpokePool on their chain, so
+   * leaves for chains that have not yet received the root bundle are omitted, as are SlowFillLeaves whose deposits
+   * have been filled or have expired.
+   * @param rootBundle The proposed root bundle to execute.
+   * @param leaves The leaves of the root bundle, as returned by buildRootBundleLeaves().
+   * @returns The executions for all leaves that have not yet been executed.
+   * @throws If the leaves do not resolve to the roots of `rootBundle`.
+   * @throws If a SpokePoolClient is missing for a chain that has RelayerRefundLeaves or SlowFillLeaves.
+   */
+  async buildRootBundleExecutions(
+    rootBundle: ProposedRootBundle,
+    leaves: {
+      poolRebalanceLeaves: PoolRebalanceLeaf[];
+      relayerRefundLeaves: RelayerRefundLeaf[];
+      slowFillLeaves: SlowFillLeaf[];
+    }
+  ): Promise<RootBundleExecutions> {
+    const { hubPoolClient, spokePoolClients } = this;
+
+    const expectedRoots = computeRootBundleRoots(leaves);
+    const mismatches = (Object.keys(expectedRoots) as (keyof RootBundleRoots)[]).filter(
+      (field) => expectedRoots[field].toLowerCase() !== rootBundle[field].toLowerCase()
+    );
+    if (mismatches.length > 0) {
+      throw new Error(
+        `Leaves do not match ${mismatches.join(", ")} of root bundle proposed at ${rootBundle.blockNumber}`
+      );
+    }
+
+    const executions: RootBundleExecutions = { poolRebalanceLeaves: [], relayerRefundLeaves: {}, slowFillLeaves: {} };
+
+    const pendingRootBundle = hubPoolClient.hasPendingProposal()
+      ? hubPoolClient.getLatestProposedRootBundle()
+      : undefined;
+    if (pendingRootBundle?.transactionHash === rootBundle.transactionHash) {
+      const executedLeafIds = hubPoolClient
+        .getExecutedLeavesForRootBundle(rootBundle, hubPoolClient.latestBlockSearched)
+        .map(({ leafId }) => leafId);
+      const tree = buildPoolRebalanceLeafTree(leaves.poolRebalanceLeaves);
+
+      const poolRebalanceLeaves = leaves.poolRebalanceLeaves
+        .filter(({ leafId }) => !executedLeafIds.includes(leafId))
+        .sort((leafA, leafB) => leafA.leafId - leafB.leafId);
+      executions.poolRebalanceLeaves = await mapAsync(poolRebalanceLeaves, async (leaf) => {
+        const proof = tree.getHexProof(leaf);
+        const transaction = await populateExecuteRootBundle(hubPoolClient.hubPool, leaf, proof);
+        return { leaf, proof, transaction };
+      });
+    }
+
+    const chainIds = dedupArray([
+      ...leaves.relayerRefundLeaves.map(({ chainId }) => chainId),
+      ...leaves.slowFillLeaves.map(({ chainId }) => chainId),
+    ]);
+    const relayerRefundTree = buildRelayerRefundTree(leaves.relayerRefundLeaves);
+    const slowRelayTree = buildSlowRelayTree(leaves.slowFillLeaves);
+
+    for (const chainId of chainIds) {
+      const spokePoolClient = spokePoolClients[chainId];
+      if (!isDefined(spokePoolClient)) {
+        throw new Error(`Missing SpokePoolClient for chain ${chainId}`);
+      }
+
+      const rootBundleRelay = spokePoolClient
+        .getRootBundleRelays()
+        .filter(
+          ({ relayerRefundRoot, slowRelayRoot }) =>
+            relayerRefundRoot === rootBundle.relayerRefundRoot && slowRelayRoot === rootBundle.slowRelayRoot
+        )
+        .at(-1);
+      if (!isDefined(rootBundleRelay)) {
+        this.logger.debug({
+          at: "BundleDataClient#buildRootBundleExecutions",
+          message: `Root bundle proposed at block ${rootBundle.blockNumber} has not been relayed to chain ${chainId}.`,
+        });
+        continue;
+      }
+      const { rootBundleId } = rootBundleRelay;
+      const { spokePool } = spokePoolClient;
+
+      const executedLeafIds = spokePoolClient
+        .getRelayerRefundExecutions()
+        .filter((execution) => execution.rootBundleId === rootBundleId)
+        .map(({ leafId }) => leafId);
+      const relayerRefundLeaves = leaves.relayerRefundLeaves
+        .filter((leaf) => leaf.chainId === chainId && !executedLeafIds.includes(leaf.leafId))
+        .sort((leafA, leafB) => leafA.leafId - leafB.leafId);
+      executions.relayerRefundLeaves[chainId] = await mapAsync(relayerRefundLeaves, async (leaf) => {
+        const proof = relayerRefundTree.getHexProof(leaf);
+        const transaction = await populateExecuteRelayerRefundLeaf(spokePool, rootBundleId, leaf, proof);
+        return { leaf, proof, transaction };
+      });
+
+      // A slow fill leaf can no longer be executed once its deposit has been filled, either by a relayer or by a
+      // previous slow fill execution, or once the fill deadline of its deposit has passed.
+      const currentTime = spokePoolClient.getCurrentTime();
+      const filledRelayDataHashes = new Set(
+        spokePoolClient.getFills().map((fill) => getRelayDataHash(fill, fill.destinationChainId))
+      );
+      const slowFillLeaves = leaves.slowFillLeaves.filter(
+        ({ chainId: leafChainId, relayData }) =>
+          leafChainId === chainId &&
+          relayData.fillDeadline >= currentTime &&
+          !filledRelayDataHashes.has(getRelayDataHash(relayData, leafChainId))
+      );
+      executions.slowFillLeaves[chainId] = await mapAsync(slowFillLeaves, async (leaf) => {
+        const proof = slowRelayTree.getHexProof(leaf);
+        const transaction = await populateExecuteSlowRelayLeaf(spokePool, rootBundleId, leaf, proof);
+        return { leaf, proof, transaction };
+      });
+    }
+
+    return executions;
+  }
+
+  /**
+   * Validate the pending root bundle proposal in the HubPool.
+   * @returns The validation verdict, or undefined if there is no pending root bundle.
+   */
+  async validatePendingRootBundle(): Promise<RootBundleValidation | undefined> {
+    if (!isDefined(this.hubPoolClient.getPendingRootBundle())) {
+      return undefined;
+    }
+
+    return await this.validateRootBundle(this.hubPoolClient.getLatestProposedRootBundle());
+  }
+
+  /**
+   * Validate a root bundle proposal by recomputing its roots from SpokePool data.
+   * @param rootBundle The proposed root bundle to validate.
+   * @returns Valid if all roots match, Invalid with the mismatched fields if the proposal is disputable, or
+   * Undecidable if the bundle block ranges cannot be resolved or are not covered by the HubPool or SpokePool clients.
+   */
+  async validateRootBundle(rootBundle: ProposedRootBundle): Promise<RootBundleValidation> {
+    const { hubPoolClient, configStoreClient, spokePoolClients } = this;
+    const chainIds = configStoreClient.getChainIdIndicesForBlock(rootBundle.blockNumber);
+
+    if (hubPoolClient.latestBlockSearched < rootBundle.blockNumber) {
+      return {
+        status: RootBundleValidationStatus.Undecidable,
+        reason: `HubPoolClient has not searched up to proposal block ${rootBundle.blockNumber}`,
+        chainIds: [hubPoolClient.chainId],
+      };
+    }
+
+    if (rootBundle.bundleEvaluationBlockNumbers.length !== chainIds.length) {
+      return {
+        status: RootBundleValidationStatus.Invalid,
+        mismatches: [
+          {
+            field: "bundleBlockRanges",
+            expected: `${chainIds.length} bundle end blocks`,
+            proposed: rootBundle.bundleEvaluationBlockNumbers.map(String).join(","),
+          },
+        ],
+      };
+    }
+
+    // Block ranges are resolved from the preceding root bundles, so failing to resolve them reflects incomplete
+    // HubPool or ConfigStore data rather than a fault in the proposal.
+    let blockRanges: number[][];
+    try {
+      blockRanges = getImpliedBundleBlockRanges(hubPoolClient, configStoreClient, rootBundle);
+    } catch (err) {
+      return {
+        status: RootBundleValidationStatus.Undecidable,
+        reason: `Unable to resolve bundle block ranges: ${err instanceof Error ? err.message : String(err)}`,
+        chainIds: [hubPoolClient.chainId],
+      };
+    }
+
+    // Each enabled chain must be searched over the full bundle block range before its events can be trusted.
+    const uncoveredChainIds = chainIds.filter((chainId) => {
+      const blockRange = getBlockRangeForChain(blockRanges, chainId, chainIds);
+      if (this.isChainDisabled(blockRange)) {
+        return false;
+      }
+
+      const spokePoolClient = spokePoolClients[chainId];
+      if (!spokePoolClient?.isUpdated) {
+        return true;
+      }
+
+      const [startBlock, endBlock] = blockRange;
+      const { deploymentBlock, eventSearchConfig, latestBlockSearched } = spokePoolClient;
+      return Math.max(eventSearchConfig.fromBlock, deploymentBlock) > startBlock || latestBlockSearched < endBlock;
+    });
+    if (uncoveredChainIds.length > 0) {
+      return {
+        status: RootBundleValidationStatus.Undecidable,
+        reason: "SpokePoolClient data does not cover the bundle block range",
+        chainIds: uncoveredChainIds,
+      };
+    }
+
+    const bundleData = await this.loadData(blockRanges, chainIds);
+    const leaves = this.buildRootBundleLeaves(bundleData, blockRanges, chainIds);
+    const expectedRoots = computeRootBundleRoots(leaves);
+
+    const mismatches: RootBundleMismatch[] = (Object.keys(expectedRoots) as (keyof RootBundleRoots)[])
+      .filter((field) => expectedRoots[field].toLowerCase() !== rootBundle[field].toLowerCase())
+      .map((field) => ({ field, expected: expectedRoots[field], proposed: rootBundle[field] }));
+
+    if (leaves.poolRebalanceLeaves.length !== rootBundle.poolRebalanceLeafCount) {
+      mismatches.push({
+        field: "poolRebalanceLeafCount",
+        expected: String(leaves.poolRebalanceLeaves.length),
+        proposed: String(rootBundle.poolRebalanceLeafCount),
+      });
+    }
+
+    this.logger.debug({
+      at: "BundleDataClient#validateRootBundle",
+      message: `Validated root bundle proposed at block ${rootBundle.blockNumber}.`,
+      blockRanges,
+      expectedRoots,
+      mismatches,
+    });
+
+    return mismatches.length === 0
+      ? { status: RootBundleValidationStatus.Valid, blockRanges, expectedRoots }
+      : { status: RootBundleValidationStatus.Invalid, blockRanges, expectedRoots, mismatches };
+  }
+
+  /**
+   * Project the live running balance of each chain and L1 token. The projection starts from the running balance of
+   * the latest fully executed root bundle and adds the net flows of all deposits, fills, slow fills, expired deposits
+   * and TokensBridged events since that bundle, up to the latest block searched by each SpokePoolClient.
+   * @note TokensBridged amounts are funds that have left the SpokePool for the HubPool, so they reduce the amount
+   * that the SpokePool owes the HubPool.
+   * @returns A projection for each L1 token that is enabled on each chain.
+   */
+  async projectRunningBalances(): Promise<RunningBalanceProjection[]> {
+    const { hubPoolClient, configStoreClient, spokePoolClients } = this;
+    const hubPoolBlock = hubPoolClient.latestBlockSearched;
+    const chainIds = configStoreClient.getChainIdIndicesForBlock(hubPoolBlock);
+    const enabledChainIds = configStoreClient.getEnabledChains(hubPoolBlock);
+
+    // Executed leaves of any pending root bundle are excluded, since its block ranges are not yet accounted for.
+    const latestExecutedBundle = hubPoolClient.getLatestFullyExecutedRootBundle(hubPoolBlock);
+    const followingBundle = isDefined(latestExecutedBundle)
+      ? hubPoolClient.getFollowingRootBundle(latestExecutedBundle)
+      : undefined;
+    const runningBalanceBlock = followingBundle?.blockNumber ?? hubPoolBlock;
+
+    const blockRanges = chainIds.map((chainId) => {
+      const startBlock = hubPoolClient.getNextBundleStartBlockNumber(chainIds, hubPoolBlock, chainId);
+      const endBlock = spokePoolClients[chainId]?.latestBlockSearched;
+      return enabledChainIds.includes(chainId) && isDefined(endBlock) && endBlock > startBlock
+        ? [startBlock, endBlock]
+        : [startBlock, startBlock];
+    });
+
+    const bundleData = await this.loadData(blockRanges, chainIds);
+    const noFlows: Omit<LoadDataReturnValue, "invalidFills"> = {
+      bundleDepositsV3: {},
+      bundleFillsV3: {},
+      bundleSlowFillsV3: {},
+      unexecutableSlowFills: {},
+      expiredDepositsToRefundV3: {},
+    };
+    const flowsFor = (data: Partial<typeof noFlows>): RunningBalances =>
+      getBundleRunningBalances({ ...noFlows, ...data }, hubPoolBlock, hubPoolClient).runningBalances;
+
+    const deposits = flowsFor({ bundleDepositsV3: bundleData.bundleDepositsV3 });
+    const refunds = flowsFor({ bundleFillsV3: bundleData.bundleFillsV3 });
+    const slowFills = flowsFor({
+      bundleSlowFillsV3: bundleData.bundleSlowFillsV3,
+      unexecutableSlowFills: bundleData.unexecutableSlowFills,
+    });
+    const expiredDeposits = flowsFor({ expiredDepositsToRefundV3: bundleData.expiredDepositsToRefundV3 });
+
+    const tokensBridged: RunningBalances = {};
+    chainIds.forEach((chainId) => {
+      const [startBlock, endBlock] = getBlockRangeForChain(blockRanges, chainId, chainIds);
+      if (this.isChainDisabled([startBlock, endBlock])) {
+        return;
+      }
+
+      spokePoolClients[chainId]
+        .getTokensBridged()
+        .filter(({ blockNumber }) => blockNumber >= startBlock && blockNumber <= endBlock)
+        .forEach(({ l2TokenAddress, amountToReturn }) => {
+          const l1Token = hubPoolClient.getL1TokenForL2TokenAtBlock(l2TokenAddress, chainId, hubPoolBlock);
+          updateRunningBalance(tokensBridged, chainId, l1Token, amountToReturn);
+        });
+    });
+
+    const l1Tokens = hubPoolClient.getL1Tokens().map(({ address }) => address);
+    return chainIds.flatMap((chainId) => {
+      const blockRange = getBlockRangeForChain(blockRanges, chainId, chainIds);
+      return l1Tokens
+        .filter((l1Token) => hubPoolClient.l2TokenEnabledForL1Token(l1Token, chainId))
+        .map((l1Token) => {
+          const flowFor = (runningBalances: RunningBalances) => runningBalances[chainId]?.[l1Token] ?? bnZero;
+          const flows = {
+            deposits: flowFor(deposits),
+            refunds: flowFor(refunds),
+            slowFills: flowFor(slowFills),
+            expiredDeposits: flowFor(expiredDeposits),
+            tokensBridged: flowFor(tokensBridged),
+          };
+
+          const { runningBalance: lastExecutedRunningBalance } = hubPoolClient.getRunningBalanceBeforeBlockForChain(
+            runningBalanceBlock,
+            chainId,
+            l1Token
+          );
+          const projectedRunningBalance = lastExecutedRunningBalance
+            .add(flows.deposits)
+            .add(flows.refunds)
+            .add(flows.slowFills)
+            .add(flows.expiredDeposits)
+            .add(flows.tokensBridged);
+          const spokeTargetBalance = configStoreClient.getSpokeTargetBalancesForBlock(l1Token, chainId, hubPoolBlock);
+
+          return {
+            chainId,
+            l1Token,
+            blockRange,
+            lastExecutedRunningBalance,
+            flows,
+            projectedRunningBalance,
+            spokeTargetBalance,
+            projectedNetSendAmount: getNetSendAmountForL1Token(spokeTargetBalance, projectedRunningBalance),
+          };
+        });
+    });
+  }
+
+  /**
+   * Follow a deposit from the origin chain through to the repayment of its relayer.
+   * @param originChainId The origin chain of the deposit.
+   * @param depositId The ID of the deposit.
+   * @returns The deposit timeline, or undefined if the deposit cannot be found.
+   * @throws If the SpokePoolClient for the origin chain is missing.
+   */
+  async getDepositLifecycle(originChainId: number, depositId: number): Promise<DepositLifecycle | undefined> {
+    const { hubPoolClient, configStoreClient, spokePoolClients } = this;
+    const originClient = spokePoolClients[originChainId];
+    if (!isDefined(originClient)) {
+      throw new Error(`Missing SpokePoolClient for chain ${originChainId}`);
+    }
+
+    // Fall back to searching for the deposit via any known fill if it precedes the origin SpokePoolClient lookback.
+    let deposit = originClient.getDeposit(depositId);
+    if (!isDefined(deposit)) {
+      const fill = Object.values(spokePoolClients)
+        .flatMap((spokePoolClient) => spokePoolClient.getFillsForOriginChain(originChainId))
+        .find((fill) => fill.depositId === depositId);
+      deposit = isDefined(fill) ? await this.findDeposit(originClient, fill) : undefined;
+    }
+    if (!isDefined(deposit)) {
+      return undefined;
+    }
+
+    const destinationClient = spokePoolClients[deposit.destinationChainId];
+    const enabledChainIds = configStoreClient.getEnabledChains();
+    const fills: DepositLifecycleFill[] = [];
+    for (const fill of destinationClient?.getFillsForDeposit(deposit) ?? []) {
+      const { fillType } = fill.relayExecutionInfo;
+      const rootBundle = this.getRootBundleContainingBlock(fill.destinationChainId, fill.blockNumber);
+      const rootBundleExecuted =
+        isDefined(rootBundle) && hubPoolClient.isRootBundleValid(rootBundle, hubPoolClient.latestBlockSearched);
+
+      // Slow fills are funded by the HubPool, so there is no relayer to refund.
+      if (fillType === FillType.SlowFill) {
+        fills.push({ fill, fillType, rootBundle, rootBundleExecuted });
+        continue;
+      }
+
+      const repaymentChainId = this.getRepaymentChainId(fill, deposit, enabledChainIds);
+      const repaymentToken = hubPoolClient.getL2TokenForDeposit(deposit, repaymentChainId);
+      const refundLeaf = rootBundleExecuted
+        ? this.getExecutedRefundLeaf(rootBundle, repaymentChainId, repaymentToken, fill.relayer)
+        : undefined;
+      fills.push({ fill, fillType, repaymentChainId, rootBundle, rootBundleExecuted, refundLeaf });
+    }
+
+    return {
+      deposit: originClient.appendMaxSpeedUpSignatureToDeposit(deposit),
+      speedUps: originClient.getSpeedUpsForDeposit(deposit),
+      slowFillRequest: destinationClient?.getSlowFillRequest(deposit),
+      fills,
+    };
+  }
+
+  /**
+   * List the deposits that expired unfilled within a proposed root bundle, and whether their refunds have been paid.
+   * @param rootBundle The proposed root bundle.
+   * @returns The expired deposits owed a refund on their origin chains.
+   */
+  getExpiredDepositRefundsForRootBundle(rootBundle: ProposedRootBundle): Promise<ExpiredDepositRefund[]> {
+    const blockRanges = getImpliedBundleBlockRanges(this.hubPoolClient, this.configStoreClient, rootBundle);
+    const chainIds = this.configStoreClient.getChainIdIndicesForBlock(rootBundle.blockNumber);
+    return this.getExpiredDepositRefunds(blockRanges, chainIds);
+  }
+
+  /**
+   * List the deposits that expired unfilled within a set of bundle block ranges. Expired deposits are refunded to the
+   * depositor on the origin chain by the root bundle that covers the block ranges. If that root bundle has been
+   * executed, each refund is matched against the ExecutedRelayerRefundRoot events on the origin chain.
+   * @param blockRangesForChains Inclusive [startBlock, endBlock] ranges, ordered by `chainIds`.
+   * @param chainIds The chain ID indices for the bundle. Defaults to the latest indices in the ConfigStore.
+   * @returns The expired deposits owed a refund on their origin chains.
+   * @throws If a SpokePoolClient is missing or not updated for a chain that is enabled in the bundle.
+   */
+  async getExpiredDepositRefunds(
+    blockRangesForChains: number[][],
+    chainIds = this.configStoreClient.getChainIdIndicesForBlock()
+  ): Promise<ExpiredDepositRefund[]> {
+    const { hubPoolClient } = this;
+    const enabledChainIds = this.getEnabledChainIds(blockRangesForChains, chainIds);
+    const bundleBlockTimestamps = await this.getBundleBlockTimestamps(enabledChainIds, blockRangesForChains, chainIds);
+    const expiredDeposits = await this.findExpiredDeposits(
+      blockRangesForChains,
+      chainIds,
+      enabledChainIds,
+      bundleBlockTimestamps
+    );
+
+    // The refunds are paid by the root bundle whose end blocks match the bundle block ranges. Disputed proposals are
+    // never executed, so the latest validated or pending proposal takes precedence over any that it replaced.
+    const rootBundles = hubPoolClient.getProposedRootBundles();
+    const pendingRootBundle = hubPoolClient.hasPendingProposal() ? rootBundles.at(-1) : undefined;
+    const rootBundle = findLast(
+      rootBundles,
+      (rootBundle) =>
+        (rootBundle === pendingRootBundle ||
+          hubPoolClient.isRootBundleValid(rootBundle, hubPoolClient.latestBlockSearched)) &&
+        blockRangesForChains.every(([, endBlock], idx) => rootBundle.bundleEvaluationBlockNumbers[idx]?.eq(endBlock))
+    );
+    const rootBundleExecuted =
+      isDefined(rootBundle) && hubPoolClient.isRootBundleValid(rootBundle, hubPoolClient.latestBlockSearched);
+
+    return expiredDeposits.map(({ deposit }) => {
+      const refundLeaf = rootBundleExecuted
+        ? this.getExecutedRefundLeaf(rootBundle, deposit.originChainId, deposit.inputToken, deposit.depositor)
+        : undefined;
+      return { deposit, rootBundle, rootBundleExecuted, refundLeaf, refunded: isDefined(refundLeaf) };
+    });
+  }
+
+  /**
+   * Find the validated or pending root bundle whose block range for a chain covers a block.
+   * @param chainId The chain of the block.
+   * @param blockNumber The block to search for.
+   * @returns The root bundle, or undefined if no bundle covering the block has been proposed.
+   */
+  protected getRootBundleContainingBlock(chainId: number, blockNumber: number): ProposedRootBundle | undefined {
+    const { hubPoolClient, configStoreClient } = this;
+    const rootBundles = hubPoolClient.getProposedRootBundles();
+    const pendingRootBundle = hubPoolClient.hasPendingProposal() ? rootBundles.at(-1) : undefined;
+
+    // Search from newest to oldest, stopping once bundle end blocks precede the target block.
+    for (const rootBundle of [...rootBundles].reverse()) {
+      if (
+        rootBundle !== pendingRootBundle &&
+        !hubPoolClient.isRootBundleValid(rootBundle, hubPoolClient.latestBlockSearched)
+      ) {
+        continue;
+      }
+
+      const chainIds = configStoreClient.getChainIdIndicesForBlock(rootBundle.blockNumber);
+      if (!chainIds.includes(chainId)) {
+        break;
+      }
+
+      const endBlock = rootBundle.bundleEvaluationBlockNumbers[chainIds.indexOf(chainId)];
+      if (isDefined(endBlock) && endBlock.lt(blockNumber)) {
+        break;
+      }
+
+      // Only bundles that may contain the block are resolved. A bundle whose block ranges cannot be resolved does not
+      // prevent older bundles from being searched.
+      let startBlock: number;
+      try {
+        const blockRanges = getImpliedBundleBlockRanges(hubPoolClient, configStoreClient, rootBundle);
+        [startBlock] = getBlockRangeForChain(blockRanges, chainId, chainIds);
+      } catch (err) {
+        this.logger.debug({
+          at: "BundleDataClient#getRootBundleContainingBlock",
+          message: `Unable to resolve block ranges for root bundle proposed at HubPool block ${rootBundle.blockNumber}.`,
+          reason: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+      if (startBlock <= blockNumber) {
+        return rootBundle;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the executed relayer refund leaf of a root bundle that paid a refund recipient.
+   * @param rootBundle The executed root bundle that includes the refund.
+   * @param chainId The chain on which the refund is paid.
+   * @param l2Token The token in which the refund is paid.
+   * @param recipient The refund recipient.
+   * @returns The executed relayer refund leaf, or undefined if it has not been executed.
+   */
+  protected getExecutedRefundLeaf(
+    rootBundle: ProposedRootBundle,
+    chainId: number,
+    l2Token: string,
+    recipient: string
+  ): RelayerRefundExecutionWithBlock | undefined {
+    const spokePoolClient = this.spokePoolClients[chainId];
+    const rootBundleRelay = spokePoolClient
+      ?.getRootBundleRelays()
+      .find(({ relayerRefundRoot }) => relayerRefundRoot === rootBundle.relayerRefundRoot);
+    if (!isDefined(rootBundleRelay)) {
+      return undefined;
+    }
+
+    return spokePoolClient
+      .getRelayerRefundExecutions()
+      .find(
+        ({ rootBundleId, l2TokenAddress, refundAddresses }) =>
+          rootBundleId === rootBundleRelay.rootBundleId &&
+          compareAddresses(l2TokenAddress, l2Token) === 0 &&
+          refundAddresses.some((refundAddress) => compareAddresses(refundAddress, recipient) === 0)
+      );
+  }
+
+  /**
+   * Resolve the chain on which a fill is refunded.
+   * @param fill The fill to resolve the repayment chain for.
+   * @param deposit The deposit matching `fill`.
+   * @param enabledChainIds The chains that are enabled in the bundle.
+   * @returns The repayment chain ID.
+   */
+  protected getRepaymentChainId(fill: FillWithBlock, deposit: DepositWithBlock, enabledChainIds: number[]): number {
+    // Fills of deposits originating from lite chains are always refunded on the origin chain.
+    if (deposit.fromLiteChain) {
+      return deposit.originChainId;
+    }
+
+    // Fills requesting repayment on an unknown chain are refunded on the destination chain.
+    return enabledChainIds.includes(fill.repaymentChainId) ? fill.repaymentChainId : fill.destinationChainId;
+  }
+
+  /**
+   * Slow fills are only produced for deposits where the input and output tokens are equivalent, and where the deposit
+   * does not originate from a lite chain.
+   * @param deposit The deposit to evaluate.
+   * @param hubPoolBlock The HubPool block at which to resolve token equivalence.
+   * @returns True if a slow fill leaf can be produced for the deposit.
+   */
+  protected canCreateSlowFillLeaf(deposit: DepositWithBlock, hubPoolBlock: number): boolean {
+    const { inputToken, originChainId, outputToken, destinationChainId, fromLiteChain } = deposit;
+    return (
+      !fromLiteChain &&
+      this.hubPoolClient.areTokensEquivalent(inputToken, originChainId, outputToken, destinationChainId, hubPoolBlock)
+    );
+  }
+
+  /**
+   * Determine whether a slow fill leaf was produced for a deposit in an earlier bundle. This requires that the slow
+   * fill was requested before the start of the current bundle, that the deposit was eligible for a slow fill and that
+   * it had not expired by the end of the earlier bundle. Requests that precede the SpokePoolClient lookback are
+   * assumed to have been included in an earlier bundle.
+   * @param deposit The deposit to evaluate.
+   * @param hubPoolBlock The HubPool block at which to resolve token equivalence.
+   * @param startBlock The first block of the current bundle on the destination chain.
+   * @param startTime The SpokePool timestamp at the start of the current bundle on the destination chain.
+   * @returns True if a slow fill leaf was produced for the deposit in an earlier bundle.
+   */
+  protected isSlowFillLeafInPriorBundle(
+    deposit: DepositWithBlock,
+    hubPoolBlock: number,
+    startBlock: number,
+    startTime: number
+  ): boolean {
+    const slowFillRequest = this.spokePoolClients[deposit.destinationChainId].getSlowFillRequest(deposit);
+    return (
+      (!isDefined(slowFillRequest) || slowFillRequest.blockNumber < startBlock) &&
+      deposit.fillDeadline >= startTime &&
+      this.canCreateSlowFillLeaf(deposit, hubPoolBlock)
+    );
+  }
+
+  /**
+   * Resolve the deposit for a fill or slow fill request, searching beyond the SpokePoolClient lookback if necessary.
+   * @param originClient The SpokePoolClient for the origin chain.
+   * @param relayData The fill or slow fill request.
+   * @returns The matching deposit, or undefined if no valid deposit exists.
+   */
+  protected async findDeposit(
+    originClient: SpokePoolClient,
+    relayData: FillWithBlock | SlowFillRequestWithBlock
+  ): Promise<DepositWithBlock | undefined> {
+    const result = await queryHistoricalDepositForFill(originClient, relayData);
+    if (!result.found) {
+      this.logger.debug({
+        at: "BundleDataClient#findDeposit",
+        message: `Unable to find deposit for ${relayData.originChainId} deposit ${relayData.depositId}.`,
+        reason: result.reason,
+        transactionHash: relayData.transactionHash,
+      });
+      return undefined;
+    }
+
+    return result.deposit;
+  }
+
+  /**
+   * Determine whether the deposit referenced by a slow fill request was filled at or before a given block.
+   * @param destinationClient The SpokePoolClient for the destination chain.
+   * @param slowFillRequest The slow fill request to evaluate.
+   * @param blockNumber The destination chain block to evaluate at.
+   * @returns True if a matching fill exists at or before `blockNumber`.
+   */
+  protected isFilledBeforeBlock(
+    destinationClient: SpokePoolClient,
+    slowFillRequest: SlowFillRequestWithBlock,
+    blockNumber: number
+  ): boolean {
+    const relayDataHash = getRelayDataHash(slowFillRequest, slowFillRequest.destinationChainId);
+    return destinationClient
+      .getFillsForOriginChain(slowFillRequest.originChainId)
+      .some(
+        (fill) => fill.blockNumber <= blockNumber && getRelayDataHash(fill, fill.destinationChainId) === relayDataHash
+      );
+  }
+
+  /**
+   * Resolve the chains that are enabled within a set of bundle block ranges.
+   * @param blockRangesForChains Inclusive [startBlock, endBlock] ranges, ordered by `chainIds`.
+   * @param chainIds The chain ID indices for the bundle.
+   * @returns The enabled chain IDs.
+   * @throws If a SpokePoolClient is missing or not updated for an enabled chain.
+   */
+  protected getEnabledChainIds(blockRangesForChains: number[][], chainIds: number[]): number[] {
+    const enabledChainIds = chainIds.filter(
+      (chainId) => !this.isChainDisabled(getBlockRangeForChain(blockRangesForChains, chainId, chainIds))
+    );
+
+    const missingChainIds = enabledChainIds.filter((chainId) => !this.spokePoolClients[chainId]?.isUpdated);
+    if (missingChainIds.length > 0) {
+      throw new Error(`Missing or outdated SpokePoolClients for chains ${missingChainIds.join(", ")}`);
+    }
+
+    return enabledChainIds;
+  }
+
+  /**
+   * Find the deposits that expired unfilled within a set of bundle block ranges.
+   * @param blockRangesForChains Inclusive [startBlock, endBlock] ranges, ordered by `chainIds`.
+   * @param chainIds The chain ID indices for the bundle.
+   * @param enabledChainIds The chains that are enabled in the bundle.
+   * @param bundleBlockTimestamps The SpokePool timestamps at the start and end of each enabled chain's range.
+   * @returns The expired deposits, along with their fill status at the end of the destination chain block range.
+   */
+  protected async findExpiredDeposits(
+    blockRangesForChains: number[][],
+    chainIds: number[],
+    enabledChainIds: number[],
+    bundleBlockTimestamps: BundleBlockTimestamps
+  ): Promise<{ deposit: DepositWithBlock; fillStatus: FillStatus }[]> {
+    const { spokePoolClients } = this;
+    const blockRangeForChain = (chainId: number) => getBlockRangeForChain(blockRangesForChains, chainId, chainIds);
+
+    // Deposits expire in the bundle whose destination chain block range spans their fillDeadline. Newly-made deposits
+    // that are already expired are refunded in the bundle that includes them.
+    const expiryCandidates = enabledChainIds.map((destinationChainId) => {
+      const [startTime, endTime] = bundleBlockTimestamps[destinationChainId];
+      const deposits = enabledChainIds
+        .map((originChainId) => {
+          const [startBlock, endBlock] = blockRangeForChain(originChainId);
+          return spokePoolClients[originChainId]
+            .getDepositsForDestinationChain(destinationChainId)
+            .filter(({ blockNumber, fillDeadline }) => {
+              if (blockNumber > endBlock || fillDeadline >= endTime) {
+                return false;
+              }
+              return blockNumber >= startBlock || fillDeadline >= startTime;
+            });
+        })
+        .flat();
+      return { destinationChainId, deposits };
+    });
+
+    const expiredDeposits = await mapAsync(expiryCandidates, async ({ destinationChainId, deposits }) => {
+      if (deposits.length === 0) {
+        return [];
+      }
+
+      const [, endBlock] = blockRangeForChain(destinationChainId);
+      const fillStatuses = await fillStatusArray(spokePoolClients[destinationChainId].spokePool, deposits, endBlock);
+      return deposits.flatMap((deposit, idx) => {
+        const fillStatus = fillStatuses[idx];
+        return isDefined(fillStatus) && fillStatus !== FillStatus.Filled ? [{ deposit, fillStatus }] : [];
+      });
+    });
+
+    return expiredDeposits.flat();
+  }
+
+  /**
+   * Resolve the SpokePool timestamps at the start and end of each chain's bundle block range.
+   * @returns A mapping of chainId to [startTime, endTime].
+   */
+  protected async getBundleBlockTimestamps(
+    enabledChainIds: number[],
+    blockRangesForChains: number[][],
+    chainIds: number[]
+  ): Promise<BundleBlockTimestamps> {
+    const timestamps = await mapAsync(enabledChainIds, async (chainId): Promise<[number, [number, number]]> => {
+      const { spokePool } = this.spokePoolClients[chainId];
+      const [startBlock, endBlock] = getBlockRangeForChain(blockRangesForChains, chainId, chainIds);
+      const [startTime, endTime] = await Promise.all([
+        spokePool.getCurrentTime({ blockTag: startBlock }),
+        spokePool.getCurrentTime({ blockTag: endBlock }),
+      ]);
+      return [chainId, [Number(startTime), Number(endTime)]];
+    });
+
+    return Object.fromEntries(timestamps);
+  }
+
+  protected isChainDisabled(blockRange: number[]): boolean {
+    return blockRange[0] === blockRange[1];
+  }
+
+  protected countEntries(entries: { [chainId: number]: { [token: string]: unknown[] } }): number {
+    return Object.values(entries)
+      .map((entriesForChain) => Object.values(entriesForChain).flat().length)
+      .reduce((sum, count) => sum + count, 0);
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./BundleDataClient";
+export * from "./utils";
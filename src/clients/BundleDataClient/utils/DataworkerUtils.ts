@@ -0,0 +1,297 @@
+import { BigNumber } from "ethers";
+import {
+  CombinedRefunds,
+  LoadDataReturnValue,
+  PoolRebalanceLeaf,
+  Refund,
+  RelayerRefundLeaf,
+  RelayerRefundLeafWithGroup,
+  RunningBalances,
+  SlowFillLeaf,
+} from "../../../interfaces";
+import { bnZero, compareAddresses, fixedPointAdjustment } from "../../../utils";
+import { AcrossConfigStoreClient } from "../../AcrossConfigStoreClient";
+import { HubPoolClient } from "../../HubPoolClient";
+import { addLastRunningBalance, constructPoolRebalanceLeaves, updateRunningBalance } from "./PoolRebalanceUtils";
+
+type BundleData = Omit<LoadDataReturnValue, "invalidFills">;
+
+/**
+ * Aggregate all refunds owed by a bundle, keyed by repayment chain, repayment token and recipient.
+ * Relayers are refunded for their fills and depositors are refunded for expired deposits on the origin chain.
+ * @param bundleData Bundle data, as returned by BundleDataClient.loadData().
+ * @returns The combined refunds for the bundle.
+ */
+export function getRefundsFromBundle(
+  bundleData: Pick<LoadDataReturnValue, "bundleFillsV3" | "expiredDepositsToRefundV3">
+): CombinedRefunds {
+  const combinedRefunds: CombinedRefunds = {};
+  const addRefund = (chainId: number, token: string, recipient: string, amount: BigNumber): void => {
+    combinedRefunds[chainId] ??= {};
+    combinedRefunds[chainId][token] ??= {};
+    const refunds = combinedRefunds[chainId][token];
+    refunds[recipient] = (refunds[recipient] ?? bnZero).add(amount);
+  };
+
+  Object.entries(bundleData.bundleFillsV3).forEach(([repaymentChainId, fillsForChain]) => {
+    Object.entries(fillsForChain).forEach(([repaymentToken, { refunds }]) => {
+      Object.entries(refunds).forEach(([relayer, amount]) =>
+        addRefund(Number(repaymentChainId), repaymentToken, relayer, amount)
+      );
+    });
+  });
+
+  Object.values(bundleData.expiredDepositsToRefundV3).forEach((depositsForChain) => {
+    Object.values(depositsForChain)
+      .flat()
+      .forEach(({ originChainId, inputToken, depositor, inputAmount }) =>
+        addRefund(originChainId, inputToken, depositor, inputAmount)
+      );
+  });
+
+  return combinedRefunds;
+}
+
+/**
+ * Sort refund recipients by descending refund amount, breaking ties by address.
+ * @param refunds Refunds to sort.
+ * @returns The sorted refund addresses.
+ */
+export function sortRefundAddresses(refunds: Refund): string[] {
+  return Object.keys(refunds).sort((addressA, addressB) => {
+    if (refunds[addressA].gt(refunds[addressB])) {
+      return -1;
+    }
+    if (refunds[addressA].lt(refunds[addressB])) {
+      return 1;
+    }
+    return compareAddresses(addressA, addressB);
+  });
+}
+
+/**
+ * Compute the amount paid out by a slow fill. The LP fee is rounded up, such that the slow fill never pays out more
+ * than the deposit less its LP fee.
+ * @param inputAmount The deposit input amount.
+ * @param lpFeePct The realized LP fee percentage of the deposit.
+ * @returns The updated output amount of the slow fill.
+ */
+function getSlowFillOutputAmount(inputAmount: BigNumber, lpFeePct: BigNumber): BigNumber {
+  return inputAmount.mul(fixedPointAdjustment.sub(lpFeePct)).div(fixedPointAdjustment);
+}
+
+/**
+ * Compute the running balances and realized LP fees implied by a bundle, excluding any carried-over balance.
+ * @param bundleData Bundle data, as returned by BundleDataClient.loadData().
+ * @param latestMainnetBlock HubPool block at which to resolve token mappings.
+ * @param hubPoolClient HubPoolClient instance.
+ * @returns The running balances and realized LP fees for each chain and L1 token.
+ */
+export function getBundleRunningBalances(
+  bundleData: BundleData,
+  latestMainnetBlock: number,
+  hubPoolClient: HubPoolClient
+): { runningBalances: RunningBalances; realizedLpFees: RunningBalances } {
+  const runningBalances: RunningBalances = {};
+  const realizedLpFees: RunningBalances = {};
+  const l1TokenFor = (l2Token: string, chainId: number) =>
+    hubPoolClient.getL1TokenForL2TokenAtBlock(l2Token, chainId, latestMainnetBlock);
+
+  // Refunds for fills increase the amount owed to the repayment chain.
+  Object.entries(bundleData.bundleFillsV3).forEach(([_repaymentChainId, fillsForChain]) => {
+    const repaymentChainId = Number(_repaymentChainId);
+    Object.entries(fillsForChain).forEach(([repaymentToken, fills]) => {
+      const l1Token = l1TokenFor(repaymentToken, repaymentChainId);
+      updateRunningBalance(runningBalances, repaymentChainId, l1Token, fills.totalRefundAmount);
+      updateRunningBalance(realizedLpFees, repaymentChainId, l1Token, fills.realizedLpFees);
+    });
+  });
+
+  // Slow fills pay out the deposit input amount, less LP fees, on the destination chain. The amounts match the
+  // updatedOutputAmount of each SlowFillLeaf.
+  Object.entries(bundleData.bundleSlowFillsV3).forEach(([_destinationChainId, depositsForChain]) => {
+    const destinationChainId = Number(_destinationChainId);
+    Object.entries(depositsForChain).forEach(([outputToken, deposits]) => {
+      const l1Token = l1TokenFor(outputToken, destinationChainId);
+      deposits.forEach(({ inputAmount, lpFeePct }) => {
+        const outputAmount = getSlowFillOutputAmount(inputAmount, lpFeePct);
+        updateRunningBalance(runningBalances, destinationChainId, l1Token, outputAmount);
+        updateRunningBalance(realizedLpFees, destinationChainId, l1Token, inputAmount.sub(outputAmount));
+      });
+    });
+  });
+
+  // Slow fills that were funded in an earlier bundle but can no longer be executed are returned.
+  Object.entries(bundleData.unexecutableSlowFills).forEach(([_destinationChainId, depositsForChain]) => {
+    const destinationChainId = Number(_destinationChainId);
+    Object.entries(depositsForChain).forEach(([outputToken, deposits]) => {
+      const l1Token = l1TokenFor(outputToken, destinationChainId);
+      deposits.forEach(({ inputAmount, lpFeePct }) => {
+        const outputAmount = getSlowFillOutputAmount(inputAmount, lpFeePct);
+        updateRunningBalance(runningBalances, destinationChainId, l1Token, outputAmount.mul(-1));
+        updateRunningBalance(realizedLpFees, destinationChainId, l1Token, inputAmount.sub(outputAmount).mul(-1));
+      });
+    });
+  });
+
+  // Deposits leave funds on the origin chain that are owed back to the HubPool.
+  Object.entries(bundleData.bundleDepositsV3).forEach(([_originChainId, depositsForChain]) => {
+    const originChainId = Number(_originChainId);
+    Object.entries(depositsForChain).forEach(([inputToken, deposits]) => {
+      const l1Token = l1TokenFor(inputToken, originChainId);
+      deposits.forEach(({ inputAmount }) => {
+        updateRunningBalance(runningBalances, originChainId, l1Token, inputAmount.mul(-1));
+      });
+    });
+  });
+
+  // Expired deposits are refunded to the depositor on the origin chain.
+  Object.entries(bundleData.expiredDepositsToRefundV3).forEach(([_originChainId, depositsForChain]) => {
+    const originChainId = Number(_originChainId);
+    Object.entries(depositsForChain).forEach(([inputToken, deposits]) => {
+      const l1Token = l1TokenFor(inputToken, originChainId);
+      deposits.forEach(({ inputAmount }) => {
+        updateRunningBalance(runningBalances, originChainId, l1Token, inputAmount);
+      });
+    });
+  });
+
+  return { runningBalances, realizedLpFees };
+}
+
+/**
+ * Build the PoolRebalanceLeaves for a bundle.
+ * @param bundleData Bundle data, as returned by BundleDataClient.loadData().
+ * @param latestMainnetBlock The HubPool end block of the bundle.
+ * @param hubPoolClient HubPoolClient instance.
+ * @param configStoreClient AcrossConfigStoreClient instance.
+ * @returns The PoolRebalanceLeaves, along with the final running balances and realized LP fees.
+ */
+export function buildPoolRebalanceLeaves(
+  bundleData: BundleData,
+  latestMainnetBlock: number,
+  hubPoolClient: HubPoolClient,
+  configStoreClient: AcrossConfigStoreClient = hubPoolClient.configStoreClient
+): { leaves: PoolRebalanceLeaf[]; runningBalances: RunningBalances; realizedLpFees: RunningBalances } {
+  const { runningBalances, realizedLpFees } = getBundleRunningBalances(bundleData, latestMainnetBlock, hubPoolClient);
+  addLastRunningBalance(latestMainnetBlock, runningBalances, hubPoolClient);
+
+  const leaves = constructPoolRebalanceLeaves(latestMainnetBlock, runningBalances, realizedLpFees, configStoreClient);
+  return { leaves, runningBalances, realizedLpFees };
+}
+
+/**
+ * Build the RelayerRefundLeaves for a bundle. Refunds are split across leaves according to the max refund count
+ * configured in the ConfigStore, and each negative net send amount in the PoolRebalanceLeaves becomes an
+ * amountToReturn on the corresponding chain.
+ * @param bundleData Bundle data, as returned by BundleDataClient.loadData().
+ * @param poolRebalanceLeaves The PoolRebalanceLeaves for the same bundle.
+ * @param latestMainnetBlock The HubPool end block of the bundle.
+ * @param hubPoolClient HubPoolClient instance.
+ * @param configStoreClient AcrossConfigStoreClient instance.
+ * @returns The RelayerRefundLeaves, ordered by chain ID, L2 token and group.
+ */
+export function buildRelayerRefundLeaves(
+  bundleData: Pick<LoadDataReturnValue, "bundleFillsV3" | "expiredDepositsToRefundV3">,
+  poolRebalanceLeaves: PoolRebalanceLeaf[],
+  latestMainnetBlock: number,
+  hubPoolClient: HubPoolClient,
+  configStoreClient: AcrossConfigStoreClient = hubPoolClient.configStoreClient
+): RelayerRefundLeaf[] {
+  const maxRefundCount = configStoreClient.getMaxRefundCountForRelayerRefundLeafForBlock(latestMainnetBlock);
+  const leaves: RelayerRefundLeafWithGroup[] = [];
+
+  const combinedRefunds = getRefundsFromBundle(bundleData);
+  Object.entries(combinedRefunds).forEach(([_repaymentChainId, refundsForChain]) => {
+    const chainId = Number(_repaymentChainId);
+    Object.entries(refundsForChain).forEach(([l2TokenAddress, refunds]) => {
+      const refundAddresses = sortRefundAddresses(refunds);
+      for (let i = 0, groupIndex = 0; i < refundAddresses.length; i += maxRefundCount, ++groupIndex) {
+        const leafAddresses = refundAddresses.slice(i, i + maxRefundCount);
+        leaves.push({
+          groupIndex,
+          amountToReturn: bnZero,
+          chainId,
+          refundAmounts: leafAddresses.map((address) => refunds[address]),
+          leafId: 0,
+          l2TokenAddress,
+          refundAddresses: leafAddresses,
+        });
+      }
+    });
+  });
+
+  // Tokens to be returned to the HubPool are attached to the first leaf for each chain and L2 token.
+  poolRebalanceLeaves.forEach(({ chainId, l1Tokens, netSendAmounts }) => {
+    netSendAmounts.forEach((netSendAmount, idx) => {
+      if (netSendAmount.gte(bnZero)) {
+        return;
+      }
+
+      const l2TokenAddress = hubPoolClient.getL2TokenForL1TokenAtBlock(l1Tokens[idx], chainId, latestMainnetBlock);
+      const leaf = leaves.find(
+        (leaf) => leaf.chainId === chainId && leaf.l2TokenAddress === l2TokenAddress && leaf.groupIndex === 0
+      );
+      if (leaf) {
+        leaf.amountToReturn = netSendAmount.mul(-1);
+      } else {
+        leaves.push({
+          groupIndex: 0,
+          amountToReturn: netSendAmount.mul(-1),
+          chainId,
+          refundAmounts: [],
+          leafId: 0,
+          l2TokenAddress,
+          refundAddresses: [],
+        });
+      }
+    });
+  });
+
+  return leaves
+    .sort((leafA, leafB) => {
+      if (leafA.chainId !== leafB.chainId) {
+        return leafA.chainId - leafB.chainId;
+      }
+      return compareAddresses(leafA.l2TokenAddress, leafB.l2TokenAddress) || leafA.groupIndex - leafB.groupIndex;
+    })
+    .map(({ groupIndex: _groupIndex, ...leaf }, leafId) => ({ ...leaf, leafId }));
+}
+
+/**
+ * Build the V3 SlowFillLeaves for a bundle, ordered by origin chain ID and deposit ID.
+ * @param bundleData Bundle data, as returned by BundleDataClient.loadData().
+ * @returns The SlowFillLeaves.
+ */
+export function buildSlowFillLeaves(bundleData: Pick<LoadDataReturnValue, "bundleSlowFillsV3">): SlowFillLeaf[] {
+  const leaves = Object.values(bundleData.bundleSlowFillsV3)
+    .map((depositsForChain) => Object.values(depositsForChain).flat())
+    .flat()
+    .map((deposit): SlowFillLeaf => {
+      const updatedOutputAmount = getSlowFillOutputAmount(deposit.inputAmount, deposit.lpFeePct);
+      return {
+        relayData: {
+          depositor: deposit.depositor,
+          recipient: deposit.recipient,
+          exclusiveRelayer: deposit.exclusiveRelayer,
+          inputToken: deposit.inputToken,
+          outputToken: deposit.outputToken,
+          inputAmount: deposit.inputAmount,
+          outputAmount: deposit.outputAmount,
+          originChainId: deposit.originChainId,
+          depositId: deposit.depositId,
+          fillDeadline: deposit.fillDeadline,
+          exclusivityDeadline: deposit.exclusivityDeadline,
+          message: deposit.message,
+        },
+        chainId: deposit.destinationChainId,
+        updatedOutputAmount,
+      };
+    });
+
+  return leaves.sort(({ relayData: relayDataA }, { relayData: relayDataB }) =>
+    relayDataA.originChainId !== relayDataB.originChainId
+      ? relayDataA.originChainId - relayDataB.originChainId
+      : relayDataA.depositId - relayDataB.depositId
+  );
+}
@@ -0,0 +1,61 @@
+import { Contract, PopulatedTransaction } from "ethers";
+import { PoolRebalanceLeaf, RelayerRefundLeaf, SlowFillLeaf } from "../../../interfaces";
+
+/**
+ * Populate a HubPool executeRootBundle() transaction for a PoolRebalanceLeaf of the pending root bundle.
+ * @param hubPool HubPool Contract instance.
+ * @param leaf PoolRebalanceLeaf to execute.
+ * @param proof Merkle proof of `leaf` against the pending poolRebalanceRoot.
+ * @returns An unsigned executeRootBundle() transaction.
+ */
+export function populateExecuteRootBundle(
+  hubPool: Contract,
+  leaf: PoolRebalanceLeaf,
+  proof: string[]
+): Promise<PopulatedTransaction> {
+  const { chainId, groupIndex, bundleLpFees, netSendAmounts, runningBalances, leafId, l1Tokens } = leaf;
+  return hubPool.populateTransaction.executeRootBundle(
+    chainId,
+    groupIndex,
+    bundleLpFees,
+    netSendAmounts,
+    runningBalances,
+    leafId,
+    l1Tokens,
+    proof
+  );
+}
+
+/**
+ * Populate a SpokePool executeRelayerRefundLeaf() transaction.
+ * @param spokePool SpokePool Contract instance on the chain of the leaf.
+ * @param rootBundleId The ID of the root bundle, as relayed to the SpokePool.
+ * @param leaf RelayerRefundLeaf to execute.
+ * @param proof Merkle proof of `leaf` against the relayed relayerRefundRoot.
+ * @returns An unsigned executeRelayerRefundLeaf() transaction.
+ */
+export function populateExecuteRelayerRefundLeaf(
+  spokePool: Contract,
+  rootBundleId: number,
+  leaf: RelayerRefundLeaf,
+  proof: string[]
+): Promise<PopulatedTransaction> {
+  return spokePool.populateTransaction.executeRelayerRefundLeaf(rootBundleId, leaf, proof);
+}
+
+/**
+ * Populate a SpokePool executeV3SlowRelayLeaf() transaction.
+ * @param spokePool SpokePool Contract instance on the chain of the leaf.
+ * @param rootBundleId The ID of the root bundle, as relayed to the SpokePool.
+ * @param leaf SlowFillLeaf to execute.
+ * @param proof Merkle proof of `leaf` against the relayed slowRelayRoot.
+ * @returns An unsigned executeV3SlowRelayLeaf() transaction.
+ */
+export function populateExecuteSlowRelayLeaf(
+  spokePool: Contract,
+  rootBundleId: number,
+  leaf: SlowFillLeaf,
+  proof: string[]
+): Promise<PopulatedTransaction> {
+  return spokePool.populateTransaction.executeV3SlowRelayLeaf(leaf, rootBundleId, proof);
+}
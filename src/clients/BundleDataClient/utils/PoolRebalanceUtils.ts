@@ -0,0 +1,149 @@
+import { BigNumber } from "ethers";
+import { PoolRebalanceLeaf, RunningBalances, SpokePoolTargetBalance } from "../../../interfaces";
+import { bnZero, compareAddresses } from "../../../utils";
+import { AcrossConfigStoreClient } from "../../AcrossConfigStoreClient";
+import { HubPoolClient } from "../../HubPoolClient";
+
+/**
+ * Add `amount` to the running balance for a chain and L1 token, initialising it if necessary.
+ * @param runningBalances Running balances to update in place.
+ * @param chainId Chain ID of the running balance.
+ * @param l1Token HubPool token of the running balance.
+ * @param amount Signed amount to add.
+ */
+export function updateRunningBalance(
+  runningBalances: RunningBalances,
+  chainId: number,
+  l1Token: string,
+  amount: BigNumber
+): void {
+  runningBalances[chainId] ??= {};
+  runningBalances[chainId][l1Token] = (runningBalances[chainId][l1Token] ?? bnZero).add(amount);
+}
+
+/**
+ * Add the running balance carried over from the latest executed root bundle to each running balance.
+ * @param latestMainnetBlock HubPool block at which to resolve the previous running balances.
+ * @param runningBalances Running balances to update in place.
+ * @param hubPoolClient HubPoolClient instance.
+ */
+export function addLastRunningBalance(
+  latestMainnetBlock: number,
+  runningBalances: RunningBalances,
+  hubPoolClient: HubPoolClient
+): void {
+  Object.entries(runningBalances).forEach(([_chainId, runningBalancesForChain]) => {
+    const chainId = Number(_chainId);
+    Object.keys(runningBalancesForChain).forEach((l1Token) => {
+      const { runningBalance } = hubPoolClient.getRunningBalanceBeforeBlockForChain(
+        latestMainnetBlock,
+        chainId,
+        l1Token
+      );
+      if (runningBalance.gt(bnZero) || runningBalance.lt(bnZero)) {
+        updateRunningBalance(runningBalances, chainId, l1Token, runningBalance);
+      }
+    });
+  });
+}
+
+/**
+ * Resolve the amount that the HubPool should send to (positive) or receive from (negative) a SpokePool.
+ * A positive running balance is always fully sent. A negative running balance is only returned to the HubPool once
+ * it exceeds the threshold, in which case the SpokePool is left holding the target balance.
+ * @param spokePoolTargetBalance Target and threshold for the chain and L1 token.
+ * @param runningBalance Running balance for the chain and L1 token.
+ * @returns The net send amount.
+ */
+export function getNetSendAmountForL1Token(
+  spokePoolTargetBalance: SpokePoolTargetBalance,
+  runningBalance: BigNumber
+): BigNumber {
+  const { target, threshold } = spokePoolTargetBalance;
+  if (runningBalance.gt(bnZero)) {
+    return runningBalance;
+  }
+  if (runningBalance.abs().gte(threshold)) {
+    return runningBalance.add(target);
+  }
+  return bnZero;
+}
+
+/**
+ * Resolve the running balance that remains after the net send amount has been applied.
+ * @param spokePoolTargetBalance Target and threshold for the chain and L1 token.
+ * @param runningBalance Running balance for the chain and L1 token.
+ * @returns The running balance to include in the PoolRebalanceLeaf.
+ */
+export function getRunningBalanceForL1Token(
+  spokePoolTargetBalance: SpokePoolTargetBalance,
+  runningBalance: BigNumber
+): BigNumber {
+  const { target, threshold } = spokePoolTargetBalance;
+  if (runningBalance.gt(bnZero)) {
+    return bnZero;
+  }
+  if (runningBalance.abs().gte(threshold)) {
+    return target.mul(-1);
+  }
+  return runningBalance;
+}
+
+/**
+ * Build the PoolRebalanceLeaves for a set of running balances and realized LP fees. Leaves are ordered by chain ID and
+ * L1 token address. Each chain's L1 tokens are split across multiple leaves, with incrementing group indices, if they
+ * exceed the max L1 token count configured in the ConfigStore.
+ * @param latestMainnetBlock HubPool block at which to resolve ConfigStore settings.
+ * @param runningBalances Running balances, including the balance carried over from the previous bundle.
+ * @param realizedLpFees Realized LP fees.
+ * @param configStoreClient AcrossConfigStoreClient instance.
+ * @param maxL1TokenCount Optional override for the max number of L1 tokens per leaf.
+ * @returns An array of PoolRebalanceLeaves.
+ */
+export function constructPoolRebalanceLeaves(
+  latestMainnetBlock: number,
+  runningBalances: RunningBalances,
+  realizedLpFees: RunningBalances,
+  configStoreClient: AcrossConfigStoreClient,
+  maxL1TokenCount?: number
+): PoolRebalanceLeaf[] {
+  const maxL1TokensPerLeaf =
+    maxL1TokenCount ?? configStoreClient.getMaxL1TokenCountForPoolRebalanceLeafForBlock(latestMainnetBlock);
+  if (maxL1TokensPerLeaf < 1) {
+    throw new Error(`Invalid max L1 token count (${maxL1TokensPerLeaf})`);
+  }
+
+  const chainIds = Object.keys(runningBalances)
+    .map(Number)
+    .sort((chainA, chainB) => chainA - chainB);
+
+  const leaves: PoolRebalanceLeaf[] = [];
+  let leafId = 0;
+  chainIds.forEach((chainId) => {
+    const l1Tokens = Object.keys(runningBalances[chainId]).sort(compareAddresses);
+
+    let groupIndex = 0;
+    for (let i = 0; i < l1Tokens.length; i += maxL1TokensPerLeaf) {
+      const leafL1Tokens = l1Tokens.slice(i, i + maxL1TokensPerLeaf);
+      const spokeTargetBalances = leafL1Tokens.map((l1Token) =>
+        configStoreClient.getSpokeTargetBalancesForBlock(l1Token, chainId, latestMainnetBlock)
+      );
+
+      leaves.push({
+        chainId,
+        groupIndex: groupIndex++,
+        bundleLpFees: leafL1Tokens.map((l1Token) => realizedLpFees[chainId]?.[l1Token] ?? bnZero),
+        netSendAmounts: leafL1Tokens.map((l1Token, idx) =>
+          getNetSendAmountForL1Token(spokeTargetBalances[idx], runningBalances[chainId][l1Token])
+        ),
+        runningBalances: leafL1Tokens.map((l1Token, idx) =>
+          getRunningBalanceForL1Token(spokeTargetBalances[idx], runningBalances[chainId][l1Token])
+        ),
+        leafId: leafId++,
+        l1Tokens: leafL1Tokens,
+      });
+    }
+  });
+
+  return leaves;
+}
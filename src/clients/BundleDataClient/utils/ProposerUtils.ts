@@ -0,0 +1,26 @@
+import { Contract, PopulatedTransaction } from "ethers";
+import { RootBundleRoots } from "../../../interfaces";
+
+/**
+ * Populate a HubPool proposeRootBundle() transaction.
+ * @param hubPool HubPool Contract instance.
+ * @param bundleEvaluationBlockNumbers The bundle end block for each chain, ordered by the chain ID indices.
+ * @param poolRebalanceLeafCount The number of PoolRebalanceLeaves in the root bundle.
+ * @param roots The roots of the root bundle.
+ * @returns An unsigned proposeRootBundle() transaction.
+ */
+export function populateProposeRootBundle(
+  hubPool: Contract,
+  bundleEvaluationBlockNumbers: number[],
+  poolRebalanceLeafCount: number,
+  roots: RootBundleRoots
+): Promise<PopulatedTransaction> {
+  const { poolRebalanceRoot, relayerRefundRoot, slowRelayRoot } = roots;
+  return hubPool.populateTransaction.proposeRootBundle(
+    bundleEvaluationBlockNumbers,
+    poolRebalanceLeafCount,
+    poolRebalanceRoot,
+    relayerRefundRoot,
+    slowRelayRoot
+  );
+}
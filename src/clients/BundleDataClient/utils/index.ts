@@ -0,0 +1,4 @@
+export * from "./DataworkerUtils";
+export * from "./ExecutorUtils";
+export * from "./PoolRebalanceUtils";
+export * from "./ProposerUtils";
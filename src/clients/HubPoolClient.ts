@@ -10,6 +10,7 @@ import {
   Deposit,
   DepositWithBlock,
   DestinationTokenWithBlock,
+  EventStoreInterface,
   DisputedRootBundle,
   ExecutedRootBundle,
   L1Token,
@@ -18,6 +19,7 @@ import {
   ProposedRootBundle,
   RealizedLpFee,
   SetPoolRebalanceRoot,
+  SortableEvent,
   TokenRunningBalance,
 } from "../interfaces";
 import * as lpFeeCalculator from "../lpFeeCalculator";
@@ -34,7 +36,7 @@ import {
   getNetworkName,
   isDefined,
   mapAsync,
-  paginatedEventQuery,
+  registerViewSelectors,
   shouldCache,
   sortEventsDescending,
   spreadEvent,
@@ -74,6 +76,21 @@ export type LpFeeRequest = Pick<Deposit, "originChainId" | "inputToken" | "input
   paymentChainId?: number;
 };
 
+function toPendingBundleEvaluationBlockNumbers(rootBundle: ProposedRootBundle): number[] {
+  return rootBundle.bundleEvaluationBlockNumbers.map((block: BigNumber) => {
+    // Ideally, the HubPool.sol contract should limit the size of the elements within the
+    // bundleEvaluationBlockNumbers array. But because it doesn't, we wrap the cast of BN --> Number
+    // in a try/catch statement and return some value that would always be disputable.
+    // This catches the denial of service attack vector where a malicious proposer proposes with bundle block
+    // evaluation block numbers larger than what BigNumber::toNumber() can handle.
+    try {
+      return block.toNumber();
+    } catch {
+      return 0;
+    }
+  });
+}
+
 export class HubPoolClient extends BaseAbstractClient {
   // L1Token -> destinationChainId -> destinationToken
   protected l1TokensToDestinationTokens: L1TokensToDestinationTokens = {};
@@ -88,6 +105,8 @@ export class HubPoolClient extends BaseAbstractClient {
     [l1Token: string]: { [destinationChainId: number]: DestinationTokenWithBlock[] };
   } = {};
   protected pendingRootBundle: PendingRootBundle | undefined;
+  // L1Token -> HubPool block at which it was first enabled for liquidity provision.
+  protected l1TokensEnabledBlocks: { [l1Token: string]: number } = {};
 
   public currentTime: number | undefined;
   public readonly blockFinder: BlockFinder;
@@ -107,14 +126,16 @@ export class HubPoolClient extends BaseAbstractClient {
       ignoredHubExecutedBundles: [],
       ignoredHubProposedBundles: [],
     },
-    cachingMechanism?: CachingMechanismInterface
+    cachingMechanism?: CachingMechanismInterface,
+    eventStore?: EventStoreInterface
   ) {
-    super(eventSearchConfig, cachingMechanism);
+    super(eventSearchConfig, cachingMechanism, eventStore);
     this.latestBlockSearched = Math.min(deploymentBlock - 1, 0);
     this.firstBlockToSearch = eventSearchConfig.fromBlock;
 
     const provider = this.hubPool.provider;
     this.blockFinder = new BlockFinder(provider);
+    registerViewSelectors(this.hubPool.interface, ["getCurrentTime", "pooledTokens"]);
   }
 
   protected hubPoolEventFilters(): Record<HubPoolEvent, EventFilter> {
@@ -776,7 +797,9 @@ export class HubPoolClient extends BaseAbstractClient {
         multicallFunctions.map((f) => hubPool.interface.encodeFunctionData(f)),
         { blockTag: searchConfig.toBlock }
       ),
-      ...eventSearchConfigs.map((config) => paginatedEventQuery(hubPool, config.filter, config.searchConfig)),
+      ...eventSearchConfigs.map((config) =>
+        this.queryEvents(this.chainId, hubPool, config.eventName, config.filter, config.searchConfig)
+      ),
     ]);
 
     const [currentTime, pendingRootBundleProposal] = multicallFunctions.map((fn, idx) => {
@@ -800,9 +823,89 @@ export class HubPoolClient extends BaseAbstractClient {
     };
   }
 
+  /**
+   * Create a read-only view of the HubPool as of a block. All getters on the view, including those that default to
+   * the latest block, only reflect HubPool events emitted at or before `blockNumber`. The view's ConfigStoreClient is
+   * rewound to the same block.
+   * @param blockNumber The block to view the HubPool as of. Must not exceed the latest block searched.
+   * @returns A HubPoolClient instance that cannot be updated.
+   */
+  async asOf(blockNumber: number): Promise<this> {
+    const view = this.cloneAsOf(blockNumber);
+    const retain = (event: SortableEvent) => event.blockNumber <= blockNumber;
+
+    view.configStoreClient = await this.configStoreClient.asOf(blockNumber);
+    view.proposedRootBundles = this.proposedRootBundles.filter(retain);
+    view.canceledRootBundles = this.canceledRootBundles.filter(retain);
+    view.disputedRootBundles = this.disputedRootBundles.filter(retain);
+    view.executedRootBundles = this.executedRootBundles.filter(retain);
+
+    view.crossChainContracts = {};
+    Object.entries(this.crossChainContracts).forEach(([chainId, crossChainContracts]) => {
+      const retained = crossChainContracts.filter(retain);
+      if (retained.length > 0) {
+        view.crossChainContracts[Number(chainId)] = retained;
+      }
+    });
+
+    view.l1TokensToDestinationTokens = {};
+    view.l1TokensToDestinationTokensWithBlock = {};
+    Object.entries(this.l1TokensToDestinationTokensWithBlock).forEach(([l1Token, destinationTokens]) => {
+      Object.entries(destinationTokens).forEach(([chainId, mappings]) => {
+        const retained = mappings.filter(retain);
+        const latestMapping = retained.at(-1);
+        if (isDefined(latestMapping)) {
+          assign(view.l1TokensToDestinationTokensWithBlock, [l1Token, Number(chainId)], retained);
+          assign(view.l1TokensToDestinationTokens, [l1Token, Number(chainId)], latestMapping.l2Token);
+        }
+      });
+    });
+
+    view.l1Tokens = this.l1Tokens.filter(({ address }) => this.l1TokensEnabledBlocks[address] <= blockNumber);
+    view.lpTokens = {};
+    const { hubPool } = this;
+    const [currentTime, lpTokens] = await Promise.all([
+      hubPool.getCurrentTime({ blockTag: blockNumber }),
+      mapAsync(view.l1Tokens, ({ address }): Promise<LpToken> =>
+        hubPool.pooledTokens(address, { blockTag: blockNumber })
+      ),
+    ]);
+    view.currentTime = Number(currentTime);
+    view.l1Tokens.forEach(({ address }, idx) => {
+      const { lastLpFeeUpdate, liquidReserves } = lpTokens[idx];
+      view.lpTokens[address] = { lastLpFeeUpdate, liquidReserves };
+    });
+
+    // The latest proposal is pending until all of its leaves are executed, unless it was disputed or cancelled.
+    view.pendingRootBundle = undefined;
+    const rootBundle = view.proposedRootBundles.at(-1);
+    if (isDefined(rootBundle)) {
+      const deleted = [...view.canceledRootBundles, ...view.disputedRootBundles].some(
+        (event) => event.blockNumber >= rootBundle.blockNumber
+      );
+      const unclaimedPoolRebalanceLeafCount =
+        rootBundle.poolRebalanceLeafCount - view.getExecutedLeavesForRootBundle(rootBundle, blockNumber).length;
+      if (!deleted && unclaimedPoolRebalanceLeafCount > 0) {
+        view.pendingRootBundle = {
+          poolRebalanceRoot: rootBundle.poolRebalanceRoot,
+          relayerRefundRoot: rootBundle.relayerRefundRoot,
+          slowRelayRoot: rootBundle.slowRelayRoot,
+          proposer: rootBundle.proposer,
+          unclaimedPoolRebalanceLeafCount,
+          challengePeriodEndTimestamp: rootBundle.challengePeriodEndTimestamp,
+          bundleEvaluationBlockNumbers: toPendingBundleEvaluationBlockNumbers(rootBundle),
+          proposalBlockNumber: rootBundle.blockNumber,
+        };
+      }
+    }
+
+    return view;
+  }
+
   async update(
     eventsToQuery: HubPoolEvent[] = Object.keys(this.hubPoolEventFilters()) as HubPoolEvent[]
   ): Promise<void> {
+    this.assertNotHistoricalView();
     if (!this.configStoreClient.isUpdated) {
       throw new Error("ConfigStoreClient not updated");
     }
@@ -859,6 +962,11 @@ export class HubPoolClient extends BaseAbstractClient {
     // only run iff a new token has been enabled. Will only append iff the info is not there already.
     // Filter out any duplicate addresses. This might happen due to enabling, disabling and re-enabling a token.
     if (eventsToQuery.includes("L1TokenEnabledForLiquidityProvision")) {
+      for (const event of events["L1TokenEnabledForLiquidityProvision"]) {
+        const { l1Token } = spreadEvent(event.args);
+        this.l1TokensEnabledBlocks[l1Token] ??= event.blockNumber;
+      }
+
       const uniqueL1Tokens = [
         ...Array.from(
           new Set(events["L1TokenEnabledForLiquidityProvision"].map((event) => spreadEvent(event.args).l1Token))
@@ -955,20 +1063,7 @@ export class HubPoolClient extends BaseAbstractClient {
           proposer: pendingRootBundleProposal.proposer,
           unclaimedPoolRebalanceLeafCount: pendingRootBundleProposal.unclaimedPoolRebalanceLeafCount,
           challengePeriodEndTimestamp: pendingRootBundleProposal.challengePeriodEndTimestamp,
-          bundleEvaluationBlockNumbers: mostRecentProposedRootBundle.bundleEvaluationBlockNumbers.map(
-            (block: BigNumber) => {
-              // Ideally, the HubPool.sol contract should limit the size of the elements within the
-              // bundleEvaluationBlockNumbers array. But because it doesn't, we wrap the cast of BN --> Number
-              // in a try/catch statement and return some value that would always be disputable.
-              // This catches the denial of service attack vector where a malicious proposer proposes with bundle block
-              // evaluation block numbers larger than what BigNumber::toNumber() can handle.
-              try {
-                return block.toNumber();
-              } catch {
-                return 0;
-              }
-            }
-          ),
+          bundleEvaluationBlockNumbers: toPendingBundleEvaluationBlockNumbers(mostRecentProposedRootBundle),
           proposalBlockNumber: mostRecentProposedRootBundle.blockNumber,
         };
       } else {
@@ -1,3 +1,4 @@
+import { EventEmitter } from "events";
 import { BigNumber, Contract, Event, EventFilter } from "ethers";
 import winston from "winston";
 import {
@@ -12,18 +13,15 @@ import {
   isDefined,
   toBN,
 } from "../utils";
-import {
-  paginatedEventQuery,
-  sortEventsAscendingInPlace,
-  spreadEvent,
-  spreadEventWithBlockNumber,
-} from "../utils/EventUtils";
+import { paginatedEventQuery, sortEventsAscendingInPlace, spreadEventWithBlockNumber } from "../utils/EventUtils";
 import { validateFillForDeposit } from "../utils/FlowUtils";
 
 import { ZERO_ADDRESS } from "../constants";
 import {
   Deposit,
   DepositWithBlock,
+  EnabledDepositRouteWithBlock,
+  EventStoreInterface,
   Fill,
   FillWithBlock,
   FilledV3RelayEvent,
@@ -32,7 +30,8 @@ import {
   RelayerRefundExecutionWithBlock,
   RootBundleRelayWithBlock,
   SlowFillRequestWithBlock,
-  SpeedUp,
+  SortableEvent,
+  SpeedUpWithBlock,
   TokensBridged,
   V3FundsDepositedEvent,
 } from "../interfaces";
@@ -51,6 +50,7 @@ type SpokePoolUpdateSuccess = {
   latestDepositId: number;
   events: Event[][];
   searchEndBlock: number;
+  searchEndBlockHash?: string;
 };
 type SpokePoolUpdateFailure = {
   success: false;
@@ -58,6 +58,22 @@ type SpokePoolUpdateFailure = {
 };
 export type SpokePoolUpdate = SpokePoolUpdateSuccess | SpokePoolUpdateFailure;
 
+// The number of previous search end blocks whose hashes are retained for reorg detection.
+const MAX_SEARCH_BOUNDARIES = 32;
+
+/**
+ * Events emitted by the SpokePoolClient as newly-queried events are indexed. On reorg, `reorg` is emitted with the
+ * block that the client rewound to; events after that block were removed, and are re-emitted as they are re-indexed.
+ */
+export type SpokePoolClientEvents = {
+  deposit: (deposit: DepositWithBlock) => void;
+  fill: (fill: FillWithBlock) => void;
+  speedUp: (speedUp: SpeedUpWithBlock) => void;
+  slowFillRequest: (slowFillRequest: SlowFillRequestWithBlock) => void;
+  rootBundleRelayed: (rootBundleRelay: RootBundleRelayWithBlock) => void;
+  reorg: (rewindBlock: number) => void;
+};
+
 /**
  * SpokePoolClient is a client for the SpokePool contract. It is responsible for querying the SpokePool contract
  * for events and storing them in memory. It also provides some convenience methods for querying the stored events.
@@ -67,12 +83,18 @@ export class SpokePoolClient extends BaseAbstractClient {
   protected oldestTime = 0;
   protected depositHashes: { [depositHash: string]: DepositWithBlock } = {};
   protected depositHashesToFills: { [depositHash: string]: FillWithBlock[] } = {};
-  protected speedUps: { [depositorAddress: string]: { [depositId: number]: SpeedUp[] } } = {};
+  protected speedUps: { [depositorAddress: string]: { [depositId: number]: SpeedUpWithBlock[] } } = {};
   protected slowFillRequests: { [relayDataHash: string]: SlowFillRequestWithBlock } = {};
   protected depositRoutes: { [originToken: string]: { [DestinationChainId: number]: boolean } } = {};
+  protected depositRouteUpdates: EnabledDepositRouteWithBlock[] = [];
   protected tokensBridged: TokensBridged[] = [];
   protected rootBundleRelays: RootBundleRelayWithBlock[] = [];
   protected relayerRefundExecutions: RelayerRefundExecutionWithBlock[] = [];
+  protected searchBoundaries: { blockNumber: number; hash: string }[] = [];
+  protected emitter = new EventEmitter();
+  protected blockListener: (() => void) | undefined;
+  protected streamingUpdateInProgress = false;
+  protected streamingUpdatePending = false;
   protected queryableEventNames: string[] = [];
   protected configStoreClient: AcrossConfigStoreClient | undefined;
   public earliestDepositIdQueried = Number.MAX_SAFE_INTEGER;
@@ -89,6 +111,7 @@ export class SpokePoolClient extends BaseAbstractClient {
    * @param chainId The chain ID of the chain that this client is querying.
    * @param deploymentBlock The block number that the SpokePool contract was deployed at.
    * @param eventSearchConfig An optional EventSearchConfig object that controls how far back in history the client will search for events. If not provided, the client will only search for events from the deployment block.
+   * @param eventStore An optional event store. If provided, previously-queried events are loaded from the store instead of the RPC provider.
    */
   constructor(
     readonly logger: winston.Logger,
@@ -97,9 +120,10 @@ export class SpokePoolClient extends BaseAbstractClient {
     readonly hubPoolClient: HubPoolClient | null,
     readonly chainId: number,
     public deploymentBlock: number,
-    eventSearchConfig: MakeOptional<EventSearchConfig, "toBlock"> = { fromBlock: 0, maxBlockLookBack: 0 }
+    eventSearchConfig: MakeOptional<EventSearchConfig, "toBlock"> = { fromBlock: 0, maxBlockLookBack: 0 },
+    eventStore?: EventStoreInterface
   ) {
-    super(eventSearchConfig);
+    super(eventSearchConfig, undefined, eventStore);
     this.firstBlockToSearch = eventSearchConfig.fromBlock;
     this.latestBlockSearched = 0;
     this.queryableEventNames = Object.keys(this._queryableEventNames());
@@ -302,6 +326,25 @@ export class SpokePoolClient extends BaseAbstractClient {
     return validateFillForDeposit(fill, depositWithMatchingDepositId) ? depositWithMatchingDepositId : undefined;
   }
 
+  /**
+   * Retrieves the speed ups that have been requested for a deposit.
+   * @param deposit The deposit to retrieve speed ups for.
+   * @returns A list of speed ups, in the order in which they were indexed.
+   */
+  public getSpeedUpsForDeposit(deposit: Pick<Deposit, "depositor" | "depositId">): SpeedUpWithBlock[] {
+    return this.speedUps[deposit.depositor]?.[deposit.depositId] ?? [];
+  }
+
+  /**
+   * Retrieves the valid fills for a deposit. This must be called on the SpokePoolClient for the destination chain.
+   * @param deposit The deposit to retrieve fills for.
+   * @returns A list of fills that match the deposit.
+   */
+  public getFillsForDeposit(deposit: Deposit): FillWithBlock[] {
+    const fillsForDeposit = this.depositHashesToFills[this.getDepositHash(deposit)] ?? [];
+    return fillsForDeposit.filter((fill) => validateFillForDeposit(fill, deposit));
+  }
+
   /**
    * Find the unfilled amount for a given deposit. This is the full deposit amount minus the total filled amount.
    * @param deposit The deposit to find the unfilled amount for.
@@ -463,6 +506,7 @@ export class SpokePoolClient extends BaseAbstractClient {
       }
 
       return {
+        eventName,
         filter: this._queryableEventNames()[eventName],
         searchConfig: _searchConfig,
       };
@@ -474,15 +518,31 @@ export class SpokePoolClient extends BaseAbstractClient {
       spokePool: this.spokePool.address,
     });
 
+    // The hash of the search end block anchors reorg detection on the next update. It is resolved before querying
+    // and re-checked afterwards, such that events queried from a chain that reorged mid-update are not anchored to it.
+    const { provider } = this.spokePool;
+    const anchorBlock = await provider.getBlock(searchConfig.toBlock);
+
     const timerStart = Date.now();
     const [numberOfDeposits, currentTime, oldestTime, ...events] = await Promise.all([
       this.spokePool.numberOfDeposits({ blockTag: searchConfig.toBlock }),
       this.spokePool.getCurrentTime({ blockTag: searchConfig.toBlock }),
       this.spokePool.getCurrentTime({ blockTag: Math.max(searchConfig.fromBlock, this.deploymentBlock) }),
-      ...eventSearchConfigs.map((config) => paginatedEventQuery(this.spokePool, config.filter, config.searchConfig)),
+      ...eventSearchConfigs.map((config) =>
+        this.queryEvents(this.chainId, this.spokePool, config.eventName, config.filter, config.searchConfig)
+      ),
     ]);
     this.log("debug", `Time to query new events from RPC for ${this.chainId}: ${Date.now() - timerStart} ms`);
 
+    const searchEndBlock = await provider.getBlock(searchConfig.toBlock);
+    if (searchEndBlock?.hash !== anchorBlock?.hash) {
+      this.log("warn", `Chain ${this.chainId} reorged at block ${searchConfig.toBlock} during update, retrying.`, {
+        anchorHash: anchorBlock?.hash,
+        searchEndBlockHash: searchEndBlock?.hash,
+      });
+      return { success: false, reason: UpdateFailureReason.Reorged };
+    }
+
     if (!BigNumber.isBigNumber(currentTime) || currentTime.lt(this.currentTime)) {
       const errMsg = BigNumber.isBigNumber(currentTime)
         ? `currentTime: ${currentTime} < ${toBN(this.currentTime)}`
@@ -500,10 +560,44 @@ export class SpokePoolClient extends BaseAbstractClient {
       firstDepositId,
       latestDepositId: Math.max(numberOfDeposits - 1, 0),
       searchEndBlock: searchConfig.toBlock,
+      searchEndBlockHash: searchEndBlock?.hash,
       events,
     };
   }
 
+  /**
+   * Create a read-only view of the SpokePool as of a block. All getters on the view, including those that default to
+   * the latest block, only reflect SpokePool events emitted at or before `blockNumber`.
+   * @param blockNumber The block to view the SpokePool as of. Must not exceed the latest block searched.
+   * @returns A SpokePoolClient instance that cannot be updated or streamed.
+   */
+  public async asOf(blockNumber: number): Promise<this> {
+    const view = this.cloneAsOf(blockNumber);
+
+    // Copy the containers that are rewound in place.
+    view.depositHashes = { ...this.depositHashes };
+    view.depositHashesToFills = { ...this.depositHashesToFills };
+    view.fills = { ...this.fills };
+    view.slowFillRequests = { ...this.slowFillRequests };
+    view.speedUps = Object.fromEntries(
+      Object.entries(this.speedUps).map(([depositor, speedUps]) => [depositor, { ...speedUps }])
+    );
+    view.evictEventsAfterBlock(blockNumber);
+
+    view.searchBoundaries = this.searchBoundaries.filter((boundary) => boundary.blockNumber <= blockNumber);
+    view.emitter = new EventEmitter();
+    view.blockListener = undefined;
+
+    const [numberOfDeposits, currentTime] = await Promise.all([
+      this.spokePool.numberOfDeposits({ blockTag: blockNumber }),
+      this.spokePool.getCurrentTime({ blockTag: blockNumber }),
+    ]);
+    view.lastDepositIdForSpokePool = Math.max(Number(numberOfDeposits) - 1, 0);
+    view.currentTime = Number(currentTime);
+
+    return view;
+  }
+
   /**
    * A wrapper over the `_update` method that handles errors and logs. This method additionally calls into the
    * HubPoolClient to update the state of this client with data from the HubPool contract.
@@ -513,16 +607,32 @@ export class SpokePoolClient extends BaseAbstractClient {
    * @see _update
    */
   public async update(eventsToQuery = this.queryableEventNames): Promise<void> {
+    this.assertNotHistoricalView();
     if (this.hubPoolClient !== null && !this.hubPoolClient.isUpdated) {
       throw new Error("HubPoolClient not updated");
     }
 
+    // Rewind over any blocks that were reorged out since the previous update, so that they are re-queried.
+    await this.rewindReorgedBlocks();
+
     const update = await this._update(eventsToQuery);
     if (!update.success) {
       return;
     }
     const { events: queryResults, currentTime, oldestTime, searchEndBlock } = update;
 
+    // Newly indexed events are only emitted once the update has completed, so that listeners see consistent state.
+    const newDepositHashes: string[] = [];
+    const newEvents: {
+      [E in Exclude<keyof SpokePoolClientEvents, "reorg">]: Parameters<SpokePoolClientEvents[E]>[0][];
+    } = {
+      deposit: [],
+      fill: [],
+      speedUp: [],
+      slowFillRequest: [],
+      rootBundleRelayed: [],
+    };
+
     if (eventsToQuery.includes("TokensBridged")) {
       for (const event of queryResults[eventsToQuery.indexOf("TokensBridged")]) {
         this.tokensBridged.push(spreadEventWithBlockNumber(event) as TokensBridged);
@@ -556,6 +666,7 @@ export class SpokePoolClient extends BaseAbstractClient {
           continue;
         }
         assign(this.depositHashes, [this.getDepositHash(deposit)], deposit);
+        newDepositHashes.push(this.getDepositHash(deposit));
 
         if (deposit.depositId < this.earliestDepositIdQueried) {
           this.earliestDepositIdQueried = deposit.depositId;
@@ -574,8 +685,12 @@ export class SpokePoolClient extends BaseAbstractClient {
       const speedUpEvents = [...(queryResults[eventsToQuery.indexOf("RequestedSpeedUpV3Deposit")] ?? [])];
 
       for (const event of speedUpEvents) {
-        const speedUp: SpeedUp = { ...spreadEvent(event.args), originChainId: this.chainId };
+        const speedUp: SpeedUpWithBlock = {
+          ...(spreadEventWithBlockNumber(event) as SpeedUpWithBlock),
+          originChainId: this.chainId,
+        };
         assign(this.speedUps, [speedUp.depositor, speedUp.depositId], [speedUp]);
+        newEvents.speedUp.push(speedUp);
 
         // Find deposit hash matching this speed up event and update the deposit data associated with the hash,
         // if the hash+data exists.
@@ -602,6 +717,7 @@ export class SpokePoolClient extends BaseAbstractClient {
           continue;
         }
         this.slowFillRequests[relayDataHash] = slowFillRequest;
+        newEvents.slowFillRequest.push(slowFillRequest);
       }
     }
 
@@ -624,6 +740,7 @@ export class SpokePoolClient extends BaseAbstractClient {
 
         assign(this.fills, [fill.originChainId], [fill]);
         assign(this.depositHashesToFills, [this.getDepositHash(fill)], [fill]);
+        newEvents.fill.push(fill);
       }
     }
 
@@ -631,19 +748,22 @@ export class SpokePoolClient extends BaseAbstractClient {
       const enableDepositsEvents = queryResults[eventsToQuery.indexOf("EnabledDepositRoute")];
 
       for (const event of enableDepositsEvents) {
-        const enableDeposit = spreadEvent(event.args);
+        const enableDeposit = spreadEventWithBlockNumber(event) as EnabledDepositRouteWithBlock;
         assign(
           this.depositRoutes,
           [enableDeposit.originToken, enableDeposit.destinationChainId],
           enableDeposit.enabled
         );
+        this.depositRouteUpdates.push(enableDeposit);
       }
     }
 
     if (eventsToQuery.includes("RelayedRootBundle")) {
       const relayedRootBundleEvents = queryResults[eventsToQuery.indexOf("RelayedRootBundle")];
       for (const event of relayedRootBundleEvents) {
-        this.rootBundleRelays.push(spreadEventWithBlockNumber(event) as RootBundleRelayWithBlock);
+        const rootBundleRelay = spreadEventWithBlockNumber(event) as RootBundleRelayWithBlock;
+        this.rootBundleRelays.push(rootBundleRelay);
+        newEvents.rootBundleRelayed.push(rootBundleRelay);
       }
     }
 
@@ -664,6 +784,12 @@ export class SpokePoolClient extends BaseAbstractClient {
     if (this.oldestTime === 0) this.oldestTime = oldestTime; // Set oldest time only after the first update.
     this.firstDepositIdForSpokePool = update.firstDepositId;
     this.latestBlockSearched = searchEndBlock;
+    if (isDefined(update.searchEndBlockHash)) {
+      this.searchBoundaries = [
+        ...this.searchBoundaries.slice(1 - MAX_SEARCH_BOUNDARIES),
+        { blockNumber: searchEndBlock, hash: update.searchEndBlockHash },
+      ];
+    }
     this.lastDepositIdForSpokePool = update.latestDepositId;
     this.firstBlockToSearch = searchEndBlock + 1;
     this.eventSearchConfig.toBlock = undefined; // Caller can re-set on subsequent updates if necessary
@@ -671,6 +797,229 @@ export class SpokePoolClient extends BaseAbstractClient {
     this.log("debug", `SpokePool client for chain ${this.chainId} updated!`, {
       nextFirstBlockToSearch: this.firstBlockToSearch,
     });
+
+    // Deposits are emitted with any speed ups that were applied during this update.
+    newEvents.deposit = newDepositHashes.map((depositHash) => this.depositHashes[depositHash]);
+    (Object.keys(newEvents) as (keyof typeof newEvents)[]).forEach((eventName) =>
+      newEvents[eventName].forEach((event) => this.emit(eventName, event))
+    );
+  }
+
+  /**
+   * Invokes each listener registered for an event. Listeners are isolated from one another and from the update that
+   * emitted the event, such that a throwing listener is logged rather than propagated.
+   * @param eventName The event to emit.
+   * @param payload The argument to pass to each listener.
+   */
+  protected emit<E extends keyof SpokePoolClientEvents>(
+    eventName: E,
+    payload: Parameters<SpokePoolClientEvents[E]>[0]
+  ): void {
+    // Raw listeners include the wrappers of once() listeners, which deregister themselves when invoked.
+    this.emitter.rawListeners(eventName).forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (err) {
+        this.log("warn", `SpokePool client ${eventName} listener failed on chain ${this.chainId}.`, {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+  }
+
+  /**
+   * Registers a listener for events that are indexed by this client.
+   * @param eventName The event to listen for.
+   * @param listener The listener to invoke with each newly-indexed event.
+   * @returns This client, for chaining.
+   */
+  public on<E extends keyof SpokePoolClientEvents>(eventName: E, listener: SpokePoolClientEvents[E]): this {
+    this.emitter.on(eventName, listener);
+    return this;
+  }
+
+  /**
+   * Registers a listener that is invoked for the next indexed event only.
+   * @param eventName The event to listen for.
+   * @param listener The listener to invoke.
+   * @returns This client, for chaining.
+   */
+  public once<E extends keyof SpokePoolClientEvents>(eventName: E, listener: SpokePoolClientEvents[E]): this {
+    this.emitter.once(eventName, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener that was registered via on() or once().
+   * @param eventName The event that the listener was registered for.
+   * @param listener The listener to remove.
+   * @returns This client, for chaining.
+   */
+  public off<E extends keyof SpokePoolClientEvents>(eventName: E, listener: SpokePoolClientEvents[E]): this {
+    this.emitter.off(eventName, listener);
+    return this;
+  }
+
+  /**
+   * Indicates whether the client is streaming updates.
+   * @returns Whether the client is streaming updates.
+   */
+  public get isStreaming(): boolean {
+    return isDefined(this.blockListener);
+  }
+
+  /**
+   * Subscribes to new blocks from the SpokePool provider and runs update() as each block arrives, emitting any newly
+   * indexed events to registered listeners. Blocks that arrive while an update is in progress are coalesced into a
+   * single follow-up update.
+   */
+  public startStreaming(): void {
+    this.assertNotHistoricalView();
+    if (this.isStreaming) {
+      return;
+    }
+
+    this.blockListener = () => void this.streamingUpdate();
+    this.spokePool.provider.on("block", this.blockListener);
+    this.log("debug", `Started streaming SpokePool client for chain ${this.chainId}.`);
+  }
+
+  /**
+   * Unsubscribes from new blocks. Any in-progress update is allowed to complete.
+   */
+  public stopStreaming(): void {
+    if (!isDefined(this.blockListener)) {
+      return;
+    }
+
+    this.spokePool.provider.off("block", this.blockListener);
+    this.blockListener = undefined;
+    this.log("debug", `Stopped streaming SpokePool client for chain ${this.chainId}.`);
+  }
+
+  /**
+   * Runs update() in response to a new block. Errors are logged rather than thrown, so that a transient RPC failure
+   * does not end the subscription; the next block retries the update.
+   */
+  protected async streamingUpdate(): Promise<void> {
+    if (this.streamingUpdateInProgress) {
+      this.streamingUpdatePending = true;
+      return;
+    }
+
+    this.streamingUpdateInProgress = true;
+    try {
+      do {
+        this.streamingUpdatePending = false;
+        await this.update();
+      } while (this.streamingUpdatePending && this.isStreaming);
+    } catch (err) {
+      this.log("warn", `Streaming update failed for chain ${this.chainId}.`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      this.streamingUpdateInProgress = false;
+    }
+  }
+
+  /**
+   * Detects whether any previously-searched blocks were reorged out, by comparing the block hashes recorded at the
+   * end of previous updates against the chain. On divergence, all events after the most recent intact boundary are
+   * evicted and the search is rewound to that boundary, so that the next update re-queries the affected range.
+   * @returns The block that the client was rewound to, or undefined if no reorg was detected.
+   */
+  protected async rewindReorgedBlocks(): Promise<number | undefined> {
+    const { provider } = this.spokePool;
+    let idx = this.searchBoundaries.length - 1;
+    for (; idx >= 0; --idx) {
+      const { blockNumber, hash } = this.searchBoundaries[idx];
+      const block = await provider.getBlock(blockNumber);
+      if (block?.hash === hash) {
+        break;
+      }
+    }
+
+    // No boundaries have been recorded yet, or the latest boundary is still canonical.
+    if (idx === this.searchBoundaries.length - 1) {
+      return undefined;
+    }
+
+    // If none of the recorded boundaries are intact, the entire search range must be re-queried.
+    const rewindBlock = idx >= 0 ? this.searchBoundaries[idx].blockNumber : this.eventSearchConfig.fromBlock - 1;
+    this.log("warn", `Detected reorg on chain ${this.chainId}, rewinding to block ${rewindBlock}.`, {
+      latestBlockSearched: this.latestBlockSearched,
+      rewindBlock,
+    });
+
+    this.evictEventsAfterBlock(rewindBlock);
+    await this.rewindEventStore(this.chainId, this.spokePool, this.queryableEventNames, rewindBlock);
+
+    this.searchBoundaries = this.searchBoundaries.slice(0, idx + 1);
+    this.latestBlockSearched = Math.max(rewindBlock, 0);
+    this.firstBlockToSearch = rewindBlock + 1;
+    // The SpokePool time at the new search end block may precede the time observed on the reorged chain.
+    this.currentTime = 0;
+
+    // Listeners are notified of the removal before any events from the rewound range are re-emitted.
+    this.emit("reorg", rewindBlock);
+
+    return rewindBlock;
+  }
+
+  /**
+   * Evicts all events that were emitted after a block.
+   * @param blockNumber The last block to retain events for.
+   */
+  protected evictEventsAfterBlock(blockNumber: number): void {
+    const retain = (event: SortableEvent) => event.blockNumber <= blockNumber;
+
+    Object.entries(this.depositHashes)
+      .filter(([, deposit]) => !retain(deposit))
+      .forEach(([depositHash]) => delete this.depositHashes[depositHash]);
+
+    const depositIds = Object.values(this.depositHashes).map(({ depositId }) => depositId);
+    this.earliestDepositIdQueried = depositIds.reduce((a, b) => Math.min(a, b), Number.MAX_SAFE_INTEGER);
+    this.latestDepositIdQueried = depositIds.reduce((a, b) => Math.max(a, b), 0);
+
+    Object.keys(this.fills).forEach((originChainId) => {
+      this.fills[Number(originChainId)] = this.fills[Number(originChainId)].filter(retain);
+    });
+    Object.keys(this.depositHashesToFills).forEach((depositHash) => {
+      this.depositHashesToFills[depositHash] = this.depositHashesToFills[depositHash].filter(retain);
+    });
+
+    Object.entries(this.slowFillRequests)
+      .filter(([, slowFillRequest]) => !retain(slowFillRequest))
+      .forEach(([relayDataHash]) => delete this.slowFillRequests[relayDataHash]);
+
+    // Deposits that were sped up by an evicted speed up must have their updated parameters re-derived.
+    Object.values(this.speedUps).forEach((speedUpsForDepositor) => {
+      Object.entries(speedUpsForDepositor).forEach(([depositId, speedUps]) => {
+        const retained = speedUps.filter(retain);
+        if (retained.length === speedUps.length) {
+          return;
+        }
+        speedUpsForDepositor[Number(depositId)] = retained;
+
+        const depositHash = this.getDepositHash(speedUps[0]);
+        const deposit = this.depositHashes[depositHash];
+        if (isDefined(deposit)) {
+          const { speedUpSignature, updatedRecipient, updatedOutputAmount, updatedMessage, ...originalDeposit } =
+            deposit;
+          this.depositHashes[depositHash] = this.appendMaxSpeedUpSignatureToDeposit(originalDeposit);
+        }
+      });
+    });
+
+    this.tokensBridged = this.tokensBridged.filter(retain);
+    this.rootBundleRelays = this.rootBundleRelays.filter(retain);
+    this.relayerRefundExecutions = this.relayerRefundExecutions.filter(retain);
+
+    this.depositRouteUpdates = this.depositRouteUpdates.filter(retain);
+    this.depositRoutes = {};
+    this.depositRouteUpdates.forEach(({ originToken, destinationChainId, enabled }) =>
+      assign(this.depositRoutes, [originToken, destinationChainId], enabled)
+    );
   }
 
   /**
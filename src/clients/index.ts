@@ -5,5 +5,6 @@ export {
   ConfigStoreUpdate,
 } from "./AcrossConfigStoreClient";
 export { HubPoolClient, LpFeeRequest } from "./HubPoolClient";
-export { SpokePoolClient, SpokePoolUpdate } from "./SpokePoolClient";
+export { BundleDataClient } from "./BundleDataClient";
+export { SpokePoolClient, SpokePoolClientEvents, SpokePoolUpdate } from "./SpokePoolClient";
 export * as mocks from "./mocks";
@@ -153,11 +153,32 @@ export class MockHubPoolClient extends HubPoolClient {
 
   public readonly eventSignatures: Record<string, string> = {
     SetEnableDepositRoute: "uint256,uint256,address,bool",
+    L1TokenEnabledForLiquidityProvision: "address,address",
     SetPoolRebalanceRoute: "uint256,address,address",
     ProposeRootBundle: "uint32,uint8,uint256[],bytes32,bytes32,bytes32,address",
     RootBundleExecuted: "uint256,uint256,uint256,address[],uint256[],int256[],int256[],address",
   };
 
+  enableL1TokenForLiquidityProvision(l1Token: string, lpToken?: string, overrides: EventOverrides = {}): Event {
+    const event = "L1TokenEnabledForLiquidityProvision";
+
+    lpToken ??= randomAddress();
+
+    const topics = [l1Token, lpToken];
+    const args = {
+      l1Token,
+      lpToken,
+    };
+
+    return this.eventManager.generateEvent({
+      event,
+      address: this.hubPool.address,
+      topics: topics.map((topic) => topic.toString()),
+      args,
+      blockNumber: overrides.blockNumber,
+    });
+  }
+
   setPoolRebalanceRoute(
     destinationChainId: number,
     l1Token: string,
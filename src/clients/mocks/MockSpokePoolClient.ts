@@ -9,11 +9,13 @@ import {
   V3FundsDepositedEvent,
   RealizedLpFee,
   RelayerRefundExecutionWithBlock,
+  RootBundleRelayWithBlock,
   SlowFillRequestWithBlock,
   Fill,
   FillWithBlock,
   SlowFillLeaf,
   SpeedUp,
+  TokensBridged,
 } from "../../interfaces";
 import { bnZero, toBN, toBNWei, forEachAsync, getCurrentTime, randomAddress } from "../../utils";
 import { SpokePoolClient, SpokePoolUpdate } from "../SpokePoolClient";
@@ -296,6 +298,22 @@ export class MockSpokePoolClient extends SpokePoolClient {
     return this.fillV3Relay(fill as FillWithBlock);
   }
 
+  relayRootBundle(rootBundleRelay: RootBundleRelayWithBlock): Event {
+    const event = "RelayedRootBundle";
+
+    const { rootBundleId, relayerRefundRoot, slowRelayRoot } = rootBundleRelay;
+    const topics = [rootBundleId, relayerRefundRoot, slowRelayRoot];
+    const args = { rootBundleId, relayerRefundRoot, slowRelayRoot };
+
+    return this.eventManager.generateEvent({
+      event,
+      address: this.spokePool.address,
+      topics: topics.map((topic) => topic.toString()),
+      args,
+      blockNumber: rootBundleRelay.blockNumber,
+    });
+  }
+
   executeRelayerRefundLeaf(refund: RelayerRefundExecutionWithBlock): Event {
     const event = "ExecutedRelayerRefundRoot";
 
@@ -323,6 +341,26 @@ export class MockSpokePoolClient extends SpokePoolClient {
     });
   }
 
+  bridgeTokens(tokensBridged: TokensBridged): Event {
+    const event = "TokensBridged";
+
+    const chainId = tokensBridged.chainId ?? this.chainId;
+    assert(chainId === this.chainId);
+
+    const { amountToReturn, leafId, l2TokenAddress } = tokensBridged;
+    const caller = randomAddress();
+    const topics = [chainId, leafId, l2TokenAddress];
+    const args = { amountToReturn, chainId, leafId, l2TokenAddress, caller };
+
+    return this.eventManager.generateEvent({
+      event,
+      address: this.spokePool.address,
+      topics: topics.map((topic) => topic.toString()),
+      args,
+      blockNumber: tokensBridged.blockNumber,
+    });
+  }
+
   setEnableRoute(
     originToken: string,
     destinationChainId: number,
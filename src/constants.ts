@@ -1,4 +1,5 @@
 import { constants as ethersConstants, BigNumber, utils } from "ethers";
+import { CHAIN_IDs } from "@across-protocol/constants";
 export {
   ChainFamily,
   CHAIN_IDs,
@@ -29,6 +30,9 @@ export const ARWEAVE_TAG_APP_NAME = "across-protocol";
 // A hardcoded version number used, by default, to tag all Arweave records.
 export const ARWEAVE_TAG_APP_VERSION = 2;
 
+// Records larger than this many bytes are stored on Arweave as a series of linked chunks.
+export const ARWEAVE_MAX_PAYLOAD_SIZE = 1024 * 1024;
+
 /**
  * A default list of chain Ids that the protocol supports. This is outlined
  * in the UMIP (https://github.com/UMAprotocol/UMIPs/pull/590) and is used
@@ -42,6 +46,21 @@ export const PROTOCOL_DEFAULT_CHAIN_ID_INDICES = [1, 10, 137, 288, 42161];
 export const DEFAULT_CACHING_TTL = 60 * 60 * 24 * 7 * 2; // 2 Weeks
 export const DEFAULT_CACHING_SAFE_LAG = 60 * 60; // 1 hour
 
+/**
+ * Number of blocks behind the chain head after which RPC responses are considered final and may be cached.
+ * These are deliberately conservative; chains that are not listed fall back to DEFAULT_CACHING_FINALITY.
+ */
+export const CACHING_FINALITY: { [chainId: number]: number } = {
+  [CHAIN_IDs.MAINNET]: 64, // Two epochs.
+  [CHAIN_IDs.OPTIMISM]: 120,
+  [CHAIN_IDs.BASE]: 120,
+  [CHAIN_IDs.POLYGON]: 256,
+  [CHAIN_IDs.ZK_SYNC]: 512,
+  [CHAIN_IDs.LINEA]: 100,
+  [CHAIN_IDs.ARBITRUM]: 240,
+};
+export const DEFAULT_CACHING_FINALITY = 256;
+
 export const UBA_BOUNDS_RANGE_MAX = BigNumber.from(String(Number.MAX_SAFE_INTEGER)).mul(utils.parseEther("1.0"));
 export const UBA_BOUNDS_RANGE_MIN = UBA_BOUNDS_RANGE_MAX.mul(-1);
 
@@ -1,4 +1,5 @@
 export * as lpFeeCalculator from "./lpFeeCalculator";
+export * as ubaFeeCalculator from "./ubaFeeCalculator";
 export * as pool from "./pool";
 export * as relayFeeCalculator from "./relayFeeCalculator";
 export * as utils from "./utils";
@@ -13,3 +14,4 @@ export * as typeguards from "./typeguards";
 export * as clients from "./clients";
 export * as typechain from "./typechain";
 export * as caching from "./caching";
+export * as providers from "./providers";
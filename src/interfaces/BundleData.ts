@@ -0,0 +1,171 @@
+import { BigNumber, PopulatedTransaction } from "ethers";
+import { SpokePoolTargetBalance } from "./ConfigStore";
+import { PoolRebalanceLeaf, ProposedRootBundle, RelayerRefundLeaf } from "./HubPool";
+import {
+  DepositWithBlock,
+  FillType,
+  FillWithBlock,
+  Refund,
+  RelayerRefundExecutionWithBlock,
+  SlowFillLeaf,
+  SlowFillRequestWithBlock,
+  SpeedUpWithBlock,
+} from "./SpokePool";
+
+export type ExpiredDepositsToRefundV3 = {
+  [originChainId: number]: {
+    [originToken: string]: DepositWithBlock[];
+  };
+};
+
+export type BundleDepositsV3 = {
+  [originChainId: number]: {
+    [originToken: string]: DepositWithBlock[];
+  };
+};
+
+export interface BundleFillV3 extends FillWithBlock {
+  lpFeePct: BigNumber;
+}
+
+export type BundleFillsV3 = {
+  [repaymentChainId: number]: {
+    [repaymentToken: string]: {
+      fills: BundleFillV3[];
+      refunds: Refund;
+      totalRefundAmount: BigNumber;
+      realizedLpFees: BigNumber;
+    };
+  };
+};
+
+export type BundleSlowFills = {
+  [destinationChainId: number]: {
+    [destinationToken: string]: (DepositWithBlock & { lpFeePct: BigNumber })[];
+  };
+};
+
+// Slow fill leaves included in a prior bundle that can no longer be executed, because the deposit has since been
+// fast-filled or has expired. The HubPool must reclaim the amounts that were previously sent for them.
+export type BundleExcessSlowFills = {
+  [destinationChainId: number]: {
+    [destinationToken: string]: (DepositWithBlock & { lpFeePct: BigNumber })[];
+  };
+};
+
+export type CombinedRefunds = {
+  [repaymentChainId: number]: {
+    [repaymentToken: string]: Refund;
+  };
+};
+
+export interface LoadDataReturnValue {
+  bundleDepositsV3: BundleDepositsV3;
+  expiredDepositsToRefundV3: ExpiredDepositsToRefundV3;
+  bundleFillsV3: BundleFillsV3;
+  unexecutableSlowFills: BundleExcessSlowFills;
+  bundleSlowFillsV3: BundleSlowFills;
+  invalidFills: FillWithBlock[];
+}
+
+export enum RootBundleValidationStatus {
+  Valid = 0,
+  Invalid,
+  Undecidable,
+}
+
+export type RootBundleRoots = {
+  poolRebalanceRoot: string;
+  relayerRefundRoot: string;
+  slowRelayRoot: string;
+};
+
+export type RootBundleMismatch = {
+  field: keyof RootBundleRoots | "poolRebalanceLeafCount" | "bundleBlockRanges";
+  expected: string;
+  proposed: string;
+};
+
+export type RootBundleValidation =
+  | { status: RootBundleValidationStatus.Valid; blockRanges: number[][]; expectedRoots: RootBundleRoots }
+  | {
+      status: RootBundleValidationStatus.Invalid;
+      blockRanges?: number[][];
+      expectedRoots?: RootBundleRoots;
+      mismatches: RootBundleMismatch[];
+    }
+  | { status: RootBundleValidationStatus.Undecidable; reason: string; chainIds: number[] };
+
+export type RunningBalanceFlows = {
+  deposits: BigNumber;
+  refunds: BigNumber;
+  slowFills: BigNumber;
+  expiredDeposits: BigNumber;
+  tokensBridged: BigNumber;
+};
+
+export interface RunningBalanceProjection {
+  chainId: number;
+  l1Token: string;
+  blockRange: number[];
+  lastExecutedRunningBalance: BigNumber;
+  flows: RunningBalanceFlows;
+  projectedRunningBalance: BigNumber;
+  spokeTargetBalance: SpokePoolTargetBalance;
+  projectedNetSendAmount: BigNumber;
+}
+
+export interface DepositLifecycleFill {
+  fill: FillWithBlock;
+  fillType: FillType;
+  // Undefined for slow fills, which are not refunded.
+  repaymentChainId?: number;
+  // The root bundle whose block range for the destination chain covers the fill, if one has been proposed.
+  rootBundle?: ProposedRootBundle;
+  rootBundleExecuted: boolean;
+  // The executed relayer refund leaf that repaid the relayer, if any.
+  refundLeaf?: RelayerRefundExecutionWithBlock;
+}
+
+export interface DepositLifecycle {
+  // The deposit, including the parameters of any applicable speed up.
+  deposit: DepositWithBlock;
+  speedUps: SpeedUpWithBlock[];
+  slowFillRequest?: SlowFillRequestWithBlock;
+  fills: DepositLifecycleFill[];
+}
+
+export interface ExpiredDepositRefund {
+  deposit: DepositWithBlock;
+  // The root bundle that refunds the deposit, if one has been proposed for the bundle block ranges.
+  rootBundle?: ProposedRootBundle;
+  rootBundleExecuted: boolean;
+  // The executed relayer refund leaf that paid the depositor, if any.
+  refundLeaf?: RelayerRefundExecutionWithBlock;
+  refunded: boolean;
+}
+
+export interface LeafExecution<T> {
+  leaf: T;
+  proof: string[];
+  transaction: PopulatedTransaction;
+}
+
+// Leaf executions are ordered by leafId. PoolRebalanceLeaves must be executed before the SpokePool leaves of the same
+// root bundle can be built, because the SpokePool leaves are only executable once the root bundle has been relayed.
+export type RootBundleExecutions = {
+  poolRebalanceLeaves: LeafExecution<PoolRebalanceLeaf>[];
+  relayerRefundLeaves: { [chainId: number]: LeafExecution<RelayerRefundLeaf>[] };
+  slowFillLeaves: { [chainId: number]: LeafExecution<SlowFillLeaf>[] };
+};
+
+export interface RootBundleProposal {
+  blockRanges: number[][];
+  bundleEvaluationBlockNumbers: number[];
+  bundleData: LoadDataReturnValue;
+  poolRebalanceLeaves: PoolRebalanceLeaf[];
+  relayerRefundLeaves: RelayerRefundLeaf[];
+  slowFillLeaves: SlowFillLeaf[];
+  roots: RootBundleRoots;
+  transaction: PopulatedTransaction;
+}
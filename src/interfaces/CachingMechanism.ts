@@ -34,4 +34,11 @@ export interface CachingMechanismInterface {
     ttl?: number,
     overrides?: OverrideType
   ): Promise<string | undefined>;
+
+  /**
+   * Attempts to retrieve the remaining time to live of a key.
+   * @param key The key to query.
+   * @returns The remaining time to live in seconds, or null if the key does not exist or does not expire.
+   */
+  getTtl?(key: string): Promise<number | null>;
 }
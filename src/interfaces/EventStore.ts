@@ -0,0 +1,61 @@
+import { SortableEvent } from "./Common";
+
+/**
+ * Identifies a single stream of events: one event type, emitted by one contract on one chain.
+ */
+export interface EventStoreKey {
+  chainId: number;
+  contract: string;
+  eventName: string;
+}
+
+/**
+ * A serialisable representation of an ethers Event. `args` holds the spread event arguments.
+ */
+export interface StoredEvent extends SortableEvent {
+  event: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * The interface for a persistent event store. Clients load previously-queried events from the store and append newly
+ * queried events to it, so that only blocks outside of the stored range must be queried from the RPC provider.
+ * @interface EventStoreInterface
+ * @exports
+ */
+export interface EventStoreInterface {
+  /**
+   * Resolve the inclusive block range that has been searched for a key.
+   * @param key The event stream to resolve.
+   * @returns The [fromBlock, toBlock] range covered by the store, or undefined if the key is not stored.
+   */
+  getBlockRange(key: EventStoreKey): Promise<[number, number] | undefined>;
+
+  /**
+   * Load the stored events for a key within an inclusive block range.
+   * @param key The event stream to load.
+   * @param fromBlock The first block to load.
+   * @param toBlock The last block to load.
+   * @returns The stored events, in ascending order.
+   */
+  load(key: EventStoreKey, fromBlock: number, toBlock: number): Promise<StoredEvent[]>;
+
+  /**
+   * Record that an inclusive block range has been searched for a key, along with the events found within it.
+   * @param key The event stream to append to.
+   * @param fromBlock The first block searched.
+   * @param toBlock The last block searched.
+   * @param events The events found within [fromBlock, toBlock].
+   * @note A range that does not overlap or adjoin the stored range replaces it, so the stored range is never sparse.
+   */
+  append(key: EventStoreKey, fromBlock: number, toBlock: number, events: StoredEvent[]): Promise<void>;
+
+  /**
+   * Discard all stored events and searched blocks after a block, i.e. following a chain reorg.
+   * @param key The event stream to rewind.
+   * @param toBlock The last block to retain.
+   * @note Optional, since clients only persist events once they are final. Stores that implement it allow clients to
+   * recover from reorgs that are deeper than the finality assumed for the chain.
+   */
+  rewind?(key: EventStoreKey, toBlock: number): Promise<void>;
+}
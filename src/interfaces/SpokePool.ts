@@ -48,6 +48,23 @@ export enum FillType {
   SlowFill,
 }
 
+export enum FillSimulationStatus {
+  Success = 0,
+  AlreadyFilled,
+  Expired,
+  NotExclusiveRelayer,
+  InsufficientBalance,
+  InsufficientAllowance,
+  MessageReverts,
+  Reverts,
+}
+
+export interface FillSimulationResult {
+  status: FillSimulationStatus;
+  // The revert reason, for fills that revert for reasons that are not otherwise identified.
+  error?: string;
+}
+
 export interface RelayExecutionEventInfo {
   updatedRecipient: string;
   updatedOutputAmount: BigNumber;
@@ -74,6 +91,8 @@ export interface SpeedUp {
   updatedMessage: string;
 }
 
+export interface SpeedUpWithBlock extends SpeedUp, SortableEvent {}
+
 export interface SlowFillRequest extends RelayData {
   destinationChainId: number;
 }
@@ -109,6 +128,12 @@ export interface RunningBalances {
   };
 }
 
+export interface EnabledDepositRouteWithBlock extends SortableEvent {
+  originToken: string;
+  destinationChainId: number;
+  enabled: boolean;
+}
+
 export interface TokensBridged extends SortableEvent {
   amountToReturn: BigNumber;
   chainId: number;
@@ -1,6 +1,14 @@
 import assert from "assert";
 import * as uma from "@uma/sdk";
-import { toBNWei, fixedPointAdjustment, calcPeriodicCompoundInterest, calcApr, BigNumberish, fromWei } from "../utils";
+import {
+  toBNWei,
+  fixedPointAdjustment,
+  calcPeriodicCompoundInterest,
+  calcApr,
+  BigNumberish,
+  fromWei,
+  registerViewSelectors,
+} from "../utils";
 import { ethers, Signer, BigNumber } from "ethers";
 import type { Overrides } from "@ethersproject/contracts";
 import { TransactionRequest, TransactionReceipt, Log } from "@ethersproject/abstract-provider";
@@ -115,15 +123,22 @@ class PoolState {
   constructor(
     private contract: hubPool.Instance,
     private address: string
-  ) {}
+  ) {
+    registerViewSelectors(contract.interface, ["pooledTokens"]);
+  }
   public async read(l1Token: string, latestBlock: number, previousBlock?: number) {
-    // typechain does not have complete types for call options, so we have to cast blockTag to any
-    const exchangeRatePrevious = await this.exchangeRateAtBlock(l1Token, previousBlock || latestBlock - 1);
-
-    const exchangeRateCurrent = await this.contract.callStatic.exchangeRateCurrent(l1Token);
-
-    const pooledToken: PooledToken = await this.contract.pooledTokens(l1Token);
-    const liquidityUtilizationCurrent: BigNumber = await this.contract.callStatic.liquidityUtilizationCurrent(l1Token);
+    // Read concurrently, so that the calls can be batched by a multicall provider.
+    const [exchangeRatePrevious, exchangeRateCurrent, pooledToken, liquidityUtilizationCurrent]: [
+      BigNumber,
+      BigNumber,
+      PooledToken,
+      BigNumber,
+    ] = await Promise.all([
+      this.exchangeRateAtBlock(l1Token, previousBlock || latestBlock - 1),
+      this.contract.callStatic.exchangeRateCurrent(l1Token),
+      this.contract.pooledTokens(l1Token),
+      this.contract.callStatic.liquidityUtilizationCurrent(l1Token),
+    ]);
 
     return {
       address: this.address,
@@ -232,7 +247,9 @@ class UserState {
     private userAddress: string,
     private startBlock = 0,
     private acceleratingDistributorContractAddress = ""
-  ) {}
+  ) {
+    registerViewSelectors(contract.interface, ["balanceOf"]);
+  }
   private makeId(params: EventIdParams): string {
     return uma.oracle.utils.eventKey(params);
   }
@@ -467,6 +484,7 @@ export class Client {
   public getOrCreateErc20Contract(address: string): uma.clients.erc20.Instance {
     if (this.erc20s[address]) return this.erc20s[address];
     this.erc20s[address] = erc20.connect(address, this.deps.provider);
+    registerViewSelectors(this.erc20s[address].interface, ["balanceOf", "allowance"]);
     return this.erc20s[address];
   }
   public getOrCreatePoolContract(): hubPool.Instance {
@@ -742,10 +760,12 @@ export class Client {
   ): Promise<void> {
     const { l1Token: l1TokenAddress, lpToken } = poolState;
     const { address: userAddress } = userState;
-    const transferValue = this.config.hasArchive
-      ? await this.calculateLpTransferValue(l1TokenAddress, userState)
-      : ethers.constants.Zero;
-    const stakeData = await this.resolveStakingData(lpToken, l1TokenAddress, userState);
+    const [transferValue, stakeData] = await Promise.all([
+      this.config.hasArchive
+        ? this.calculateLpTransferValue(l1TokenAddress, userState)
+        : Promise.resolve(ethers.constants.Zero),
+      this.resolveStakingData(lpToken, l1TokenAddress, userState),
+    ]);
     const tokenEventState = poolEventState[l1TokenAddress];
     const newUserState = this.setUserState(
       l1TokenAddress,
@@ -0,0 +1,154 @@
+import { providers } from "ethers";
+import { CACHING_FINALITY, DEFAULT_CACHING_FINALITY, DEFAULT_CACHING_TTL } from "../constants";
+import { CachingMechanismInterface } from "../interfaces";
+import { isDefined } from "../utils";
+
+export type CachedProviderConfig = {
+  // Number of blocks behind the chain head after which responses are cached. Defaults to the chain's CACHING_FINALITY.
+  finality: number;
+  // Time to live of cached responses, in seconds.
+  ttl: number;
+  // Prefix for all cache keys.
+  keyPrefix: string;
+};
+
+// Methods whose responses are immutable once the referenced block is final.
+const CACHED_METHODS = [
+  "eth_call",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getLogs",
+  "eth_getTransactionReceipt",
+];
+
+const parseBlockNumber = (blockTag: unknown): number | undefined =>
+  typeof blockTag === "string" && /^0x[0-9a-f]+$/i.test(blockTag) ? Number(blockTag) : undefined;
+
+/**
+ * CachedProvider wraps a JSON-RPC provider and stores immutable responses in a cache. A response is only cached once
+ * the block it references is at least `finality` blocks behind the chain head, so that it can not be affected by a
+ * reorg. Requests for data near the chain head, or by block tag (i.e. "latest"), are always forwarded to the provider.
+ */
+export class CachedProvider extends providers.StaticJsonRpcProvider {
+  readonly chainId: number;
+  readonly config: CachedProviderConfig;
+  private latestBlock = { blockNumber: 0, updated: 0 };
+
+  /**
+   * Creates a new CachedProvider.
+   * @param provider The underlying provider.
+   * @param network The network of the underlying provider.
+   * @param cache The cache in which to store finalized responses.
+   * @param config Optional overrides of the default cache configuration.
+   */
+  constructor(
+    readonly provider: providers.JsonRpcProvider,
+    network: providers.Networkish,
+    readonly cache: CachingMechanismInterface,
+    config: Partial<CachedProviderConfig> = {}
+  ) {
+    super(undefined, network);
+
+    const resolvedNetwork = providers.getNetwork(network);
+    if (!isDefined(resolvedNetwork)) {
+      throw new Error(`Unable to resolve network ${network}`);
+    }
+    this.chainId = resolvedNetwork.chainId;
+
+    this.config = {
+      finality: CACHING_FINALITY[this.chainId] ?? DEFAULT_CACHING_FINALITY,
+      ttl: DEFAULT_CACHING_TTL,
+      keyPrefix: "rpc",
+      ...config,
+    };
+
+    const { finality, ttl } = this.config;
+    if (!Number.isInteger(finality) || finality < 1 || ttl <= 0) {
+      throw new Error(`Invalid cache configuration (finality: ${finality}, ttl: ${ttl})`);
+    }
+  }
+
+  override async send(method: string, params: Array<unknown>): Promise<unknown> {
+    if (!CACHED_METHODS.includes(method)) {
+      return this.provider.send(method, params);
+    }
+
+    const key = this.getCacheKey(method, params);
+    const cachedResult = await this.cache.get<string>(key);
+    if (isDefined(cachedResult)) {
+      return JSON.parse(cachedResult);
+    }
+
+    const result = await this.provider.send(method, params);
+    const blockNumber = this.getResponseBlockNumber(method, params, result);
+    if (isDefined(blockNumber) && (await this.isFinal(blockNumber))) {
+      await this.cache.set(key, JSON.stringify(result), this.config.ttl);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the cache key for a JSON-RPC request.
+   * @param method The JSON-RPC method.
+   * @param params The JSON-RPC params.
+   * @returns The cache key.
+   */
+  protected getCacheKey(method: string, params: Array<unknown>): string {
+    return `${this.config.keyPrefix},${this.chainId},${method},${JSON.stringify(params)}`;
+  }
+
+  /**
+   * Resolve the block that a JSON-RPC response depends on.
+   * @param method The JSON-RPC method.
+   * @param params The JSON-RPC params.
+   * @param result The JSON-RPC result.
+   * @returns The number of the most recent block referenced by the request or result, or undefined if the response
+   * can not be cached (i.e. it was requested by block tag or hash, or was not found).
+   */
+  protected getResponseBlockNumber(method: string, params: Array<unknown>, result: unknown): number | undefined {
+    if (!isDefined(result)) {
+      return undefined;
+    }
+
+    switch (method) {
+      case "eth_call":
+        return parseBlockNumber(params[1]);
+      case "eth_getBlockByNumber":
+        return parseBlockNumber(params[0]);
+      case "eth_getBlockByHash":
+        return parseBlockNumber((result as { number?: unknown }).number);
+      case "eth_getTransactionReceipt":
+        return parseBlockNumber((result as { blockNumber?: unknown }).blockNumber);
+      case "eth_getLogs": {
+        // Logs are only immutable if the block range is fixed at both ends.
+        const { fromBlock, toBlock } = (params[0] ?? {}) as { fromBlock?: unknown; toBlock?: unknown };
+        return isDefined(parseBlockNumber(fromBlock)) ? parseBlockNumber(toBlock) : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Determine whether a block is at least `finality` blocks behind the chain head. The chain head is only refreshed
+   * when a block can not be confirmed as final against the most recently known head, and at most once per polling
+   * interval.
+   * @param blockNumber The block number to check.
+   * @returns True if the block is final.
+   */
+  protected async isFinal(blockNumber: number): Promise<boolean> {
+    const { finality } = this.config;
+    if (blockNumber <= this.latestBlock.blockNumber - finality) {
+      return true;
+    }
+
+    const now = Date.now();
+    if (now - this.latestBlock.updated >= this.pollingInterval) {
+      const latestBlock = Number(await this.provider.send("eth_blockNumber", []));
+      this.latestBlock = { blockNumber: Math.max(latestBlock, this.latestBlock.blockNumber), updated: now };
+    }
+
+    return blockNumber <= this.latestBlock.blockNumber - finality;
+  }
+}
@@ -0,0 +1,196 @@
+import { Contract, providers, utils } from "ethers";
+import { chunk, getABI, isDefined, isRegisteredViewSelector, multicall3Addresses } from "../utils";
+import { toRevertError } from "./utils";
+
+export type MulticallProviderConfig = {
+  // Maximum number of calls to aggregate into a single eth_call.
+  maxBatchSize: number;
+  // Milliseconds to wait for further calls before a batch is sent.
+  batchDelay: number;
+  // Address of the Multicall3 deployment. Defaults to the known deployment on the chain, if any.
+  multicall3Address?: string;
+  // Function selectors of view and pure functions that may be batched, in addition to those registered by SDK clients
+  // via registerViewSelectors(). See getViewSelectors().
+  viewSelectors: string[];
+};
+
+export const DEFAULT_MULTICALL_PROVIDER_CONFIG: MulticallProviderConfig = {
+  maxBatchSize: 250,
+  batchDelay: 0,
+  viewSelectors: [],
+};
+
+/**
+ * Resolve the function selectors of all view and pure functions of a contract interface.
+ * @param contractInterface The contract interface.
+ * @returns The 4-byte function selectors of the view and pure functions of the interface.
+ */
+export function getViewSelectors(contractInterface: utils.Interface): string[] {
+  return Object.values(contractInterface.functions)
+    .filter(({ stateMutability }) => ["view", "pure"].includes(stateMutability))
+    .map((fragment) => contractInterface.getSighash(fragment));
+}
+
+type PendingCall = {
+  to: string;
+  data: string;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type Aggregate3Result = { success: boolean; returnData: string };
+
+/**
+ * MulticallProvider wraps a JSON-RPC provider and transparently batches concurrent eth_calls into a single Multicall3
+ * aggregate3() call. Calls made within `batchDelay` of each other at the same block tag are batched together, and each
+ * call is permitted to fail independently. Reverting calls are rejected with the same error as an individual eth_call,
+ * such that they are decoded as usual by ethers contracts.
+ * @note Only calls that specify nothing other than `to` and `data` are batched, since Multicall3 is the sender of each
+ * aggregated call. Calls that specify a sender, value or gas limit are forwarded to the underlying provider.
+ * @note Batching is opt-in per function selector, via `viewSelectors` or registerViewSelectors(). The SDK clients
+ * register the view functions that they read (i.e. HubPool.pooledTokens, SpokePool.fillStatuses and ERC20 balances
+ * and allowances). Aggregated calls execute in sequence within the same call, so a non-view call (i.e. a callStatic to
+ * a state-changing function) would leak its state changes into the results of the calls that follow it. Calls to any
+ * other function are forwarded to the underlying provider.
+ */
+export class MulticallProvider extends providers.StaticJsonRpcProvider {
+  readonly chainId: number;
+  readonly config: MulticallProviderConfig;
+  private readonly pendingCalls: { [blockTag: string]: PendingCall[] } = {};
+  private readonly viewSelectors: Set<string>;
+  private multicall3?: Promise<utils.Interface>;
+
+  /**
+   * Creates a new MulticallProvider.
+   * @param provider The underlying provider.
+   * @param network The network of the underlying provider.
+   * @param config Optional overrides of DEFAULT_MULTICALL_PROVIDER_CONFIG.
+   */
+  constructor(
+    readonly provider: providers.JsonRpcProvider,
+    network: providers.Networkish,
+    config: Partial<MulticallProviderConfig> = {}
+  ) {
+    super(undefined, network);
+
+    const resolvedNetwork = providers.getNetwork(network);
+    if (!isDefined(resolvedNetwork)) {
+      throw new Error(`Unable to resolve network ${network}`);
+    }
+    this.chainId = resolvedNetwork.chainId;
+
+    this.config = {
+      ...DEFAULT_MULTICALL_PROVIDER_CONFIG,
+      multicall3Address: multicall3Addresses[this.chainId],
+      ...config,
+    };
+
+    const { maxBatchSize, batchDelay } = this.config;
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1 || batchDelay < 0) {
+      throw new Error(`Invalid multicall configuration (maxBatchSize: ${maxBatchSize}, batchDelay: ${batchDelay})`);
+    }
+    this.viewSelectors = new Set(this.config.viewSelectors.map((selector) => selector.toLowerCase()));
+  }
+
+  override send(method: string, params: Array<unknown>): Promise<unknown> {
+    const [transaction, blockTag = "latest"] = params;
+    if (method !== "eth_call" || !this.isBatchable(transaction) || typeof blockTag !== "string") {
+      return this.provider.send(method, params);
+    }
+
+    return new Promise((resolve, reject) => {
+      const { to, data } = transaction;
+      const pendingCalls = (this.pendingCalls[blockTag] ??= []);
+      pendingCalls.push({ to, data, resolve, reject });
+
+      // The first call in a batch schedules the batch to be sent.
+      if (pendingCalls.length === 1) {
+        setTimeout(() => void this.flush(blockTag), this.config.batchDelay);
+      }
+    });
+  }
+
+  /**
+   * Determine whether an eth_call can be aggregated via Multicall3.
+   * @param transaction The eth_call transaction object.
+   * @returns True if the call can be batched.
+   */
+  protected isBatchable(transaction: unknown): transaction is { to: string; data: string } {
+    const { multicall3Address } = this.config;
+    if (!isDefined(multicall3Address) || typeof transaction !== "object" || transaction === null) {
+      return false;
+    }
+
+    const { to, data } = transaction as { to?: unknown; data?: unknown };
+    if (typeof to !== "string" || typeof data !== "string") {
+      return false;
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+    return (
+      (this.viewSelectors.has(selector) || isRegisteredViewSelector(selector)) &&
+      to.toLowerCase() !== multicall3Address.toLowerCase() &&
+      Object.keys(transaction).every((field) => ["to", "data"].includes(field))
+    );
+  }
+
+  /**
+   * Send all pending calls for a block tag.
+   * @param blockTag The block tag of the pending calls.
+   */
+  protected async flush(blockTag: string): Promise<void> {
+    const pendingCalls = this.pendingCalls[blockTag];
+    delete this.pendingCalls[blockTag];
+
+    await Promise.all(chunk(pendingCalls, this.config.maxBatchSize).map((calls) => this.sendBatch(calls, blockTag)));
+  }
+
+  /**
+   * Send a batch of calls as a single aggregate3() call, and settle each call with its individual result. If the
+   * aggregate call fails as a whole (i.e. due to the gas limit of the RPC provider), each call is sent individually.
+   * @param calls The calls to send.
+   * @param blockTag The block tag of the calls.
+   */
+  protected async sendBatch(calls: PendingCall[], blockTag: string): Promise<void> {
+    if (calls.length === 1) {
+      const [{ to, data, resolve, reject }] = calls;
+      await this.provider.send("eth_call", [{ to, data }, blockTag]).then(resolve, reject);
+      return;
+    }
+
+    let results: Aggregate3Result[];
+    try {
+      const multicall3 = await this.getMulticall3();
+      const aggregateCalls = calls.map(({ to, data }) => ({ target: to, allowFailure: true, callData: data }));
+      const transaction = {
+        to: this.config.multicall3Address,
+        data: multicall3.encodeFunctionData("aggregate3", [aggregateCalls]),
+      };
+      const result = await this.provider.send("eth_call", [transaction, blockTag]);
+      [results] = multicall3.decodeFunctionResult("aggregate3", result);
+    } catch {
+      await Promise.all(calls.map((call) => this.sendBatch([call], blockTag)));
+      return;
+    }
+
+    results.forEach(({ success, returnData }, idx) => {
+      const { resolve, reject } = calls[idx];
+      if (success) {
+        resolve(returnData);
+      } else {
+        reject(toRevertError(returnData));
+      }
+    });
+  }
+
+  private getMulticall3(): Promise<utils.Interface> {
+    // Discard a failed lookup, such that it is retried on the next batch.
+    this.multicall3 ??= getABI("Multicall3")
+      .then((abi) => Contract.getInterface(abi))
+      .catch((error) => {
+        this.multicall3 = undefined;
+        throw error;
+      });
+    return this.multicall3;
+  }
+}
@@ -0,0 +1,223 @@
+import { providers } from "ethers";
+import { delay } from "../utils";
+import { compareRpcResults, isDeterministicRpcError } from "./utils";
+
+export type RetryProviderConfig = {
+  // Number of times to retry a request after it has failed on every provider.
+  retries: number;
+  // Seconds to wait before the first retry. The delay doubles on each subsequent retry.
+  retryDelay: number;
+  // Maximum number of in-flight requests per provider. Further requests are queued.
+  maxConcurrency: number;
+  // Maximum number of requests sent to each provider within any one second. Further requests are delayed.
+  maxRequestsPerSecond: number;
+  // Number of providers that must return matching results for a quorum method.
+  nodeQuorumThreshold: number;
+  // JSON-RPC methods whose results must be confirmed by a quorum of providers.
+  quorumMethods: string[];
+};
+
+export const DEFAULT_RETRY_PROVIDER_CONFIG: RetryProviderConfig = {
+  retries: 2,
+  retryDelay: 1,
+  maxConcurrency: 25,
+  maxRequestsPerSecond: Number.POSITIVE_INFINITY,
+  nodeQuorumThreshold: 1,
+  quorumMethods: ["eth_getLogs"],
+};
+
+type RpcResult = { result: unknown; error?: undefined } | { result?: undefined; error: unknown };
+
+/**
+ * Limits the number of concurrent requests to a single provider, and the rate at which requests are sent to it.
+ */
+class RequestQueue {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+  // Send times of the requests made within the past second, in ascending order.
+  private readonly sendTimes: number[] = [];
+
+  constructor(
+    readonly maxConcurrency: number,
+    readonly maxRequestsPerSecond: number
+  ) {}
+
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    // A queued request inherits the slot of the request that completes before it.
+    if (this.active >= this.maxConcurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      ++this.active;
+    }
+
+    try {
+      await this.throttle();
+      return await request();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        --this.active;
+      }
+    }
+  }
+
+  // Wait until fewer than maxRequestsPerSecond requests have been sent within the past second.
+  private async throttle(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.sendTimes.length > 0 && this.sendTimes[0] <= now - 1000) {
+        this.sendTimes.shift();
+      }
+      if (this.sendTimes.length < this.maxRequestsPerSecond) {
+        this.sendTimes.push(now);
+        return;
+      }
+      await delay((this.sendTimes[0] + 1000 - now) / 1000);
+    }
+  }
+}
+
+/**
+ * RetryProvider wraps a set of JSON-RPC providers for the same chain. Requests fail over between providers in order,
+ * and are retried with exponential backoff once every provider has failed. Quorum methods are sent to multiple
+ * providers, and their results are only accepted once `nodeQuorumThreshold` providers agree. This ensures that a
+ * single provider cannot silently omit events from an eth_getLogs query.
+ * @note Contract reverts are deterministic, so they are thrown immediately without failover or retries.
+ */
+export class RetryProvider extends providers.StaticJsonRpcProvider {
+  readonly config: RetryProviderConfig;
+  protected readonly queues: RequestQueue[];
+
+  /**
+   * Creates a new RetryProvider.
+   * @param rpcProviders The underlying providers, in order of preference.
+   * @param network The network of the underlying providers.
+   * @param config Optional overrides of DEFAULT_RETRY_PROVIDER_CONFIG.
+   */
+  constructor(
+    readonly rpcProviders: providers.JsonRpcProvider[],
+    network: providers.Networkish,
+    config: Partial<RetryProviderConfig> = {}
+  ) {
+    super(undefined, network);
+    this.config = { ...DEFAULT_RETRY_PROVIDER_CONFIG, ...config };
+
+    const { retries, retryDelay, maxConcurrency, maxRequestsPerSecond, nodeQuorumThreshold } = this.config;
+    if (rpcProviders.length === 0) {
+      throw new Error("RetryProvider requires at least one provider");
+    }
+    if (
+      !Number.isInteger(nodeQuorumThreshold) ||
+      nodeQuorumThreshold < 1 ||
+      nodeQuorumThreshold > rpcProviders.length
+    ) {
+      throw new Error(`Invalid quorum threshold ${nodeQuorumThreshold} for ${rpcProviders.length} providers`);
+    }
+    if (!Number.isInteger(retries) || retries < 0 || retryDelay < 0) {
+      throw new Error(`Invalid retry configuration (retries: ${retries}, retryDelay: ${retryDelay})`);
+    }
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error(`Invalid max concurrency ${maxConcurrency}`);
+    }
+    if (Number.isNaN(maxRequestsPerSecond) || maxRequestsPerSecond < 1) {
+      throw new Error(`Invalid max requests per second ${maxRequestsPerSecond}`);
+    }
+
+    this.queues = rpcProviders.map(() => new RequestQueue(maxConcurrency, maxRequestsPerSecond));
+  }
+
+  override async send(method: string, params: Array<unknown>): Promise<unknown> {
+    const { retries, retryDelay, quorumMethods } = this.config;
+    const quorum = quorumMethods.includes(method);
+
+    for (let attempt = 0; ; ++attempt) {
+      try {
+        return quorum ? await this.sendWithQuorum(method, params) : await this.sendWithFailover(method, params);
+      } catch (err) {
+        if (attempt >= retries || isDeterministicRpcError(err)) {
+          throw err;
+        }
+        await delay(retryDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Send a request to each provider in turn, until one succeeds.
+   * @param method The JSON-RPC method.
+   * @param params The JSON-RPC params.
+   * @returns The result from the first provider to succeed.
+   * @throws The error from the last provider, if all providers fail.
+   */
+  protected async sendWithFailover(method: string, params: Array<unknown>): Promise<unknown> {
+    let error: unknown;
+    for (let idx = 0; idx < this.rpcProviders.length; ++idx) {
+      const response = await this.sendToProvider(idx, method, params);
+      if (response.error === undefined) {
+        return response.result;
+      }
+      if (isDeterministicRpcError(response.error)) {
+        throw response.error;
+      }
+      error = response.error;
+    }
+
+    throw error;
+  }
+
+  /**
+   * Send a request to `nodeQuorumThreshold` providers, and to further providers one at a time until a quorum of
+   * matching results is found.
+   * @param method The JSON-RPC method.
+   * @param params The JSON-RPC params.
+   * @returns The result agreed by the quorum.
+   * @throws If no quorum can be reached, or the error from the first provider if all providers fail.
+   */
+  protected async sendWithQuorum(method: string, params: Array<unknown>): Promise<unknown> {
+    const { nodeQuorumThreshold } = this.config;
+    const responses = await Promise.all(
+      this.rpcProviders.slice(0, nodeQuorumThreshold).map((_, idx) => this.sendToProvider(idx, method, params))
+    );
+
+    for (let idx = nodeQuorumThreshold; ; ++idx) {
+      const results = responses.filter(({ error }) => error === undefined).map(({ result }) => result);
+      const agreed = results.find(
+        (result) => results.filter((other) => compareRpcResults(method, result, other)).length >= nodeQuorumThreshold
+      );
+      if (agreed !== undefined) {
+        return agreed;
+      }
+
+      if (idx === this.rpcProviders.length) {
+        if (results.length === 0) {
+          throw responses[0].error;
+        }
+        const nErrors = responses.length - results.length;
+        throw new Error(
+          `Unable to reach quorum of ${nodeQuorumThreshold} providers for ${method}` +
+            ` (${results.length} mismatched results, ${nErrors} errors)`
+        );
+      }
+
+      responses.push(await this.sendToProvider(idx, method, params));
+    }
+  }
+
+  /**
+   * Send a request to a single provider, subject to its concurrency and rate limits.
+   * @param idx The index of the provider.
+   * @param method The JSON-RPC method.
+   * @param params The JSON-RPC params.
+   * @returns The result or error from the provider.
+   */
+  protected async sendToProvider(idx: number, method: string, params: Array<unknown>): Promise<RpcResult> {
+    try {
+      const result = await this.queues[idx].run(() => this.rpcProviders[idx].send(method, params));
+      return { result };
+    } catch (error) {
+      return { error };
+    }
+  }
+}
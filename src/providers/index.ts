@@ -0,0 +1,4 @@
+export * from "./CachedProvider";
+export * from "./MulticallProvider";
+export * from "./RetryProvider";
+export * from "./utils";
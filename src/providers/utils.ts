@@ -0,0 +1,68 @@
+import { isEqual, isEqualWith, pick } from "lodash";
+import { utils } from "ethers";
+import { isDefined } from "../utils";
+
+// Canonical fields of an eth_getLogs result. Some RPC providers append non-standard fields (e.g. block timestamps).
+const LOG_FIELDS = ["address", "blockHash", "blockNumber", "data", "logIndex", "topics", "transactionHash"];
+
+/**
+ * Compare the results of the same JSON-RPC request made to different providers.
+ * @param method The JSON-RPC method.
+ * @param resultA The result returned by the first provider.
+ * @param resultB The result returned by the second provider.
+ * @returns True if the results are equivalent.
+ */
+export function compareRpcResults(method: string, resultA: unknown, resultB: unknown): boolean {
+  if (method === "eth_getLogs" && Array.isArray(resultA) && Array.isArray(resultB)) {
+    // Hex strings may differ in case between providers, so string fields are compared case-insensitively.
+    return isEqualWith(
+      resultA.map((log) => pick(log, LOG_FIELDS)),
+      resultB.map((log) => pick(log, LOG_FIELDS)),
+      (a, b) => (typeof a === "string" && typeof b === "string" ? a.toLowerCase() === b.toLowerCase() : undefined)
+    );
+  }
+
+  return isEqual(resultA, resultB);
+}
+
+// JSON-RPC error code returned for reverted calls and gas estimates (EIP-1474).
+const EXECUTION_REVERTED_CODE = 3;
+
+/**
+ * Determine whether a JSON-RPC error is deterministic, such that the same request would fail on any provider.
+ * @param error The error thrown by a provider.
+ * @returns True if the error is a contract revert.
+ * @note Some providers return reverts with a generic error code, so the error message is also inspected. Other errors
+ * may carry data (e.g. rate limit details), so the presence of error data alone does not identify a revert.
+ */
+export function isDeterministicRpcError(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  return code === EXECUTION_REVERTED_CODE || (typeof message === "string" && /execution reverted/i.test(message));
+}
+
+// Selectors of the Solidity Error(string) and Panic(uint256) revert reasons.
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/**
+ * Construct the error that a JSON-RPC provider returns for a reverted eth_call, including the decoded revert reason.
+ * @param returnData The revert data of the call.
+ * @returns An error with the revert data attached, such that ethers contracts decode it as a CALL_EXCEPTION.
+ */
+export function toRevertError(returnData: string): Error {
+  let reason: string | undefined;
+  try {
+    const [selector, args] = [returnData.slice(0, 10), `0x${returnData.slice(10)}`];
+    if (selector === ERROR_SELECTOR) {
+      [reason] = utils.defaultAbiCoder.decode(["string"], args);
+    } else if (selector === PANIC_SELECTOR) {
+      const [code] = utils.defaultAbiCoder.decode(["uint256"], args);
+      reason = `panic code ${code.toHexString()}`;
+    }
+  } catch {
+    // Malformed revert data; no reason can be decoded.
+  }
+
+  const message = isDefined(reason) ? `execution reverted: ${reason}` : "execution reverted";
+  return Object.assign(new Error(message), { code: 3, data: returnData });
+}
@@ -0,0 +1,158 @@
+import { BigNumber } from "ethers";
+import { BridgeLimitsReturnType } from "../apiClient/types";
+import { BundleDataClient, HubPoolClient } from "../clients";
+import { bnZero, buildPoolRebalanceLeafTree, isDefined, max, min, toBNWei } from "../utils";
+import { DepositQuoteHubPoolClient, getDepositQuote } from "./depositQuote";
+import { RelayFeeCalculator } from "./relayFeeCalculator";
+
+// The subset of HubPoolClient that is required to compute bridge limits.
+export type BridgeLimitsHubPoolClient = DepositQuoteHubPoolClient &
+  Pick<
+    HubPoolClient,
+    | "chainId"
+    | "latestBlockSearched"
+    | "hasPendingProposal"
+    | "getLatestProposedRootBundle"
+    | "getExecutedLeavesForRootBundle"
+    | "getLpTokenInfoForL1Token"
+    | "getTokenInfoForL1Token"
+    | "getL2TokenForL1TokenAtBlock"
+  >;
+
+// The subset of BundleDataClient that is required to rebuild the pending root bundle.
+export type BridgeLimitsBundleDataClient = Pick<BundleDataClient, "buildRootBundleLeavesForRootBundle">;
+
+export interface RelayerInventorySnapshot {
+  relayer: string;
+  balances: Record<number, BigNumber>; // Token balance on each chain, in units of the L1 token.
+}
+
+/**
+ * Computes deposit limits for a route from state that the SDK already holds, as an alternative to the hosted limits API.
+ * - minDeposit is the smallest deposit that does not exceed the RelayFeeCalculator's fee limit.
+ * - maxDeposit is bounded by HubPool liquid reserves, less any funds committed to SpokePools by the pending root
+ *   bundle (see `getPendingNetSendAmounts()`). Deposits up to this size can be slow filled.
+ * - maxDepositInstant is bounded by the largest balance held by a single relayer on the destination chain.
+ * - maxDepositShortDelay is bounded by the combined relayer balances on the destination and hub chains, such that
+ *   relayers may rebalance inventory before filling.
+ * @note All amounts are denominated in units of the L1 token.
+ */
+export class BridgeLimitsCalculator {
+  /**
+   * @param hubPoolClient An updated HubPoolClient.
+   * @param relayFeeCalculator A RelayFeeCalculator for the destination chain.
+   * @param bundleDataClient A BundleDataClient, used to rebuild the leaves of the pending root bundle.
+   * @param relayerInventory Snapshots of relayer inventory. These can be replaced via `setRelayerInventory()`.
+   */
+  constructor(
+    readonly hubPoolClient: BridgeLimitsHubPoolClient,
+    readonly relayFeeCalculator: Pick<RelayFeeCalculator, "relayerFeeDetails">,
+    readonly bundleDataClient: BridgeLimitsBundleDataClient,
+    protected relayerInventory: RelayerInventorySnapshot[] = []
+  ) {}
+
+  /**
+   * Replace the relayer inventory snapshots used to compute instant and short delay limits.
+   * @param relayerInventory Snapshots of relayer inventory.
+   */
+  setRelayerInventory(relayerInventory: RelayerInventorySnapshot[]): void {
+    this.relayerInventory = relayerInventory;
+  }
+
+  /**
+   * Resolve the amounts that the pending root bundle will send from the HubPool to each chain's SpokePool. These are
+   * the positive net send amounts of the pending bundle's PoolRebalanceLeaves that have not yet been executed. Funds
+   * sent by executed leaves have already left the HubPool's liquid reserves.
+   * @param l1Token The HubPool token.
+   * @returns The amount of `l1Token` still to be sent to each chain, or an empty object if no bundle is pending.
+   * @throws If the rebuilt PoolRebalanceLeaves do not match the pending root bundle.
+   */
+  async getPendingNetSendAmounts(l1Token: string): Promise<Record<number, BigNumber>> {
+    const { hubPoolClient } = this;
+    if (!hubPoolClient.hasPendingProposal()) {
+      return {};
+    }
+
+    const rootBundle = hubPoolClient.getLatestProposedRootBundle();
+    const { poolRebalanceLeaves } = await this.bundleDataClient.buildRootBundleLeavesForRootBundle(rootBundle);
+    const poolRebalanceRoot = buildPoolRebalanceLeafTree(poolRebalanceLeaves).getHexRoot();
+    if (poolRebalanceRoot.toLowerCase() !== rootBundle.poolRebalanceRoot.toLowerCase()) {
+      throw new Error(`Unable to rebuild the PoolRebalanceLeaves of root bundle proposed at ${rootBundle.blockNumber}`);
+    }
+
+    const executedLeafIds = hubPoolClient
+      .getExecutedLeavesForRootBundle(rootBundle, hubPoolClient.latestBlockSearched)
+      .map(({ leafId }) => leafId);
+
+    const netSendAmounts: Record<number, BigNumber> = {};
+    poolRebalanceLeaves
+      .filter(({ leafId }) => !executedLeafIds.includes(leafId))
+      .forEach((leaf) => {
+        const idx = leaf.l1Tokens.findIndex((token) => token.toLowerCase() === l1Token.toLowerCase());
+        if (idx !== -1 && leaf.netSendAmounts[idx].gt(bnZero)) {
+          netSendAmounts[leaf.chainId] = (netSendAmounts[leaf.chainId] ?? bnZero).add(leaf.netSendAmounts[idx]);
+        }
+      });
+
+    return netSendAmounts;
+  }
+
+  /**
+   * Compute the deposit limits for a route.
+   * @param l1Token The HubPool token being bridged.
+   * @param originChainId The origin chain of the deposit.
+   * @param destinationChainId The destination chain of the deposit.
+   * @param pendingNetSendAmounts Optional override of the amounts still to be sent to each chain by the pending root
+   * bundle. Positive amounts are committed to SpokePools, and are unavailable for new deposits. Defaults to the amounts
+   * resolved by `getPendingNetSendAmounts()`.
+   * @returns The deposit limits for the route.
+   */
+  async getBridgeLimits(
+    l1Token: string,
+    originChainId: number,
+    destinationChainId: number,
+    pendingNetSendAmounts?: Record<number, BigNumber>
+  ): Promise<BridgeLimitsReturnType> {
+    const { hubPoolClient } = this;
+    const lpToken = hubPoolClient.getLpTokenInfoForL1Token(l1Token);
+    const tokenInfo = hubPoolClient.getTokenInfoForL1Token(l1Token);
+    if (!isDefined(lpToken) || !isDefined(tokenInfo)) {
+      throw new Error(`No HubPool liquidity for L1 token ${l1Token}`);
+    }
+
+    // The fee limit is determined for a nominal deposit of a single token.
+    const inputToken = hubPoolClient.getL2TokenForL1TokenAtBlock(l1Token, originChainId);
+    const { relayerFeeDetails } = await getDepositQuote(hubPoolClient, this.relayFeeCalculator, {
+      originChainId,
+      destinationChainId,
+      inputToken,
+      inputAmount: toBNWei("1", tokenInfo.decimals),
+    });
+    const minDeposit = BigNumber.from(relayerFeeDetails.minDeposit);
+
+    const netSendAmounts = pendingNetSendAmounts ?? (await this.getPendingNetSendAmounts(l1Token));
+    const committedReserves = Object.values(netSendAmounts)
+      .filter((netSendAmount) => netSendAmount.gt(bnZero))
+      .reduce((sum, netSendAmount) => sum.add(netSendAmount), bnZero);
+    const maxDeposit = max(lpToken.liquidReserves.sub(committedReserves), bnZero);
+
+    const destinationBalances = this.relayerInventory.map(({ balances }) => balances[destinationChainId] ?? bnZero);
+    const hubBalances =
+      destinationChainId === hubPoolClient.chainId
+        ? []
+        : this.relayerInventory.map(({ balances }) => balances[hubPoolClient.chainId] ?? bnZero);
+
+    const maxDepositInstant = destinationBalances.reduce((largest, balance) => max(largest, balance), bnZero);
+    const maxDepositShortDelay = [...destinationBalances, ...hubBalances].reduce(
+      (sum, balance) => sum.add(balance),
+      bnZero
+    );
+
+    return {
+      minDeposit,
+      maxDeposit,
+      maxDepositInstant: min(maxDepositInstant, maxDeposit),
+      maxDepositShortDelay: min(maxDepositShortDelay, maxDeposit),
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { BigNumber } from "ethers";
+import { AcrossConfigStoreClient, HubPoolClient } from "../clients";
+import { DEFAULT_SIMULATED_RELAYER_ADDRESS, EMPTY_MESSAGE, ZERO_ADDRESS } from "../constants";
+import { Deposit } from "../interfaces";
+import { bnZero, fixedPointAdjustment, isDefined, max } from "../utils";
+import { RelayFeeCalculator, RelayerFeeDetails } from "./relayFeeCalculator";
+
+// The subset of HubPoolClient that is required to quote a deposit.
+export type DepositQuoteHubPoolClient = Pick<
+  HubPoolClient,
+  "blockFinder" | "currentTime" | "deploymentBlock" | "batchComputeRealizedLpFeePct" | "getL2TokenForDeposit"
+> & { configStoreClient: Pick<AcrossConfigStoreClient, "isChainLiteChainAtTimestamp"> };
+
+export interface DepositQuoteRequest {
+  originChainId: number;
+  destinationChainId: number;
+  inputToken: string;
+  inputAmount: BigNumber;
+  outputToken?: string; // Defaults to the inputToken counterpart on the destination chain.
+  depositor?: string;
+  recipient?: string;
+  message?: string;
+}
+
+export interface DepositQuoteConfig {
+  quoteTimeBuffer?: number; // Age of the quoteTimestamp relative to the HubPool's current time, in seconds.
+  fillDeadlineBuffer?: number; // Time after the HubPool's current time at which the deposit expires, in seconds.
+  exclusiveRelayer?: string;
+  exclusivityPeriod?: number; // Duration of the exclusive relayer window, in seconds.
+  relayerAddress?: string; // Relayer to simulate fills with.
+}
+
+export interface DepositQuote {
+  quoteTimestamp: number;
+  quoteBlock: number;
+  inputAmount: BigNumber;
+  outputToken: string;
+  outputAmount: BigNumber;
+  realizedLpFeePct: BigNumber;
+  lpFeeTotal: BigNumber;
+  relayerFeeDetails: RelayerFeeDetails;
+  totalFeePct: BigNumber;
+  totalFeeTotal: BigNumber;
+  fillDeadline: number;
+  exclusiveRelayer: string;
+  exclusivityDeadline: number;
+  isAmountTooLow: boolean;
+}
+
+export const DEFAULT_QUOTE_TIME_BUFFER = 60;
+export const DEFAULT_FILL_DEADLINE_BUFFER = 4 * 60 * 60;
+
+/**
+ * Quote a deposit locally, as an alternative to the hosted suggested-fees API. The outputAmount is the inputAmount
+ * less the realized LP fee and the relayer fee.
+ * @param hubPoolClient An updated HubPoolClient, used to resolve the quote block, the output token and the LP fee.
+ * @param relayFeeCalculator A RelayFeeCalculator for the destination chain.
+ * @param request The deposit to quote.
+ * @param config Optional quote configuration.
+ * @returns A complete deposit quote.
+ * @note The input and output tokens are assumed to be equivalent and to have the same number of decimals.
+ */
+export async function getDepositQuote(
+  hubPoolClient: DepositQuoteHubPoolClient,
+  relayFeeCalculator: Pick<RelayFeeCalculator, "relayerFeeDetails">,
+  request: DepositQuoteRequest,
+  config: DepositQuoteConfig = {}
+): Promise<DepositQuote> {
+  const { originChainId, destinationChainId, inputToken, inputAmount } = request;
+  const { currentTime } = hubPoolClient;
+  if (!isDefined(currentTime)) {
+    throw new Error("HubPoolClient has not set a currentTime");
+  }
+
+  const {
+    quoteTimeBuffer = DEFAULT_QUOTE_TIME_BUFFER,
+    fillDeadlineBuffer = DEFAULT_FILL_DEADLINE_BUFFER,
+    exclusivityPeriod = 0,
+    relayerAddress = DEFAULT_SIMULATED_RELAYER_ADDRESS,
+  } = config;
+  // An exclusive relayer window is only applied if both the relayer and the period are configured.
+  const isExclusive = isDefined(config.exclusiveRelayer) && exclusivityPeriod > 0;
+  const exclusiveRelayer = isExclusive ? config.exclusiveRelayer ?? ZERO_ADDRESS : ZERO_ADDRESS;
+
+  // Quote against a HubPool block that is slightly behind the head, such that the quoteTimestamp is accepted by the
+  // origin SpokePool and the LP fee can be reproduced by the dataworker.
+  const { number: quoteBlock, timestamp: quoteTimestamp } = await hubPoolClient.blockFinder.getBlockForTimestamp(
+    currentTime - quoteTimeBuffer,
+    { lowBlock: hubPoolClient.deploymentBlock }
+  );
+
+  const outputToken =
+    request.outputToken ??
+    hubPoolClient.getL2TokenForDeposit({ originChainId, destinationChainId, inputToken, quoteBlockNumber: quoteBlock });
+
+  // Fills of lite chain deposits are refunded on the origin chain, so the LP fee is computed for that repayment chain.
+  const { configStoreClient } = hubPoolClient;
+  const fromLiteChain = configStoreClient.isChainLiteChainAtTimestamp(originChainId, quoteTimestamp);
+  const paymentChainId = fromLiteChain ? originChainId : destinationChainId;
+  const [{ realizedLpFeePct }] = await hubPoolClient.batchComputeRealizedLpFeePct([
+    { originChainId, inputToken, inputAmount, quoteTimestamp, paymentChainId },
+  ]);
+  const lpFeeTotal = inputAmount.mul(realizedLpFeePct).div(fixedPointAdjustment);
+
+  const fillDeadline = currentTime + fillDeadlineBuffer;
+  const exclusivityDeadline = isExclusive ? currentTime + exclusivityPeriod : 0;
+  const deposit: Deposit = {
+    depositId: 0,
+    originChainId,
+    destinationChainId,
+    depositor: request.depositor ?? relayerAddress,
+    recipient: request.recipient ?? relayerAddress,
+    inputToken,
+    inputAmount,
+    outputToken,
+    outputAmount: inputAmount,
+    message: request.message ?? EMPTY_MESSAGE,
+    quoteTimestamp,
+    fillDeadline,
+    exclusiveRelayer,
+    exclusivityDeadline,
+    fromLiteChain,
+    toLiteChain: configStoreClient.isChainLiteChainAtTimestamp(destinationChainId, quoteTimestamp),
+  };
+
+  const relayerFeeDetails = await relayFeeCalculator.relayerFeeDetails(deposit, inputAmount, false, relayerAddress);
+  const totalFeePct = realizedLpFeePct.add(relayerFeeDetails.relayFeePercent);
+  const totalFeeTotal = lpFeeTotal.add(relayerFeeDetails.relayFeeTotal);
+  const outputAmount = max(inputAmount.sub(totalFeeTotal), bnZero);
+
+  return {
+    quoteTimestamp,
+    quoteBlock,
+    inputAmount,
+    outputToken,
+    outputAmount,
+    realizedLpFeePct,
+    lpFeeTotal,
+    relayerFeeDetails,
+    totalFeePct,
+    totalFeeTotal,
+    fillDeadline,
+    exclusiveRelayer,
+    exclusivityDeadline,
+    isAmountTooLow: relayerFeeDetails.isAmountTooLow || outputAmount.eq(bnZero),
+  };
+}
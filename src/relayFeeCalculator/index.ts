@@ -1,2 +1,5 @@
 export * from "./relayFeeCalculator";
+export * from "./profitCalculator";
+export * from "./depositQuote";
+export * from "./bridgeLimits";
 export * from "./chain-queries";
@@ -0,0 +1,188 @@
+import { BigNumber } from "ethers";
+import { HubPoolClient } from "../clients";
+import { CHAIN_IDs, DEFAULT_SIMULATED_RELAYER_ADDRESS, TOKEN_SYMBOLS_MAP } from "../constants";
+import { Deposit } from "../interfaces";
+import { PriceFeedAdapter } from "../priceClient";
+import {
+  bnZero,
+  fixedPointAdjustment,
+  getNativeTokenSymbol,
+  getTokenInformationFromAddress,
+  isDefined,
+  toBN,
+  toBNWei,
+} from "../utils";
+import { DEFAULT_LOGGER, Logger, QueryInterface } from "./relayFeeCalculator";
+
+export interface ProfitCalculatorConfig {
+  minMarginPct?: BigNumber; // Minimum net relayer fee, as a fraction of the input amount (1e18 = 100%).
+  relayerAddress?: string; // Relayer to simulate fills with.
+  nativeTokenDecimals?: number;
+  tokenMapping?: typeof TOKEN_SYMBOLS_MAP;
+}
+
+// All USD values are scaled to 18 decimals.
+export interface FillProfit {
+  shouldFill: boolean;
+  repaymentChainId: number;
+  inputTokenPriceUsd: BigNumber;
+  outputTokenPriceUsd: BigNumber;
+  gasTokenPriceUsd: BigNumber;
+  inputAmountUsd: BigNumber;
+  outputAmountUsd: BigNumber;
+  grossRelayerFeeUsd: BigNumber; // inputAmountUsd - outputAmountUsd
+  realizedLpFeePct: BigNumber;
+  lpFeeUsd: BigNumber;
+  nativeGasCost: BigNumber; // Units: gas
+  tokenGasCost: BigNumber; // Units: wei of the destination chain's native token
+  gasCostUsd: BigNumber;
+  netRelayerFeeUsd: BigNumber; // grossRelayerFeeUsd - lpFeeUsd - gasCostUsd
+  netRelayerFeePct: BigNumber;
+  minMarginPct: BigNumber;
+}
+
+/**
+ * Computes the net profit of a relayer filling a deposit, and whether the fill meets a minimum margin. The input and
+ * output tokens are priced independently, so deposits with different input and output tokens are supported.
+ * @note The realized LP fee depends on the chain on which the relayer takes repayment, so profit is computed for a
+ * specific repayment chain.
+ */
+export class ProfitCalculator {
+  readonly minMarginPct: BigNumber;
+  readonly relayerAddress: string;
+  readonly nativeTokenDecimals: number;
+  readonly tokenMapping: typeof TOKEN_SYMBOLS_MAP;
+
+  /**
+   * @param hubPoolClient A HubPoolClient for computing the realized LP fee of each deposit.
+   * @param priceFeed A price feed that resolves USD prices by mainnet token address, i.e. a PriceClient.
+   * @param queriesMap Gas cost queries for each destination chain.
+   * @param config Optional configuration.
+   * @param logger An optional logger.
+   */
+  constructor(
+    readonly hubPoolClient: Pick<HubPoolClient, "computeRealizedLpFeePct">,
+    readonly priceFeed: PriceFeedAdapter,
+    readonly queriesMap: Record<number, QueryInterface>,
+    config: ProfitCalculatorConfig = {},
+    private readonly logger: Logger = DEFAULT_LOGGER
+  ) {
+    this.minMarginPct = config.minMarginPct ?? bnZero;
+    this.relayerAddress = config.relayerAddress ?? DEFAULT_SIMULATED_RELAYER_ADDRESS;
+    this.nativeTokenDecimals = config.nativeTokenDecimals ?? 18;
+    this.tokenMapping = config.tokenMapping ?? TOKEN_SYMBOLS_MAP;
+  }
+
+  /**
+   * Compute the profit of filling a deposit.
+   * @param deposit The deposit to fill.
+   * @param repaymentChainId The chain on which the relayer takes repayment. Defaults to the destination chain.
+   * @returns A breakdown of the fill's profit and whether the deposit should be filled.
+   */
+  async getFillProfit(deposit: Deposit, repaymentChainId = deposit.destinationChainId): Promise<FillProfit> {
+    const { destinationChainId, inputToken, inputAmount, outputToken, outputAmount } = deposit;
+    const queries = this.queriesMap[destinationChainId];
+    if (!isDefined(queries)) {
+      throw new Error(`No gas cost queries for destination chain ${destinationChainId}`);
+    }
+
+    const [inputTokenInfo, outputTokenInfo] = [inputToken, outputToken].map((address) => {
+      const token = getTokenInformationFromAddress(address, this.tokenMapping);
+      if (!isDefined(token)) {
+        throw new Error(`Could not find token information for ${address}`);
+      }
+      return token;
+    });
+
+    const [inputTokenPriceUsd, outputTokenPriceUsd, gasTokenPriceUsd, { realizedLpFeePct }, gasCosts] =
+      await Promise.all([
+        this.getTokenPriceUsd(inputTokenInfo.symbol),
+        this.getTokenPriceUsd(outputTokenInfo.symbol),
+        this.getTokenPriceUsd(getNativeTokenSymbol(destinationChainId)),
+        this.hubPoolClient.computeRealizedLpFeePct({ ...deposit, paymentChainId: repaymentChainId }),
+        queries.getGasCosts(deposit, this.relayerAddress),
+      ]);
+    const { nativeGasCost, tokenGasCost } = gasCosts;
+
+    const inputAmountUsd = toUsd(inputAmount, inputTokenInfo.decimals, inputTokenPriceUsd);
+    const outputAmountUsd = toUsd(outputAmount, outputTokenInfo.decimals, outputTokenPriceUsd);
+    const grossRelayerFeeUsd = inputAmountUsd.sub(outputAmountUsd);
+    const lpFeeUsd = inputAmountUsd.mul(realizedLpFeePct).div(fixedPointAdjustment);
+    const gasCostUsd = toUsd(tokenGasCost, this.nativeTokenDecimals, gasTokenPriceUsd);
+    const netRelayerFeeUsd = grossRelayerFeeUsd.sub(lpFeeUsd).sub(gasCostUsd);
+
+    // If the input amount has no value, there is no margin to be made.
+    const netRelayerFeePct = inputAmountUsd.gt(bnZero)
+      ? netRelayerFeeUsd.mul(fixedPointAdjustment).div(inputAmountUsd)
+      : bnZero;
+    const shouldFill = inputAmountUsd.gt(bnZero) && netRelayerFeePct.gte(this.minMarginPct);
+
+    const profit = {
+      shouldFill,
+      repaymentChainId,
+      inputTokenPriceUsd,
+      outputTokenPriceUsd,
+      gasTokenPriceUsd,
+      inputAmountUsd,
+      outputAmountUsd,
+      grossRelayerFeeUsd,
+      realizedLpFeePct,
+      lpFeeUsd,
+      nativeGasCost,
+      tokenGasCost,
+      gasCostUsd,
+      netRelayerFeeUsd,
+      netRelayerFeePct,
+      minMarginPct: this.minMarginPct,
+    };
+
+    if (!shouldFill) {
+      this.logger.debug({
+        at: "sdk/ProfitCalculator",
+        message: "Deposit does not meet the minimum margin.",
+        originChainId: deposit.originChainId,
+        depositId: deposit.depositId,
+        profit: Object.fromEntries(Object.entries(profit).map(([k, v]) => [k, v.toString()])),
+      });
+    }
+
+    return profit;
+  }
+
+  /**
+   * Compute the profit of filling a deposit for each candidate repayment chain, and select the most profitable.
+   * @param deposit The deposit to fill.
+   * @param repaymentChainIds The candidate repayment chains.
+   * @returns The fill profit for the repayment chain that yields the greatest net relayer fee.
+   */
+  async getBestRepaymentChain(deposit: Deposit, repaymentChainIds: number[]): Promise<FillProfit> {
+    if (repaymentChainIds.length === 0) {
+      throw new Error("No candidate repayment chains supplied");
+    }
+
+    const profits = await Promise.all(repaymentChainIds.map((chainId) => this.getFillProfit(deposit, chainId)));
+    return profits.reduce((best, profit) => (profit.netRelayerFeeUsd.gt(best.netRelayerFeeUsd) ? profit : best));
+  }
+
+  /**
+   * Resolve the USD price of a token via its mainnet address.
+   * @param symbol The token symbol.
+   * @returns The price of the token in USD, scaled to 18 decimals.
+   */
+  protected async getTokenPriceUsd(symbol: string): Promise<BigNumber> {
+    const address = this.tokenMapping[symbol as keyof typeof TOKEN_SYMBOLS_MAP]?.addresses[CHAIN_IDs.MAINNET];
+    if (!isDefined(address)) {
+      throw new Error(`Could not resolve mainnet address for token ${symbol}`);
+    }
+
+    const { price } = await this.priceFeed.getPriceByAddress(address, "usd");
+    if (!(price > 0)) {
+      throw new Error(`Invalid USD price for token ${symbol} (${price})`);
+    }
+    return toBNWei(price.toFixed(18));
+  }
+}
+
+function toUsd(amount: BigNumber, decimals: number, priceUsd: BigNumber): BigNumber {
+  return amount.mul(priceUsd).div(toBN(10).pow(decimals));
+}
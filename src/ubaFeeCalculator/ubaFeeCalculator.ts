@@ -0,0 +1,213 @@
+// This module evaluates the fee curves of the Universal Bridge Adapter (UBA) fee model, as published to the
+// ConfigStore and parsed by AcrossConfigStoreClient.getUBAConfig(). Each curve is a piecewise-linear function defined
+// by a vector of [x, y] cut-off points, where y is a fee percentage scaled by 1e18.
+
+import { UBAParsedConfigType } from "../interfaces";
+import { BN, bnZero, fixedPointAdjustment, min } from "../utils";
+
+export type UBAFeeCurve = [BN, BN][];
+
+/**
+ * The direction of a flow relative to a SpokePool. Deposits flow into the origin SpokePool, and fills (or their
+ * refunds) flow out of the destination SpokePool.
+ */
+export type UBAFlowType = "inflow" | "outflow";
+
+export interface UBAChainBalances {
+  runningBalance: BN; // Running balance of the token on the SpokePool, in the token's native decimals.
+  incentiveBalance: BN; // Balance of the incentive pool for the token on the SpokePool, before any DAO adjustment.
+}
+
+export interface UBABalancingFee {
+  fee: BN; // Balancing fee in token units. A negative fee is a reward paid to the user.
+  incentivePoolDraw: BN; // Amount drawn from the incentive pool to pay any reward.
+}
+
+export interface UBAFees {
+  lpFeePct: BN;
+  lpFee: BN;
+  depositBalancingFee: BN; // Balancing fee (or reward, if negative) on the origin chain.
+  refundBalancingFee: BN; // Balancing fee (or reward, if negative) on the destination chain.
+  incentivePoolDraw: BN; // Total amount drawn from the origin and destination incentive pools.
+  totalFee: BN;
+}
+
+export const DEFAULT_UBA_CONFIG_KEY = "default";
+
+/**
+ * Resolve an entry of a UBA config record, preferring the most specific key.
+ * @param record The config record, i.e. alpha or omega.
+ * @param keys The candidate keys, from most to least specific. The default key is always tried last.
+ * @returns The value of the first key present in the record.
+ * @throws Error if none of the keys, nor the default key, are present in the record.
+ */
+export function resolveUBAConfigEntry<T>(record: Record<string, T>, keys: string[]): T {
+  const key = [...keys, DEFAULT_UBA_CONFIG_KEY].find((key) => record[key] !== undefined);
+  if (key === undefined) {
+    throw new Error(`No UBA config entry for keys ${keys.join(", ")} and no default entry`);
+  }
+  return record[key];
+}
+
+/**
+ * Evaluate a piecewise-linear curve. Values outside of the curve's cut-off points take the value of the nearest point.
+ * @param curve The cut-off points of the curve, in ascending order of x.
+ * @param x The point at which to evaluate the curve.
+ * @returns The value of the curve at x.
+ */
+export function evaluatePiecewiseLinear(curve: UBAFeeCurve, x: BN): BN {
+  validateCurve(curve);
+
+  const [firstX, firstY] = curve[0];
+  if (x.lte(firstX)) {
+    return firstY;
+  }
+
+  for (let i = 1; i < curve.length; ++i) {
+    const [x0, y0] = curve[i - 1];
+    const [x1, y1] = curve[i];
+    if (x.lte(x1)) {
+      return y0.add(y1.sub(y0).mul(x.sub(x0)).div(x1.sub(x0)));
+    }
+  }
+
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Compute the signed area under a piecewise-linear curve between two points.
+ * @param curve The cut-off points of the curve, in ascending order of x.
+ * @param from The lower bound of the integral.
+ * @param to The upper bound of the integral. If less than `from`, the area is negated.
+ * @returns The area under the curve, scaled down by 1e18 such that a curve of percentages yields an amount in x units.
+ */
+export function integratePiecewiseLinear(curve: UBAFeeCurve, from: BN, to: BN): BN {
+  if (from.gt(to)) {
+    return integratePiecewiseLinear(curve, to, from).mul(-1);
+  }
+
+  // The curve is linear between consecutive cut-off points, so the trapezoid rule is exact over each segment.
+  const xs = [from, ...curve.map(([x]) => x).filter((x) => x.gt(from) && x.lt(to)), to];
+  const area = xs
+    .slice(1)
+    .reduce(
+      (area, x, i) =>
+        area.add(evaluatePiecewiseLinear(curve, xs[i]).add(evaluatePiecewiseLinear(curve, x)).mul(x.sub(xs[i]))),
+      bnZero
+    );
+
+  return area.div(fixedPointAdjustment.mul(2));
+}
+
+function validateCurve(curve: UBAFeeCurve): void {
+  if (curve.length === 0) {
+    throw new Error("UBA fee curve has no cut-off points");
+  }
+  curve.slice(1).forEach(([x], i) => {
+    if (x.lt(curve[i][0])) {
+      throw new Error(`UBA fee curve cut-off points are not in ascending order (${curve[i][0]} > ${x})`);
+    }
+  });
+}
+
+/**
+ * Computes fees under the UBA fee model for a single token.
+ * - The LP fee is the sum of the baseline fee alpha, and the mean of gamma over the change in HubPool utilization.
+ *   Both may be overridden per route (i.e. "1-10"); gamma may additionally be overridden per destination chain.
+ * - The balancing fee on each chain is the area under omega over the change in that chain's running balance. A
+ *   negative balancing fee is a reward, scaled by the chain's ubaRewardMultiplier and capped by its incentive pool.
+ * - The `rebalance` thresholds and targets are intentionally not modelled. They determine when funds are reallocated
+ *   between the HubPool and each SpokePool, which is reflected in the running balances passed to this calculator,
+ *   rather than in the fees of any single transfer.
+ */
+export class UBAFeeCalculator {
+  constructor(readonly config: UBAParsedConfigType) {}
+
+  /**
+   * Compute the LP fee percentage of a transfer.
+   * @param originChainId The origin chain of the transfer.
+   * @param destinationChainId The destination chain of the transfer.
+   * @param utilization The HubPool utilization before the transfer.
+   * @param utilizationAfter The HubPool utilization after the transfer. Defaults to `utilization`.
+   * @returns The LP fee percentage, scaled by 1e18.
+   */
+  getLpFeePct(originChainId: number, destinationChainId: number, utilization: BN, utilizationAfter = utilization): BN {
+    const route = `${originChainId}-${destinationChainId}`;
+    const alpha = resolveUBAConfigEntry(this.config.alpha, [route]);
+    const gamma = resolveUBAConfigEntry(this.config.gamma, [route, String(destinationChainId)]);
+
+    const gammaPct = utilization.eq(utilizationAfter)
+      ? evaluatePiecewiseLinear(gamma, utilization)
+      : integratePiecewiseLinear(gamma, utilization, utilizationAfter)
+          .mul(fixedPointAdjustment)
+          .div(utilizationAfter.sub(utilization));
+
+    return alpha.add(gammaPct);
+  }
+
+  /**
+   * Compute the balancing fee of a flow on a single chain.
+   * @param chainId The chain of the SpokePool that the flow modifies.
+   * @param flowType Whether the flow is a deposit into, or a fill from, the SpokePool.
+   * @param amount The amount of the flow.
+   * @param balances The running and incentive balances of the chain before the flow.
+   * @returns The balancing fee, and the amount drawn from the incentive pool to pay any reward.
+   */
+  getBalancingFee(chainId: number, flowType: UBAFlowType, amount: BN, balances: UBAChainBalances): UBABalancingFee {
+    const omega = resolveUBAConfigEntry(this.config.omega, [String(chainId)]);
+    const { runningBalance, incentiveBalance } = balances;
+    const balanceAfter = flowType === "inflow" ? runningBalance.add(amount) : runningBalance.sub(amount);
+
+    const fee = integratePiecewiseLinear(omega, runningBalance, balanceAfter);
+    if (fee.gte(bnZero)) {
+      return { fee, incentivePoolDraw: bnZero };
+    }
+
+    const multiplier = this.config.ubaRewardMultiplier?.[chainId] ?? fixedPointAdjustment;
+    const adjustment = this.config.incentivePoolAdjustment?.[chainId] ?? bnZero;
+    const incentivePool = incentiveBalance.add(adjustment);
+    const reward = min(fee.mul(-1).mul(multiplier).div(fixedPointAdjustment), incentivePool);
+    const incentivePoolDraw = reward.gt(bnZero) ? reward : bnZero;
+
+    return { fee: incentivePoolDraw.mul(-1), incentivePoolDraw };
+  }
+
+  /**
+   * Compute the fees of a transfer, comprising a deposit on the origin chain and a fill on the destination chain.
+   * @param originChainId The origin chain of the transfer.
+   * @param destinationChainId The destination chain of the transfer.
+   * @param amount The amount of the transfer.
+   * @param balances The running and incentive balances of each chain before the transfer.
+   * @param utilization The HubPool utilization before the transfer.
+   * @param utilizationAfter The HubPool utilization after the transfer. Defaults to `utilization`.
+   * @returns The LP fee, the balancing fees on each chain and the total amount drawn from incentive pools.
+   */
+  getFees(
+    originChainId: number,
+    destinationChainId: number,
+    amount: BN,
+    balances: Record<number, UBAChainBalances>,
+    utilization: BN,
+    utilizationAfter = utilization
+  ): UBAFees {
+    [originChainId, destinationChainId].forEach((chainId) => {
+      if (balances[chainId] === undefined) {
+        throw new Error(`No UBA balances for chain ${chainId}`);
+      }
+    });
+
+    const lpFeePct = this.getLpFeePct(originChainId, destinationChainId, utilization, utilizationAfter);
+    const lpFee = amount.mul(lpFeePct).div(fixedPointAdjustment);
+    const deposit = this.getBalancingFee(originChainId, "inflow", amount, balances[originChainId]);
+    const refund = this.getBalancingFee(destinationChainId, "outflow", amount, balances[destinationChainId]);
+
+    return {
+      lpFeePct,
+      lpFee,
+      depositBalancingFee: deposit.fee,
+      refundBalancingFee: refund.fee,
+      incentivePoolDraw: deposit.incentivePoolDraw.add(refund.incentivePoolDraw),
+      totalFee: lpFee.add(deposit.fee).add(refund.fee),
+    };
+  }
+}
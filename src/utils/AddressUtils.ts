@@ -1,4 +1,4 @@
-import { providers, utils } from "ethers";
+import { BigNumber, providers, utils } from "ethers";
 
 /**
  * Checks if a contract is deployed at the given address
@@ -16,3 +16,20 @@ export async function isContractDeployedToAddress(address: string, provider: pro
   // If the code is not empty, then there is a contract at this address
   return code !== "0x";
 }
+
+/**
+ * Compares two addresses by their numerical value.
+ * @param addressA The first address.
+ * @param addressB The second address.
+ * @returns -1 if addressA < addressB, 1 if addressA > addressB, or 0 if they are equal.
+ */
+export function compareAddresses(addressA: string, addressB: string): 1 | -1 | 0 {
+  const bnAddressA = BigNumber.from(addressA);
+  const bnAddressB = BigNumber.from(addressB);
+  if (bnAddressA.gt(bnAddressB)) {
+    return 1;
+  } else if (bnAddressA.lt(bnAddressB)) {
+    return -1;
+  }
+  return 0;
+}
@@ -1,7 +1,8 @@
 import { Result } from "@ethersproject/abi";
 import { delay } from "./common";
-import { SortableEvent } from "../interfaces";
-import { Contract, Event, EventFilter } from "ethers";
+import { isDefined } from "./TypeGuards";
+import { SortableEvent, StoredEvent } from "../interfaces";
+import { Contract, Event, EventFilter, providers } from "ethers";
 
 const maxRetries = 3;
 const retrySleepTime = 10;
@@ -67,6 +68,120 @@ export interface EventSearchConfig {
   maxBlockLookBack?: number;
 }
 
+export interface EventQueryStats {
+  // The largest block range that the chain's provider has been observed to serve. Undefined until a query is split.
+  maxBlockLookBack?: number;
+  // Number of eth_getLogs queries made.
+  queries: number;
+  // Number of queries that were rejected by the provider and split into smaller ranges.
+  splits: number;
+  // Number of times the block range was grown again after sparse results.
+  expansions: number;
+}
+
+// Per-provider record of the block ranges that each provider accepts. Providers for the same chain may impose
+// different limits, so they are tracked independently.
+const eventQueryStats = new WeakMap<providers.Provider, EventQueryStats>();
+
+// If every paginated range returns fewer events than this, the block range is doubled for subsequent queries.
+const sparseEventCount = 1000;
+
+// Provider errors indicating that an eth_getLogs query spanned too many blocks or matched too many events. Rate limit
+// errors (e.g. "request limit exceeded") are deliberately not matched, since they are retried by the RetryProvider.
+const blockRangeErrors = [
+  /more than \d+ results/i,
+  /query returned more than/i,
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /response size/i,
+  /log(s)? limit exceeded/i,
+  /time(d)? ?out/i,
+];
+
+/**
+ * Determine whether an error indicates that an eth_getLogs query should be retried over a smaller block range.
+ * @param error The error thrown by the provider.
+ * @returns True if the error relates to the size of the query.
+ */
+export function isBlockRangeError(error: unknown): boolean {
+  // ethers may nest the underlying RPC error, so check each of the messages it includes.
+  const { message, body, error: rpcError } = (error ?? {}) as { message?: unknown; body?: unknown; error?: unknown };
+  const { message: rpcMessage } = (rpcError ?? {}) as { message?: unknown };
+  return [message, body, rpcMessage].some(
+    (msg) => typeof msg === "string" && blockRangeErrors.some((pattern) => pattern.test(msg))
+  );
+}
+
+/**
+ * Get the block range that event queries have settled on for a provider, and the number of adjustments made to it.
+ * @param provider The provider of the queried contracts.
+ * @returns The event query stats for the provider, or undefined if no events have been queried through it.
+ */
+export function getEventQueryStats(provider: providers.Provider): EventQueryStats | undefined {
+  const stats = eventQueryStats.get(provider);
+  return stats ? { ...stats } : undefined;
+}
+
+/**
+ * Discard the block range learned for a provider, such that subsequent queries revert to the configured
+ * maxBlockLookBack.
+ * @param provider The provider of the queried contracts.
+ */
+export function resetEventQueryStats(provider: providers.Provider): void {
+  eventQueryStats.delete(provider);
+}
+
+/**
+ * Query events over a block range, recursively splitting the range if the provider rejects it as too large.
+ * @param contract The contract to query.
+ * @param filter The event filter.
+ * @param fromBlock The first block of the range.
+ * @param toBlock The last block of the range (inclusive).
+ * @param stats The event query stats for the provider, which are updated with any split.
+ * @param query The splits made by the calling query alone, which are unaffected by concurrent queries.
+ * @returns The events in the range.
+ */
+async function queryBlockRange(
+  contract: Contract,
+  filter: EventFilter,
+  fromBlock: number,
+  toBlock: number,
+  stats: EventQueryStats,
+  query: { splits: number }
+): Promise<Event[]> {
+  ++stats.queries;
+  try {
+    return await contract.queryFilter(filter, fromBlock, toBlock);
+  } catch (error) {
+    if (fromBlock === toBlock || !isBlockRangeError(error)) {
+      throw error;
+    }
+
+    const midBlock = fromBlock + Math.floor((toBlock - fromBlock) / 2);
+    const nBlocks = midBlock - fromBlock + 1;
+    ++stats.splits;
+    ++query.splits;
+    stats.maxBlockLookBack = Math.min(stats.maxBlockLookBack ?? nBlocks, nBlocks);
+
+    const events = await Promise.all([
+      queryBlockRange(contract, filter, fromBlock, midBlock, stats, query),
+      queryBlockRange(contract, filter, midBlock + 1, toBlock, stats, query),
+    ]);
+    return events.flat();
+  }
+}
+
+/**
+ * Query events over a block range, paginated according to the maxBlockLookBack of the search config. Ranges that are
+ * rejected by the provider for being too large are split and retried, and the resulting block range is retained for
+ * subsequent queries through the same provider. The block range is grown again, up to maxBlockLookBack, when results
+ * are sparse.
+ * @param contract The contract to query.
+ * @param filter The event filter.
+ * @param searchConfig The range over which to search.
+ * @param retryCount The number of retries already made.
+ * @returns The events within the search range.
+ */
 export async function paginatedEventQuery(
   contract: Contract,
   filter: EventFilter,
@@ -78,18 +193,41 @@ export async function paginatedEventQuery(
     return await contract.queryFilter(filter, searchConfig.fromBlock, searchConfig.toBlock);
   }
 
+  const { provider } = contract;
+  const stats = eventQueryStats.get(provider) ?? { queries: 0, splits: 0, expansions: 0 };
+  eventQueryStats.set(provider, stats);
+
+  // Never exceed the configured maxBlockLookBack, but prefer a smaller range if the provider has rejected it before.
+  const maxBlockLookBack =
+    isDefined(searchConfig.maxBlockLookBack) && isDefined(stats.maxBlockLookBack)
+      ? Math.min(searchConfig.maxBlockLookBack, stats.maxBlockLookBack)
+      : (searchConfig.maxBlockLookBack ?? stats.maxBlockLookBack);
+
   // Compute the number of queries needed. If there is no maxBlockLookBack set then we can execute the whole query in
   // one go. Else, the number of queries is the range over which we are searching, divided by the maxBlockLookBack,
   // rounded up. This gives us the number of queries we need to execute to traverse the whole block range.
-  const paginatedRanges = getPaginatedBlockRanges(searchConfig);
+  const paginatedRanges = getPaginatedBlockRanges({ ...searchConfig, maxBlockLookBack });
 
   try {
+    const query = { splits: 0 };
+    const events = await Promise.all(
+      paginatedRanges.map(([fromBlock, toBlock]) => queryBlockRange(contract, filter, fromBlock, toBlock, stats, query))
+    );
+
+    // If the learned block range constrained this query without error and every range was sparse, try a larger range.
+    if (
+      isDefined(stats.maxBlockLookBack) &&
+      maxBlockLookBack === stats.maxBlockLookBack &&
+      paginatedRanges.length > 1 &&
+      query.splits === 0 &&
+      events.every((rangeEvents) => rangeEvents.length < sparseEventCount)
+    ) {
+      ++stats.expansions;
+      stats.maxBlockLookBack *= 2;
+    }
+
     return (
-      (
-        await Promise.all(
-          paginatedRanges.map(([fromBlock, toBlock]) => contract.queryFilter(filter, fromBlock, toBlock))
-        )
-      )
+      events
         .flat()
         // Filter events by block number because ranges can include blocks that are outside the range specified for caching reasons.
         .filter((event) => event.blockNumber >= searchConfig.fromBlock && event.blockNumber <= searchConfig.toBlock)
@@ -173,6 +311,56 @@ export function spreadEventWithBlockNumber(event: Event): SortableEvent {
   };
 }
 
+/**
+ * Convert an ethers Event into a serialisable form for persistence in an event store.
+ * @param event The event to convert.
+ * @returns The stored representation of the event.
+ */
+export function toStoredEvent(event: Event): StoredEvent {
+  return {
+    event: event.event ?? "",
+    args: spreadEvent(event.args),
+    blockNumber: event.blockNumber,
+    transactionIndex: event.transactionIndex,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+  };
+}
+
+/**
+ * Restore an event loaded from an event store.
+ * @param storedEvent The stored event.
+ * @param address The address of the contract that emitted the event.
+ * @returns An Event exposing the fields consumed by the clients. Raw log fields that are not stored (blockHash, data
+ * and topics) are empty, and methods that require a provider (i.e. getBlock()) reject.
+ */
+export function fromStoredEvent(storedEvent: StoredEvent, address: string): Event {
+  const { event, blockNumber, transactionIndex, logIndex, transactionHash } = storedEvent;
+  const unavailable = (method: string) => (): Promise<never> =>
+    Promise.reject(new Error(`${method}() is not available on events restored from an event store`));
+
+  // ethers exposes event arguments as an array with named properties; only the named properties are stored.
+  const args: Result = Object.assign([], storedEvent.args);
+
+  return {
+    event,
+    args,
+    address,
+    blockNumber,
+    blockHash: "",
+    transactionIndex,
+    transactionHash,
+    logIndex,
+    data: "0x",
+    topics: [],
+    removed: false,
+    removeListener: () => undefined,
+    getBlock: unavailable("getBlock"),
+    getTransaction: unavailable("getTransaction"),
+    getTransactionReceipt: unavailable("getTransactionReceipt"),
+  };
+}
+
 // This copies the array and sorts it, returning a new array with the new ordering.
 export function sortEventsAscending<T extends SortableEvent>(events: T[]): T[] {
   return sortEventsAscendingInPlace([...events]);
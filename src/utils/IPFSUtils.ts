@@ -1,5 +1,6 @@
 import PinataClient from "@pinata/sdk";
 import axios from "axios";
+import { utils as ethersUtils } from "ethers";
 
 /**
  * Build an IPFS client for interacting with the IPFS API
@@ -46,3 +47,71 @@ export async function storeValueInIPFS(key: string, content: string, client: Pin
   });
   return result.IpfsHash;
 }
+
+// Multiformats codes used in CIDv1 identifiers for raw blocks.
+// @see https://github.com/multiformats/multicodec/blob/master/table.csv
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+// Multibase prefix and alphabet of lowercase, unpadded RFC4648 base32.
+const BASE32_PREFIX = "b";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+function encodeBase32(bytes: Uint8Array): string {
+  let [bits, value, output] = [0, 0, ""];
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return bits > 0 ? output + BASE32_ALPHABET[(value << (5 - bits)) & 31] : output;
+}
+
+function decodeBase32(input: string): Uint8Array {
+  const bytes: number[] = [];
+  let [bits, value] = [0, 0];
+  for (const char of input.split("")) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Compute the CIDv1 of content stored as a single raw IPFS block, hashed with sha2-256.
+ * @param content The content of the block.
+ * @returns The base32-encoded CID of the block.
+ */
+export function computeRawCID(content: Uint8Array): string {
+  const digest = ethersUtils.arrayify(ethersUtils.sha256(content));
+  const cid = ethersUtils.concat([[CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH], digest]);
+  return BASE32_PREFIX + encodeBase32(cid);
+}
+
+/**
+ * Determine whether content matches a CID. Only CIDv1 identifiers of raw, sha2-256 hashed blocks can be verified.
+ * @param cid The CID that the content was retrieved by.
+ * @param content The retrieved content.
+ * @returns True if the content matches the CID.
+ * @throws Error if the CID is not a verifiable raw block CID.
+ */
+export function verifyRawCID(cid: string, content: Uint8Array): boolean {
+  const prefix = cid.startsWith(BASE32_PREFIX) ? decodeBase32(cid.slice(1)).slice(0, 4) : undefined;
+  if (!prefix || prefix.join() !== [CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH].join()) {
+    throw new Error(`Unable to verify content of CID ${cid} (expected a base32 CIDv1 of a raw sha2-256 block)`);
+  }
+  return computeRawCID(content) === cid;
+}
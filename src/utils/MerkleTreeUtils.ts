@@ -0,0 +1,164 @@
+import { MerkleTree, EMPTY_MERKLE_ROOT } from "@across-protocol/contracts/dist/utils/MerkleTree";
+import { utils as ethersUtils } from "ethers";
+import { PoolRebalanceLeaf, RelayerRefundLeaf, RootBundleRoots, SlowFillLeaf } from "../interfaces";
+
+export { MerkleTree, EMPTY_MERKLE_ROOT };
+
+// ABI types of the leaves, as hashed by MerkleLib in the HubPool and SpokePool contracts.
+const POOL_REBALANCE_LEAF_TYPE =
+  "tuple(" +
+  "uint256 chainId," +
+  "uint256[] bundleLpFees," +
+  "int256[] netSendAmounts," +
+  "int256[] runningBalances," +
+  "uint256 groupIndex," +
+  "uint8 leafId," +
+  "address[] l1Tokens" +
+  ")";
+
+const RELAYER_REFUND_LEAF_TYPE =
+  "tuple(" +
+  "uint256 amountToReturn," +
+  "uint256 chainId," +
+  "uint256[] refundAmounts," +
+  "uint32 leafId," +
+  "address l2TokenAddress," +
+  "address[] refundAddresses" +
+  ")";
+
+const SLOW_FILL_LEAF_TYPE =
+  "tuple(" +
+  "tuple(" +
+  "address depositor," +
+  "address recipient," +
+  "address exclusiveRelayer," +
+  "address inputToken," +
+  "address outputToken," +
+  "uint256 inputAmount," +
+  "uint256 outputAmount," +
+  "uint256 originChainId," +
+  "uint32 depositId," +
+  "uint32 fillDeadline," +
+  "uint32 exclusivityDeadline," +
+  "bytes message" +
+  ") relayData," +
+  "uint256 chainId," +
+  "uint256 updatedOutputAmount" +
+  ")";
+
+/**
+ * Compute the Merkle leaf hash of a PoolRebalanceLeaf. Equivalent to keccak256(abi.encode(leaf)) in the HubPool.
+ * @param leaf PoolRebalanceLeaf to hash.
+ * @returns The leaf hash.
+ */
+export function hashPoolRebalanceLeaf(leaf: PoolRebalanceLeaf): string {
+  return ethersUtils.keccak256(ethersUtils.defaultAbiCoder.encode([POOL_REBALANCE_LEAF_TYPE], [leaf]));
+}
+
+/**
+ * Compute the Merkle leaf hash of a RelayerRefundLeaf. Equivalent to keccak256(abi.encode(leaf)) in the SpokePool.
+ * @param leaf RelayerRefundLeaf to hash.
+ * @returns The leaf hash.
+ */
+export function hashRelayerRefundLeaf(leaf: RelayerRefundLeaf): string {
+  return ethersUtils.keccak256(ethersUtils.defaultAbiCoder.encode([RELAYER_REFUND_LEAF_TYPE], [leaf]));
+}
+
+/**
+ * Compute the Merkle leaf hash of a V3 SlowFillLeaf. Equivalent to keccak256(abi.encode(leaf)) in the SpokePool.
+ * @param leaf SlowFillLeaf to hash.
+ * @returns The leaf hash.
+ */
+export function hashSlowFillLeaf(leaf: SlowFillLeaf): string {
+  return ethersUtils.keccak256(ethersUtils.defaultAbiCoder.encode([SLOW_FILL_LEAF_TYPE], [leaf]));
+}
+
+/**
+ * Build the Merkle tree for a set of PoolRebalanceLeaves.
+ * @param leaves PoolRebalanceLeaves, ordered by leafId.
+ * @returns A MerkleTree instance. Use getHexRoot() and getHexProof() to resolve the root and leaf proofs.
+ */
+export function buildPoolRebalanceLeafTree(leaves: PoolRebalanceLeaf[]): MerkleTree<PoolRebalanceLeaf> {
+  leaves.forEach(({ chainId, l1Tokens, bundleLpFees, netSendAmounts, runningBalances }) => {
+    // runningBalances may optionally be suffixed by an equal-length array of incentive balances.
+    if (
+      l1Tokens.length !== bundleLpFees.length ||
+      l1Tokens.length !== netSendAmounts.length ||
+      (runningBalances.length !== l1Tokens.length && runningBalances.length !== 2 * l1Tokens.length)
+    ) {
+      throw new Error(`Mismatched PoolRebalanceLeaf array lengths for chain ${chainId}`);
+    }
+  });
+
+  return new MerkleTree<PoolRebalanceLeaf>(leaves, hashPoolRebalanceLeaf);
+}
+
+/**
+ * Build the Merkle tree for a set of RelayerRefundLeaves.
+ * @param leaves RelayerRefundLeaves, ordered by leafId.
+ * @returns A MerkleTree instance.
+ */
+export function buildRelayerRefundTree(leaves: RelayerRefundLeaf[]): MerkleTree<RelayerRefundLeaf> {
+  leaves.forEach(({ chainId, leafId, refundAddresses, refundAmounts }) => {
+    if (refundAddresses.length !== refundAmounts.length) {
+      throw new Error(`Mismatched RelayerRefundLeaf array lengths for chain ${chainId} leaf ${leafId}`);
+    }
+  });
+
+  return new MerkleTree<RelayerRefundLeaf>(leaves, hashRelayerRefundLeaf);
+}
+
+/**
+ * Build the Merkle tree for a set of V3 SlowFillLeaves.
+ * @param leaves SlowFillLeaves.
+ * @returns A MerkleTree instance.
+ */
+export function buildSlowRelayTree(leaves: SlowFillLeaf[]): MerkleTree<SlowFillLeaf> {
+  return new MerkleTree<SlowFillLeaf>(leaves, hashSlowFillLeaf);
+}
+
+/**
+ * Verify a Merkle proof for a leaf hash. Mirrors OpenZeppelin's MerkleProof.verify(), which sorts each pair of
+ * nodes before hashing them.
+ * @param root Expected Merkle root.
+ * @param leafHash Hash of the leaf to verify.
+ * @param proof Sibling hashes from the leaf up to the root.
+ * @returns True if the proof resolves to `root`.
+ */
+export function verifyProof(root: string, leafHash: string, proof: string[]): boolean {
+  const computedRoot = proof.reduce((node, sibling) => {
+    const [a, b] = node.toLowerCase() <= sibling.toLowerCase() ? [node, sibling] : [sibling, node];
+    return ethersUtils.keccak256(ethersUtils.concat([a, b]));
+  }, leafHash);
+
+  return computedRoot.toLowerCase() === root.toLowerCase();
+}
+
+export function verifyPoolRebalanceLeafProof(root: string, leaf: PoolRebalanceLeaf, proof: string[]): boolean {
+  return verifyProof(root, hashPoolRebalanceLeaf(leaf), proof);
+}
+
+export function verifyRelayerRefundLeafProof(root: string, leaf: RelayerRefundLeaf, proof: string[]): boolean {
+  return verifyProof(root, hashRelayerRefundLeaf(leaf), proof);
+}
+
+export function verifySlowFillLeafProof(root: string, leaf: SlowFillLeaf, proof: string[]): boolean {
+  return verifyProof(root, hashSlowFillLeaf(leaf), proof);
+}
+
+/**
+ * Recompute the three roots of a root bundle from its leaves.
+ * @param leaves The PoolRebalance, RelayerRefund and SlowFill leaves of the root bundle.
+ * @returns The roots, formatted as they appear in a ProposedRootBundle. Empty trees resolve to EMPTY_MERKLE_ROOT.
+ */
+export function computeRootBundleRoots(leaves: {
+  poolRebalanceLeaves: PoolRebalanceLeaf[];
+  relayerRefundLeaves: RelayerRefundLeaf[];
+  slowFillLeaves: SlowFillLeaf[];
+}): RootBundleRoots {
+  return {
+    poolRebalanceRoot: buildPoolRebalanceLeafTree(leaves.poolRebalanceLeaves).getHexRoot(),
+    relayerRefundRoot: buildRelayerRefundTree(leaves.relayerRefundLeaves).getHexRoot(),
+    slowRelayRoot: buildSlowRelayTree(leaves.slowFillLeaves).getHexRoot(),
+  };
+}
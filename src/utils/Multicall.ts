@@ -37,6 +37,35 @@ export const multicall3Addresses: Record<number, string> = {
   11155420: "0xcA11bde05977b3631167028862bE2a173976CA11",
 };
 
+// Function selectors of view functions that are safe to aggregate via Multicall3, as registered by SDK clients.
+const registeredViewSelectors = new Set<string>();
+
+/**
+ * Register view functions of a contract as safe to aggregate via Multicall3. Calls to registered functions are batched
+ * by any MulticallProvider, in addition to the selectors given in its configuration.
+ * @param contractInterface The contract interface.
+ * @param functionNames The names of the view or pure functions to register.
+ * @throws If a function is not a view or pure function of the interface.
+ */
+export function registerViewSelectors(contractInterface: ethersUtils.Interface, functionNames: string[]): void {
+  functionNames.forEach((functionName) => {
+    const fragment = contractInterface.getFunction(functionName);
+    if (!["view", "pure"].includes(fragment.stateMutability)) {
+      throw new Error(`Unable to register ${functionName} for Multicall3 (${fragment.stateMutability} function)`);
+    }
+    registeredViewSelectors.add(contractInterface.getSighash(fragment).toLowerCase());
+  });
+}
+
+/**
+ * Determine whether a function selector has been registered via registerViewSelectors().
+ * @param selector The 4-byte function selector.
+ * @returns True if the selector has been registered.
+ */
+export function isRegisteredViewSelector(selector: string): boolean {
+  return registeredViewSelectors.has(selector.toLowerCase());
+}
+
 export async function getMulticall3(
   chainId: number,
   signerOrProvider?: Signer | Provider
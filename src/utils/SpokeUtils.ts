@@ -1,11 +1,21 @@
 import assert from "assert";
 import { BigNumber, BytesLike, Contract, PopulatedTransaction, providers, utils as ethersUtils } from "ethers";
-import { CHAIN_IDs, ZERO_ADDRESS } from "../constants";
-import { Deposit, Fill, FillStatus, RelayData, SlowFillRequest } from "../interfaces";
+import { CHAIN_IDs, EMPTY_MESSAGE, ZERO_ADDRESS } from "../constants";
+import {
+  Deposit,
+  Fill,
+  FillSimulationResult,
+  FillSimulationStatus,
+  FillStatus,
+  RelayData,
+  SlowFillRequest,
+} from "../interfaces";
 import { SpokePoolClient } from "../clients";
+import { ERC20__factory } from "../typechain";
 import { chunk } from "./ArrayUtils";
 import { toBN } from "./BigNumberUtils";
 import { isDefined } from "./TypeGuards";
+import { registerViewSelectors } from "./Multicall";
 import { getNetworkName } from "./NetworkUtils";
 
 type BlockTag = providers.BlockTag;
@@ -54,6 +64,104 @@ export function populateV3Relay(
   return spokePool.populateTransaction.fillV3Relay(v3RelayData, repaymentChainId, { from: relayer });
 }
 
+/**
+ * Predict whether a fill would succeed, by checking the conditions enforced by the SpokePool before simulating the
+ * fill via eth_call.
+ * @param spokePool SpokePool Contract instance on the destination chain.
+ * @param deposit V3Deposit instance. Any speed up applied to the deposit is used for the fill.
+ * @param relayer Address of the relayer that would send the fill.
+ * @param repaymentChainId Optional repaymentChainId (defaults to destinationChainId).
+ * @param blockTag Block tag to simulate at (defaults to latest).
+ * @returns The simulation status, and the revert reason for unidentified failures.
+ */
+export async function simulateFill(
+  spokePool: Contract,
+  deposit: Deposit,
+  relayer: string,
+  repaymentChainId = deposit.destinationChainId,
+  blockTag: number | "latest" = "latest"
+): Promise<FillSimulationResult> {
+  const { provider } = spokePool;
+  const [fillStatus, _currentTime] = await Promise.all([
+    relayFillStatus(spokePool, deposit, blockTag, deposit.destinationChainId),
+    spokePool.getCurrentTime({ blockTag }),
+  ]);
+  const currentTime = Number(_currentTime);
+
+  if (fillStatus === FillStatus.Filled) {
+    return { status: FillSimulationStatus.AlreadyFilled };
+  }
+
+  if (deposit.fillDeadline < currentTime) {
+    return { status: FillSimulationStatus.Expired };
+  }
+
+  // Exclusivity is inclusive of the deadline. Fills of sped up deposits are subject to exclusivity for any exclusive
+  // relayer, but other fills are exempt when the exclusive relayer is the zero address.
+  const { exclusiveRelayer, exclusivityDeadline } = deposit;
+  const isSpedUp = isDefined(deposit.speedUpSignature);
+  if (
+    exclusivityDeadline >= currentTime &&
+    exclusiveRelayer.toLowerCase() !== relayer.toLowerCase() &&
+    (isSpedUp || exclusiveRelayer !== ZERO_ADDRESS)
+  ) {
+    return { status: FillSimulationStatus.NotExclusiveRelayer };
+  }
+
+  // Sped up deposits are filled with the updated recipient, output amount and message.
+  const { updatedRecipient, updatedOutputAmount, updatedMessage } = deposit;
+  const recipient = isSpedUp && isDefined(updatedRecipient) ? updatedRecipient : deposit.recipient;
+  const outputAmount = isSpedUp && isDefined(updatedOutputAmount) ? updatedOutputAmount : deposit.outputAmount;
+  const message = isSpedUp && isDefined(updatedMessage) ? updatedMessage : deposit.message;
+
+  // Relayers that fill to themselves do not transfer any tokens.
+  if (recipient.toLowerCase() !== relayer.toLowerCase()) {
+    const outputToken = ERC20__factory.connect(deposit.outputToken, provider);
+    registerViewSelectors(outputToken.interface, ["balanceOf", "allowance"]);
+    const [balance, allowance] = await Promise.all([
+      outputToken.balanceOf(relayer, { blockTag }),
+      outputToken.allowance(relayer, spokePool.address, { blockTag }),
+    ]);
+    if (balance.lt(outputAmount)) {
+      return { status: FillSimulationStatus.InsufficientBalance };
+    }
+    if (allowance.lt(outputAmount)) {
+      return { status: FillSimulationStatus.InsufficientAllowance };
+    }
+  }
+
+  const simulate = async (deposit: Deposit): Promise<string | undefined> => {
+    const fill = await populateV3Relay(spokePool, deposit, relayer, repaymentChainId);
+    try {
+      await provider.call(fill, blockTag);
+      return undefined;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  };
+
+  const error = await simulate(deposit);
+  if (!isDefined(error)) {
+    return { status: FillSimulationStatus.Success };
+  }
+
+  // If the same fill succeeds without a message, then the message handler on the recipient must be reverting.
+  if (message !== EMPTY_MESSAGE) {
+    const messageError = await simulate({
+      ...deposit,
+      recipient,
+      outputAmount,
+      message: EMPTY_MESSAGE,
+      speedUpSignature: undefined,
+    });
+    if (!isDefined(messageError)) {
+      return { status: FillSimulationStatus.MessageReverts, error };
+    }
+  }
+
+  return { status: FillSimulationStatus.Reverts, error };
+}
+
 /**
  * Find the block range that contains the deposit ID. This is a binary search that searches for the block range
  * that contains the deposit ID.
@@ -259,6 +367,7 @@ export async function relayFillStatus(
 ): Promise<FillStatus> {
   destinationChainId ??= await spokePool.chainId();
   const hash = getRelayDataHash(relayData, destinationChainId!);
+  registerViewSelectors(spokePool.interface, ["fillStatuses"]);
   const _fillStatus = await spokePool.fillStatuses(hash, { blockTag });
   const fillStatus = Number(_fillStatus);
 
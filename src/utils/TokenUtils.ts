@@ -5,12 +5,14 @@ import { L1Token } from "../interfaces";
 import { ERC20__factory } from "../typechain";
 import { getNetworkName } from "./NetworkUtils";
 import { isDefined } from "./TypeGuards";
+import { registerViewSelectors } from "./Multicall";
 const { TOKEN_SYMBOLS_MAP, CHAIN_IDs } = constants;
 
 type SignerOrProvider = providers.Provider | Signer;
 
 export async function fetchTokenInfo(address: string, signerOrProvider: SignerOrProvider): Promise<L1Token> {
   const token = new Contract(address, ERC20__factory.abi, signerOrProvider);
+  registerViewSelectors(token.interface, ["symbol", "decimals"]);
   const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
   return { address, symbol, decimals };
 }
@@ -98,6 +100,7 @@ export function getTokenBalance(
   blockTag: BlockTag = "latest"
 ): Promise<BigNumber> {
   const token = ERC20__factory.connect(tokenAddress, signerOrProvider);
+  registerViewSelectors(token.interface, ["balanceOf"]);
   return token.balanceOf(address, { blockTag });
 }
 
@@ -27,3 +27,4 @@ export * from "./ValidatorUtils";
 export * from "./AddressUtils";
 export * from "./SpokeUtils";
 export * from "./V3Utils";
+export * from "./MerkleTreeUtils";
@@ -0,0 +1,104 @@
+import { Contract, Event, EventFilter } from "ethers";
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalEventStore } from "../src/caching";
+import { BaseAbstractClient } from "../src/clients/BaseAbstractClient";
+import { CACHING_FINALITY, CHAIN_IDs } from "../src/constants";
+import { EventSearchConfig } from "../src/utils";
+import { assertPromiseError, expect, randomAddress } from "./utils";
+
+const chainId = CHAIN_IDs.MAINNET;
+const finality = CACHING_FINALITY[chainId];
+const eventName = "FilledV3Relay";
+const filter: EventFilter = {};
+
+// Stand-in for a contract that emits one event at each of `eventBlocks`.
+class StandInContract {
+  readonly address = randomAddress();
+  readonly queries: [number, number][] = [];
+
+  constructor(readonly eventBlocks: number[]) {}
+
+  queryFilter(_filter: EventFilter, fromBlock: number, toBlock: number): Promise<Event[]> {
+    this.queries.push([fromBlock, toBlock]);
+    const events = this.eventBlocks
+      .filter((blockNumber) => blockNumber >= fromBlock && blockNumber <= toBlock)
+      .map(
+        (blockNumber) =>
+          ({
+            event: eventName,
+            args: Object.assign([blockNumber], { depositId: blockNumber }),
+            blockNumber,
+            transactionIndex: 0,
+            logIndex: 0,
+            transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+          }) as unknown as Event
+      );
+    return Promise.resolve(events);
+  }
+}
+
+class TestClient extends BaseAbstractClient {
+  query(contract: StandInContract, fromBlock: number, toBlock: number): Promise<Event[]> {
+    const searchConfig: EventSearchConfig = { fromBlock, toBlock, maxBlockLookBack: 0 };
+    return this.queryEvents(chainId, contract as unknown as Contract, eventName, filter, searchConfig);
+  }
+}
+
+describe("BaseAbstractClient: Event store queries", function () {
+  let directory: string;
+  let eventStore: LocalEventStore;
+  let contract: StandInContract;
+  let key: { chainId: number; contract: string; eventName: string };
+
+  const blockNumbers = (events: { blockNumber: number }[]) => events.map(({ blockNumber }) => blockNumber);
+
+  beforeEach(async function () {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "event-store-"));
+    eventStore = new LocalEventStore(directory);
+    contract = new StandInContract([100, 950, 990, 1050]);
+    key = { chainId, contract: contract.address, eventName };
+  });
+
+  afterEach(async function () {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("Only persists events that are final", async function () {
+    const client = new TestClient(undefined, undefined, eventStore);
+    const events = await client.query(contract, 0, 1000);
+
+    expect(blockNumbers(events)).to.deep.equal([100, 950, 990]);
+    expect(await eventStore.getBlockRange(key)).to.deep.equal([0, 1000 - finality]);
+    expect(blockNumbers(await eventStore.load(key, 0, 1000))).to.deep.equal([100]);
+  });
+
+  it("Re-queries the unfinalized tail of the previous query", async function () {
+    const client = new TestClient(undefined, undefined, eventStore);
+    await client.query(contract, 0, 1000);
+
+    // A subsequent update resumes from the end of the stored range, but only returns events within its own range.
+    const events = await client.query(contract, 1001, 1100);
+    expect(blockNumbers(events)).to.deep.equal([1050]);
+    expect(contract.queries.at(-1)).to.deep.equal([1000 - finality + 1, 1100]);
+    expect(await eventStore.getBlockRange(key)).to.deep.equal([0, 1100 - finality]);
+    expect(blockNumbers(await eventStore.load(key, 0, 1100))).to.deep.equal([100, 950, 990]);
+  });
+
+  it("Restores stored events and queries the remainder of the search range", async function () {
+    await new TestClient(undefined, undefined, eventStore).query(contract, 0, 1000);
+
+    const client = new TestClient(undefined, undefined, eventStore);
+    const events = await client.query(contract, 0, 1100);
+    expect(blockNumbers(events)).to.deep.equal([100, 950, 990, 1050]);
+    expect(contract.queries.at(-1)).to.deep.equal([1000 - finality + 1, 1100]);
+
+    // Restored events carry their arguments and emitting contract, but cannot be resolved against a provider.
+    const [restored] = events;
+    expect(restored.event).to.equal(eventName);
+    expect(restored.address).to.equal(contract.address);
+    expect(restored.args?.depositId).to.equal(100);
+    await assertPromiseError(restored.getBlock(), "not available on events restored from an event store");
+  });
+});
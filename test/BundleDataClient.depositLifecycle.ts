@@ -0,0 +1,92 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import { FillType } from "../src/interfaces";
+import { bnZero, toBN } from "../src/utils";
+import { BundleDataClientFixture, setupBundleDataClient } from "./fixtures/BundleDataClient.Fixture";
+import { expect } from "./utils";
+
+describe("BundleDataClient: Deposit lifecycle", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let originChainId: number, destinationChainId: number;
+
+  // Propose and fully execute a root bundle over the first 50 blocks of each chain.
+  const executeRootBundle = async () => {
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(50))
+    );
+    await hubPoolClient.update();
+    hubPoolClient.executeRootBundle(bnZero, 0, toBN(fixture.hubPoolChainId), [], [], [], []);
+    await hubPoolClient.update();
+  };
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+  });
+
+  it("Returns undefined for unknown deposits", async function () {
+    expect(await bundleDataClient.getDepositLifecycle(originChainId, 1)).to.be.undefined;
+  });
+
+  it("Follows a deposit through to the root bundle that refunds its fill", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 20);
+
+    // The fill is not yet covered by a root bundle.
+    let lifecycle = await bundleDataClient.getDepositLifecycle(originChainId, deposit.depositId);
+    expect(lifecycle?.deposit.depositId).to.equal(deposit.depositId);
+    expect(lifecycle?.fills).to.have.length(1);
+    let [fillLifecycle] = lifecycle?.fills ?? [];
+    expect(fillLifecycle.fill.transactionHash).to.equal(fill.transactionHash);
+    expect(fillLifecycle.fillType).to.equal(FillType.FastFill);
+    expect(fillLifecycle.repaymentChainId).to.equal(destinationChainId);
+    expect(fillLifecycle.rootBundle).to.be.undefined;
+    expect(fillLifecycle.rootBundleExecuted).to.be.false;
+
+    await executeRootBundle();
+    const [rootBundle] = hubPoolClient.getProposedRootBundles();
+    lifecycle = await bundleDataClient.getDepositLifecycle(originChainId, deposit.depositId);
+    [fillLifecycle] = lifecycle?.fills ?? [];
+    expect(fillLifecycle.rootBundle?.transactionHash).to.equal(rootBundle.transactionHash);
+    expect(fillLifecycle.rootBundleExecuted).to.be.true;
+
+    // The refund leaf has not been relayed to the repayment chain.
+    expect(fillLifecycle.refundLeaf).to.be.undefined;
+  });
+
+  it("Searches past root bundles whose block ranges cannot be resolved", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    await fixture.fill(deposit, 20);
+    await executeRootBundle();
+
+    const pendingDeposit = await fixture.deposit(originChainId, destinationChainId, 60);
+    await fixture.fill(pendingDeposit, 70);
+
+    // The pending proposal does not advance the origin chain end block beyond that of the executed root bundle.
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map((chainId) => toBN(chainId === originChainId ? 50 : 100))
+    );
+    hubPoolClient.rootBundleProposal = { ...hubPoolClient.rootBundleProposal, unclaimedPoolRebalanceLeafCount: 1 };
+    await hubPoolClient.update();
+    expect(hubPoolClient.hasPendingProposal()).to.be.true;
+    const [executedRootBundle] = hubPoolClient.getProposedRootBundles();
+
+    let [fillLifecycle] = (await bundleDataClient.getDepositLifecycle(originChainId, deposit.depositId))?.fills ?? [];
+    expect(fillLifecycle.rootBundle?.transactionHash).to.equal(executedRootBundle.transactionHash);
+    expect(fillLifecycle.rootBundleExecuted).to.be.true;
+
+    // The only bundle that might contain the pending fill cannot be resolved.
+    [fillLifecycle] =
+      (await bundleDataClient.getDepositLifecycle(originChainId, pendingDeposit.depositId))?.fills ?? [];
+    expect(fillLifecycle.rootBundle).to.be.undefined;
+    expect(fillLifecycle.rootBundleExecuted).to.be.false;
+  });
+});
@@ -0,0 +1,70 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import { bnZero, toBN } from "../src/utils";
+import { BundleDataClientFixture, setupBundleDataClient } from "./fixtures/BundleDataClient.Fixture";
+import { expect } from "./utils";
+
+describe("BundleDataClient: Expired deposit refunds", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let originChainId: number, destinationChainId: number;
+
+  const blockRanges = () => chainIds.map(() => [0, 50]);
+  const propose = async (relayerRefundRoot: string) => {
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(50)),
+      undefined,
+      relayerRefundRoot
+    );
+    await hubPoolClient.update();
+  };
+  const execute = async () => {
+    hubPoolClient.executeRootBundle(bnZero, 0, toBN(fixture.hubPoolChainId), [], [], [], []);
+    await hubPoolClient.update();
+  };
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+    await fixture.deposit(originChainId, destinationChainId, 10, { fillDeadline: fixture.currentTime - 1 });
+  });
+
+  it("Matches expired deposits to the executed root bundle that refunds them", async function () {
+    let [refund] = await bundleDataClient.getExpiredDepositRefunds(blockRanges(), chainIds);
+    expect(refund.rootBundle).to.be.undefined;
+    expect(refund.rootBundleExecuted).to.be.false;
+    expect(refund.refunded).to.be.false;
+
+    await propose("0x01");
+    await execute();
+    [refund] = await bundleDataClient.getExpiredDepositRefunds(blockRanges(), chainIds);
+    expect(refund.rootBundle?.relayerRefundRoot).to.equal("0x01");
+    expect(refund.rootBundleExecuted).to.be.true;
+  });
+
+  it("Ignores disputed proposals that were subsequently re-proposed", async function () {
+    // The first proposal is disputed, and is therefore never executed.
+    await propose("0x01");
+    await propose("0x02");
+    await execute();
+
+    const [refund] = await bundleDataClient.getExpiredDepositRefunds(blockRanges(), chainIds);
+    expect(refund.rootBundle?.relayerRefundRoot).to.equal("0x02");
+    expect(refund.rootBundleExecuted).to.be.true;
+  });
+
+  it("Matches the pending re-proposal of a disputed proposal", async function () {
+    await propose("0x01");
+    hubPoolClient.rootBundleProposal = { ...hubPoolClient.rootBundleProposal, unclaimedPoolRebalanceLeafCount: 1 };
+    await propose("0x02");
+
+    const [refund] = await bundleDataClient.getExpiredDepositRefunds(blockRanges(), chainIds);
+    expect(refund.rootBundle?.relayerRefundRoot).to.equal("0x02");
+    expect(refund.rootBundleExecuted).to.be.false;
+  });
+});
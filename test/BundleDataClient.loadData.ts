@@ -0,0 +1,209 @@
+import { BundleDataClient, GLOBAL_CONFIG_STORE_KEYS } from "../src/clients";
+import { MockConfigStoreClient, MockHubPoolClient } from "../src/clients/mocks";
+import { FillStatus, FillType } from "../src/interfaces";
+import { bnZero, fixedPointAdjustment, toBN } from "../src/utils";
+import {
+  BundleDataClientFixture,
+  DEPOSIT_AMOUNT,
+  LP_FEE_PCT,
+  setupBundleDataClient,
+} from "./fixtures/BundleDataClient.Fixture";
+import { expect } from "./utils";
+
+const lpFee = DEPOSIT_AMOUNT.mul(LP_FEE_PCT).div(fixedPointAdjustment);
+
+describe("BundleDataClient: Load data", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let configStoreClient: MockConfigStoreClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let l2Tokens: { [chainId: number]: string };
+  let originChainId: number, destinationChainId: number;
+
+  // Apply the same block range to every chain.
+  const blockRanges = (startBlock: number, endBlock: number) => chainIds.map(() => [startBlock, endBlock]);
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, configStoreClient, hubPoolClient, chainIds, l2Tokens } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+  });
+
+  it("Includes deposits and fills made within the bundle block ranges", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 20);
+
+    const bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    expect(bundleData.bundleDepositsV3[originChainId][l2Tokens[originChainId]]).to.deep.equal([deposit]);
+    expect(bundleData.invalidFills).to.be.empty;
+
+    // The relayer is refunded the input amount, less the LP fee, in the repayment token.
+    const { fills, refunds, totalRefundAmount, realizedLpFees } =
+      bundleData.bundleFillsV3[destinationChainId][l2Tokens[destinationChainId]];
+    expect(fills.map(({ transactionHash }) => transactionHash)).to.deep.equal([fill.transactionHash]);
+    expect(fills[0].lpFeePct.eq(LP_FEE_PCT)).to.be.true;
+    expect(refunds[fill.relayer].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+    expect(totalRefundAmount.eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+    expect(realizedLpFees.eq(lpFee)).to.be.true;
+
+    expect(bundleData.bundleSlowFillsV3).to.be.empty;
+    expect(bundleData.unexecutableSlowFills).to.be.empty;
+    expect(bundleData.expiredDepositsToRefundV3).to.be.empty;
+  });
+
+  it("Attributes fills to the bundle that covers them on the destination chain", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 70, { repaymentChainId: originChainId });
+
+    // The deposit is included in the first bundle, but its fill is not.
+    let bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    expect(bundleData.bundleDepositsV3[originChainId][l2Tokens[originChainId]]).to.have.length(1);
+    expect(bundleData.bundleFillsV3).to.be.empty;
+
+    // The fill is included in the following bundle and refunded on the requested repayment chain.
+    bundleData = await bundleDataClient.loadData(blockRanges(51, 100), chainIds);
+    expect(bundleData.bundleDepositsV3).to.be.empty;
+    const { refunds } = bundleData.bundleFillsV3[originChainId][l2Tokens[originChainId]];
+    expect(refunds[fill.relayer].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+
+    // Neither bundle includes the fill if it falls after the end of the destination chain block range.
+    const ranges = blockRanges(51, 100);
+    ranges[chainIds.indexOf(destinationChainId)] = [51, 69];
+    bundleData = await bundleDataClient.loadData(ranges, chainIds);
+    expect(bundleData.bundleFillsV3).to.be.empty;
+  });
+
+  it("Rejects fills that do not match a deposit", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 20, { outputAmount: DEPOSIT_AMOUNT.sub(1) });
+
+    const bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    expect(bundleData.bundleFillsV3).to.be.empty;
+    expect(bundleData.invalidFills.map(({ transactionHash }) => transactionHash)).to.deep.equal([fill.transactionHash]);
+  });
+
+  it("Produces slow fills for requested deposits, and reclaims them once fast filled", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    await fixture.requestSlowFill(deposit, 20);
+
+    let bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    const [slowFill] = bundleData.bundleSlowFillsV3[destinationChainId][l2Tokens[destinationChainId]];
+    expect(slowFill.depositId).to.equal(deposit.depositId);
+    expect(slowFill.lpFeePct.eq(LP_FEE_PCT)).to.be.true;
+    expect(bundleData.unexecutableSlowFills).to.be.empty;
+
+    // The deposit is subsequently filled by a relayer, before the slow fill leaf is executed.
+    const fill = await fixture.fill(deposit, 70, { relayExecutionInfo: { fillType: FillType.ReplacedSlowFill } });
+    bundleData = await bundleDataClient.loadData(blockRanges(51, 100), chainIds);
+    expect(bundleData.bundleSlowFillsV3).to.be.empty;
+    const { refunds } = bundleData.bundleFillsV3[destinationChainId][l2Tokens[destinationChainId]];
+    expect(refunds[fill.relayer].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+
+    const [unexecutableSlowFill] = bundleData.unexecutableSlowFills[destinationChainId][l2Tokens[destinationChainId]];
+    expect(unexecutableSlowFill.depositId).to.equal(deposit.depositId);
+    expect(unexecutableSlowFill.lpFeePct.eq(LP_FEE_PCT)).to.be.true;
+
+    // A bundle that spans both the request and the fill produces no slow fill, so there is nothing to reclaim.
+    bundleData = await bundleDataClient.loadData(blockRanges(0, 100), chainIds);
+    expect(bundleData.bundleSlowFillsV3).to.be.empty;
+    expect(bundleData.unexecutableSlowFills).to.be.empty;
+    expect(bundleData.bundleFillsV3[destinationChainId][l2Tokens[destinationChainId]].fills).to.have.length(1);
+  });
+
+  it("Refunds deposits that expire unfilled to the depositor", async function () {
+    const fillDeadline = fixture.currentTime - 1;
+    const expiredDeposit = await fixture.deposit(originChainId, destinationChainId, 10, { fillDeadline });
+    const filledDeposit = await fixture.deposit(originChainId, destinationChainId, 11, { fillDeadline });
+    fixture.setFillStatus(filledDeposit, destinationChainId, FillStatus.Filled);
+
+    // Unexpired deposits are not refunded.
+    await fixture.deposit(originChainId, destinationChainId, 12);
+
+    const bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    const expiredDeposits = bundleData.expiredDepositsToRefundV3[originChainId][l2Tokens[originChainId]];
+    expect(expiredDeposits.map(({ depositId }) => depositId)).to.deep.equal([expiredDeposit.depositId]);
+
+    const refunds = bundleDataClient.getRefundsFromBundle(bundleData);
+    const refund = refunds[originChainId][l2Tokens[originChainId]][expiredDeposit.depositor];
+    expect(refund.eq(DEPOSIT_AMOUNT)).to.be.true;
+    expect(refunds[originChainId][l2Tokens[originChainId]][filledDeposit.depositor]).to.be.undefined;
+  });
+
+  it("Refunds fills of lite chain deposits on the origin chain", async function () {
+    configStoreClient.updateGlobalConfig(
+      GLOBAL_CONFIG_STORE_KEYS.LITE_CHAIN_ID_INDICES,
+      JSON.stringify([originChainId])
+    );
+    await configStoreClient.update();
+
+    // Lite chain deposits must be quoted after the origin chain was marked as a lite chain.
+    const quoteTimestamp = fixture.currentTime + 60;
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10, { quoteTimestamp });
+    expect(deposit.fromLiteChain).to.be.true;
+
+    const fill = await fixture.fill(deposit, 20, { repaymentChainId: destinationChainId });
+    const slowFillDeposit = await fixture.deposit(originChainId, destinationChainId, 11, { quoteTimestamp });
+    await fixture.requestSlowFill(slowFillDeposit, 21);
+
+    const bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    expect(bundleData.bundleFillsV3[destinationChainId]).to.be.undefined;
+    const { refunds } = bundleData.bundleFillsV3[originChainId][l2Tokens[originChainId]];
+    expect(refunds[fill.relayer].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+
+    // Lite chain deposits are never slow filled.
+    expect(bundleData.bundleSlowFillsV3).to.be.empty;
+  });
+
+  it("Does not reclaim replaced slow fills of lite chain deposits", async function () {
+    configStoreClient.updateGlobalConfig(
+      GLOBAL_CONFIG_STORE_KEYS.LITE_CHAIN_ID_INDICES,
+      JSON.stringify([originChainId])
+    );
+    await configStoreClient.update();
+
+    const quoteTimestamp = fixture.currentTime + 60;
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10, { quoteTimestamp });
+    await fixture.requestSlowFill(deposit, 20);
+
+    // No slow fill leaf is produced for the request, so the subsequent fill does not make one unexecutable.
+    let bundleData = await bundleDataClient.loadData(blockRanges(0, 50), chainIds);
+    expect(bundleData.bundleSlowFillsV3).to.be.empty;
+
+    const fill = await fixture.fill(deposit, 70, { relayExecutionInfo: { fillType: FillType.ReplacedSlowFill } });
+    bundleData = await bundleDataClient.loadData(blockRanges(51, 100), chainIds);
+    expect(bundleData.unexecutableSlowFills).to.be.empty;
+    const { refunds } = bundleData.bundleFillsV3[originChainId][l2Tokens[originChainId]];
+    expect(refunds[fill.relayer].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+  });
+
+  it("Loads data for a proposed root bundle", async function () {
+    const { hubPoolChainId } = fixture;
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 70);
+
+    // Propose and fully execute a bundle over the first 50 blocks of each chain.
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(50))
+    );
+    await hubPoolClient.update();
+    hubPoolClient.executeRootBundle(bnZero, 0, toBN(hubPoolChainId), [], [], [], []);
+    await hubPoolClient.update();
+
+    // The following bundle starts after the end blocks of the executed bundle.
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(100))
+    );
+    await hubPoolClient.update();
+    const [, rootBundle] = hubPoolClient.getProposedRootBundles();
+
+    const bundleData = await bundleDataClient.loadDataForRootBundle(rootBundle);
+    expect(bundleData.bundleDepositsV3).to.be.empty;
+    const { fills } = bundleData.bundleFillsV3[destinationChainId][l2Tokens[destinationChainId]];
+    expect(fills.map(({ transactionHash }) => transactionHash)).to.deep.equal([fill.transactionHash]);
+  });
+});
@@ -0,0 +1,174 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import { PoolRebalanceLeaf, RelayerRefundLeaf, SlowFillLeaf } from "../src/interfaces";
+import {
+  bnZero,
+  buildPoolRebalanceLeafTree,
+  buildRelayerRefundTree,
+  buildSlowRelayTree,
+  fixedPointAdjustment,
+  toBN,
+} from "../src/utils";
+import {
+  BundleDataClientFixture,
+  DEPOSIT_AMOUNT,
+  LP_FEE_PCT,
+  setupBundleDataClient,
+} from "./fixtures/BundleDataClient.Fixture";
+import { assertPromiseError, expect } from "./utils";
+
+const lpFee = DEPOSIT_AMOUNT.mul(LP_FEE_PCT).div(fixedPointAdjustment);
+
+describe("BundleDataClient: Root bundle proposals", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let l2Tokens: { [chainId: number]: string };
+  let originChainId: number, destinationChainId: number;
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds, l2Tokens } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+
+    // A previous root bundle covering the first 50 blocks of each chain has been fully executed.
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(50))
+    );
+    await hubPoolClient.update();
+    hubPoolClient.executeRootBundle(bnZero, 0, toBN(fixture.hubPoolChainId), [], [], [], []);
+    await hubPoolClient.update();
+  });
+
+  it("Proposes a root bundle from the end of the previous root bundle", async function () {
+    // Activity within the previous root bundle is not proposed again.
+    const prevDeposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    await fixture.fill(prevDeposit, 20);
+
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 60);
+    const fill = await fixture.fill(deposit, 70);
+    const slowFillDeposit = await fixture.deposit(originChainId, destinationChainId, 61);
+    await fixture.requestSlowFill(slowFillDeposit, 71);
+    Object.values(fixture.spokePoolClients).forEach((spokePoolClient) => spokePoolClient.setLatestBlockNumber(100));
+
+    const proposal = await bundleDataClient.buildRootBundleProposal();
+    expect(proposal.blockRanges).to.deep.equal(chainIds.map(() => [51, 100]));
+    expect(proposal.bundleEvaluationBlockNumbers).to.deep.equal(chainIds.map(() => 100));
+
+    // The origin chain returns both deposits to the HubPool. The destination chain is sent the relayer refund and the
+    // slow fill amount. Leaves are ordered by chain ID.
+    const [firstChainId, secondChainId] = [originChainId, destinationChainId].sort((chainA, chainB) => chainA - chainB);
+    const netSendAmounts = {
+      [originChainId]: DEPOSIT_AMOUNT.mul(-2),
+      [destinationChainId]: DEPOSIT_AMOUNT.sub(lpFee).mul(2),
+    };
+    const bundleLpFees = { [originChainId]: bnZero, [destinationChainId]: lpFee.mul(2) };
+    const poolRebalanceLeaves: PoolRebalanceLeaf[] = [firstChainId, secondChainId].map((chainId, leafId) => ({
+      chainId,
+      groupIndex: 0,
+      leafId,
+      l1Tokens: [fixture.l1Token],
+      bundleLpFees: [bundleLpFees[chainId]],
+      netSendAmounts: [netSendAmounts[chainId]],
+      runningBalances: [bnZero],
+    }));
+
+    const refunds = {
+      [originChainId]: { amountToReturn: DEPOSIT_AMOUNT.mul(2), refundAddresses: [], refundAmounts: [] },
+      [destinationChainId]: {
+        amountToReturn: bnZero,
+        refundAddresses: [fill.relayer],
+        refundAmounts: [DEPOSIT_AMOUNT.sub(lpFee)],
+      },
+    };
+    const relayerRefundLeaves: RelayerRefundLeaf[] = [firstChainId, secondChainId].map((chainId, leafId) => ({
+      chainId,
+      leafId,
+      l2TokenAddress: l2Tokens[chainId],
+      ...refunds[chainId],
+    }));
+
+    const slowFillLeaves: SlowFillLeaf[] = [
+      {
+        relayData: {
+          depositor: slowFillDeposit.depositor,
+          recipient: slowFillDeposit.recipient,
+          exclusiveRelayer: slowFillDeposit.exclusiveRelayer,
+          inputToken: slowFillDeposit.inputToken,
+          outputToken: slowFillDeposit.outputToken,
+          inputAmount: slowFillDeposit.inputAmount,
+          outputAmount: slowFillDeposit.outputAmount,
+          originChainId,
+          depositId: slowFillDeposit.depositId,
+          fillDeadline: slowFillDeposit.fillDeadline,
+          exclusivityDeadline: slowFillDeposit.exclusivityDeadline,
+          message: slowFillDeposit.message,
+        },
+        chainId: destinationChainId,
+        updatedOutputAmount: DEPOSIT_AMOUNT.sub(lpFee),
+      },
+    ];
+
+    expect(proposal.poolRebalanceLeaves).to.have.length(poolRebalanceLeaves.length);
+    expect(proposal.relayerRefundLeaves).to.have.length(relayerRefundLeaves.length);
+    expect(proposal.slowFillLeaves).to.have.length(slowFillLeaves.length);
+    expect(proposal.roots).to.deep.equal({
+      poolRebalanceRoot: buildPoolRebalanceLeafTree(poolRebalanceLeaves).getHexRoot(),
+      relayerRefundRoot: buildRelayerRefundTree(relayerRefundLeaves).getHexRoot(),
+      slowRelayRoot: buildSlowRelayTree(slowFillLeaves).getHexRoot(),
+    });
+
+    // The proposal transaction commits to the bundle end blocks, leaf count and roots.
+    const args = hubPoolClient.hubPool.interface.decodeFunctionData(
+      "proposeRootBundle",
+      proposal.transaction.data ?? ""
+    );
+    expect(args.bundleEvaluationBlockNumbers.map(Number)).to.deep.equal(proposal.bundleEvaluationBlockNumbers);
+    expect(args.poolRebalanceLeafCount).to.equal(poolRebalanceLeaves.length);
+    expect([args.poolRebalanceRoot, args.relayerRefundRoot, args.slowRelayRoot]).to.deep.equal([
+      proposal.roots.poolRebalanceRoot,
+      proposal.roots.relayerRefundRoot,
+      proposal.roots.slowRelayRoot,
+    ]);
+  });
+
+  it("Rebuilds the leaves of a proposed root bundle", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 60);
+    await fixture.fill(deposit, 70);
+    Object.values(fixture.spokePoolClients).forEach((spokePoolClient) => spokePoolClient.setLatestBlockNumber(100));
+
+    const proposal = await bundleDataClient.buildRootBundleProposal();
+    const { poolRebalanceRoot, relayerRefundRoot, slowRelayRoot } = proposal.roots;
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      proposal.poolRebalanceLeaves.length,
+      proposal.bundleEvaluationBlockNumbers.map((blockNumber) => toBN(blockNumber)),
+      poolRebalanceRoot,
+      relayerRefundRoot,
+      slowRelayRoot
+    );
+    await hubPoolClient.update();
+
+    const leaves = await bundleDataClient.buildRootBundleLeavesForRootBundle(
+      hubPoolClient.getLatestProposedRootBundle()
+    );
+    expect(leaves.poolRebalanceLeaves).to.deep.equal(proposal.poolRebalanceLeaves);
+    expect(leaves.relayerRefundLeaves).to.deep.equal(proposal.relayerRefundLeaves);
+    expect(leaves.slowFillLeaves).to.deep.equal(proposal.slowFillLeaves);
+  });
+
+  it("Rejects proposals while the previous root bundle is pending", async function () {
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(100))
+    );
+    hubPoolClient.rootBundleProposal = { ...hubPoolClient.rootBundleProposal, unclaimedPoolRebalanceLeafCount: 1 };
+    await hubPoolClient.update();
+
+    await assertPromiseError(bundleDataClient.buildRootBundleProposal(), "unexecuted PoolRebalanceLeaves");
+  });
+});
@@ -0,0 +1,300 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import {
+  buildSlowFillLeaves,
+  constructPoolRebalanceLeaves,
+  getBundleRunningBalances,
+} from "../src/clients/BundleDataClient";
+import { RootBundleValidationStatus } from "../src/interfaces";
+import { bnOne, bnZero, compareAddresses, computeRootBundleRoots, fixedPointAdjustment, toBN } from "../src/utils";
+import {
+  BundleDataClientFixture,
+  DEPOSIT_AMOUNT,
+  LP_FEE_PCT,
+  MAX_L1_TOKENS_PER_LEAF,
+  MAX_REFUNDS_PER_LEAF,
+  setupBundleDataClient,
+} from "./fixtures/BundleDataClient.Fixture";
+import { expect, randomAddress, toBNWei } from "./utils";
+
+const lpFee = DEPOSIT_AMOUNT.mul(LP_FEE_PCT).div(fixedPointAdjustment);
+
+describe("BundleDataClient: Root bundles", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let l2Tokens: { [chainId: number]: string };
+  let originChainId: number, destinationChainId: number;
+
+  const blockRanges = (startBlock: number, endBlock: number) => chainIds.map(() => [startBlock, endBlock]);
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds, l2Tokens } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+  });
+
+  it("Builds leaves for each tree in the root bundle", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    const fill = await fixture.fill(deposit, 20);
+    const slowFillDeposit = await fixture.deposit(originChainId, destinationChainId, 11);
+    await fixture.requestSlowFill(slowFillDeposit, 21);
+
+    const ranges = blockRanges(0, 50);
+    const bundleData = await bundleDataClient.loadData(ranges, chainIds);
+    const { poolRebalanceLeaves, relayerRefundLeaves, slowFillLeaves } = bundleDataClient.buildRootBundleLeaves(
+      bundleData,
+      ranges,
+      chainIds
+    );
+
+    // The origin chain returns both deposits to the HubPool, and the destination chain is sent the fill refund and
+    // the slow fill amount. The HubPool chain has no flows, so it has no leaf.
+    const leafFor = (chainId: number) => poolRebalanceLeaves.find((leaf) => leaf.chainId === chainId);
+    expect(poolRebalanceLeaves.map(({ chainId }) => chainId)).to.deep.equal(
+      [originChainId, destinationChainId].sort((chainA, chainB) => chainA - chainB)
+    );
+    expect(poolRebalanceLeaves.map(({ leafId }) => leafId)).to.deep.equal([0, 1]);
+
+    const originLeaf = leafFor(originChainId);
+    expect(originLeaf?.l1Tokens).to.deep.equal([fixture.l1Token]);
+    expect(originLeaf?.netSendAmounts[0].eq(DEPOSIT_AMOUNT.mul(-2))).to.be.true;
+    expect(originLeaf?.bundleLpFees[0].eq(bnZero)).to.be.true;
+
+    const destinationLeaf = leafFor(destinationChainId);
+    expect(destinationLeaf?.netSendAmounts[0].eq(DEPOSIT_AMOUNT.sub(lpFee).mul(2))).to.be.true;
+    expect(destinationLeaf?.bundleLpFees[0].eq(lpFee.mul(2))).to.be.true;
+    expect(destinationLeaf?.runningBalances[0].eq(bnZero)).to.be.true;
+
+    // The relayer is refunded on the destination chain, and the deposits are returned to the HubPool from the origin.
+    const refundLeafFor = (chainId: number) => relayerRefundLeaves.find((leaf) => leaf.chainId === chainId);
+    expect(relayerRefundLeaves).to.have.length(2);
+    expect(refundLeafFor(destinationChainId)?.refundAddresses).to.deep.equal([fill.relayer]);
+    expect(refundLeafFor(destinationChainId)?.refundAmounts[0].eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+    expect(refundLeafFor(destinationChainId)?.amountToReturn.eq(bnZero)).to.be.true;
+    expect(refundLeafFor(originChainId)?.l2TokenAddress).to.equal(l2Tokens[originChainId]);
+    expect(refundLeafFor(originChainId)?.refundAddresses).to.be.empty;
+    expect(refundLeafFor(originChainId)?.amountToReturn.eq(DEPOSIT_AMOUNT.mul(2))).to.be.true;
+
+    expect(slowFillLeaves).to.have.length(1);
+    const [slowFillLeaf] = slowFillLeaves;
+    expect(slowFillLeaf.chainId).to.equal(destinationChainId);
+    expect(slowFillLeaf.relayData.depositId).to.equal(slowFillDeposit.depositId);
+    expect(slowFillLeaf.updatedOutputAmount.eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+  });
+
+  it("Splits PoolRebalanceLeaves by the max L1 token count", function () {
+    const l1Tokens = [randomAddress(), randomAddress(), randomAddress()].sort(compareAddresses);
+    const runningBalances = {
+      [originChainId]: Object.fromEntries(l1Tokens.map((l1Token) => [l1Token, toBNWei("1")])),
+      [destinationChainId]: { [l1Tokens[0]]: toBNWei("-1") },
+    };
+
+    const leaves = constructPoolRebalanceLeaves(
+      hubPoolClient.latestBlockSearched,
+      runningBalances,
+      {},
+      hubPoolClient.configStoreClient
+    );
+
+    const originLeaves = leaves.filter(({ chainId }) => chainId === originChainId);
+    expect(originLeaves.map(({ groupIndex }) => groupIndex)).to.deep.equal([0, 1]);
+    expect(originLeaves.map(({ l1Tokens }) => l1Tokens)).to.deep.equal([
+      l1Tokens.slice(0, MAX_L1_TOKENS_PER_LEAF),
+      l1Tokens.slice(MAX_L1_TOKENS_PER_LEAF),
+    ]);
+
+    const [destinationLeaf] = leaves.filter(({ chainId }) => chainId === destinationChainId);
+    expect(destinationLeaf.groupIndex).to.equal(0);
+    expect(destinationLeaf.netSendAmounts[0].eq(toBNWei("-1"))).to.be.true;
+
+    // Leaf IDs are sequential across chains, ordered by chain ID.
+    expect(leaves.map(({ leafId }) => leafId)).to.deep.equal([0, 1, 2]);
+    expect(leaves.map(({ chainId }) => chainId)).to.deep.equal(
+      leaves.map(({ chainId }) => chainId).sort((chainA, chainB) => chainA - chainB)
+    );
+
+    // An explicit max L1 token count overrides the ConfigStore.
+    expect(
+      constructPoolRebalanceLeaves(
+        hubPoolClient.latestBlockSearched,
+        runningBalances,
+        {},
+        hubPoolClient.configStoreClient,
+        3
+      )
+    ).to.have.length(2);
+  });
+
+  it("Splits RelayerRefundLeaves by the max refund count", async function () {
+    const fills = [];
+    const amounts = ["100", "300", "200"];
+    for (let idx = 0; idx < amounts.length; ++idx) {
+      const inputAmount = toBNWei(amounts[idx]);
+      const deposit = await fixture.deposit(originChainId, destinationChainId, 10 + idx, {
+        inputAmount,
+        outputAmount: inputAmount,
+      });
+      fills.push(await fixture.fill(deposit, 20 + idx));
+    }
+
+    const ranges = blockRanges(0, 50);
+    const bundleData = await bundleDataClient.loadData(ranges, chainIds);
+    const { relayerRefundLeaves } = bundleDataClient.buildRootBundleLeaves(bundleData, ranges, chainIds);
+
+    // Refunds are ordered by descending amount before they are split across leaves.
+    const [smallest, largest, middle] = fills.map(({ relayer }) => relayer);
+    const destinationLeaves = relayerRefundLeaves.filter(({ chainId }) => chainId === destinationChainId);
+    expect(destinationLeaves.map(({ refundAddresses }) => refundAddresses)).to.deep.equal([
+      [largest, middle],
+      [smallest],
+    ]);
+    expect(destinationLeaves[0].refundAddresses).to.have.length(MAX_REFUNDS_PER_LEAF);
+    destinationLeaves.forEach(({ l2TokenAddress, amountToReturn }) => {
+      expect(l2TokenAddress).to.equal(l2Tokens[destinationChainId]);
+      expect(amountToReturn.eq(bnZero)).to.be.true;
+    });
+
+    // Leaf IDs are sequential over all chains.
+    expect(relayerRefundLeaves.map(({ leafId }) => leafId)).to.deep.equal(relayerRefundLeaves.map((_, idx) => idx));
+  });
+
+  it("Rounds slow fill output amounts down", async function () {
+    const inputAmount = toBN(3);
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10, { inputAmount, outputAmount: bnOne });
+    const lpFeePct = toBNWei("0.5");
+    const [slowFillLeaf] = buildSlowFillLeaves({
+      bundleSlowFillsV3: { [destinationChainId]: { [l2Tokens[destinationChainId]]: [{ ...deposit, lpFeePct }] } },
+    });
+
+    // The LP fee of 1.5 is rounded in favour of the HubPool.
+    expect(slowFillLeaf.updatedOutputAmount.eq(bnOne)).to.be.true;
+  });
+
+  it("Accounts for slow fills at the output amounts of their leaves", async function () {
+    const { l1Token } = fixture;
+    // An LP fee of 1/3 does not divide the input amount exactly.
+    const inputAmount = toBNWei("1").add(1);
+    const lpFeePct = fixedPointAdjustment.div(3);
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10, { inputAmount, outputAmount: bnOne });
+    const slowFills = { [destinationChainId]: { [l2Tokens[destinationChainId]]: [{ ...deposit, lpFeePct }] } };
+    const noFlows = { bundleDepositsV3: {}, bundleFillsV3: {}, expiredDepositsToRefundV3: {} };
+
+    const [{ updatedOutputAmount }] = buildSlowFillLeaves({ bundleSlowFillsV3: slowFills });
+    const slowFillLpFee = inputAmount.sub(updatedOutputAmount);
+    expect(inputAmount.mul(lpFeePct).mod(fixedPointAdjustment).eq(bnZero)).to.be.false;
+
+    let { runningBalances, realizedLpFees } = getBundleRunningBalances(
+      { ...noFlows, bundleSlowFillsV3: slowFills, unexecutableSlowFills: {} },
+      hubPoolClient.latestBlockSearched,
+      hubPoolClient
+    );
+    expect(runningBalances[destinationChainId][l1Token].eq(updatedOutputAmount)).to.be.true;
+    expect(realizedLpFees[destinationChainId][l1Token].eq(slowFillLpFee)).to.be.true;
+
+    // Slow fills that can no longer be executed are reversed by the same amounts.
+    ({ runningBalances, realizedLpFees } = getBundleRunningBalances(
+      { ...noFlows, bundleSlowFillsV3: {}, unexecutableSlowFills: slowFills },
+      hubPoolClient.latestBlockSearched,
+      hubPoolClient
+    ));
+    expect(runningBalances[destinationChainId][l1Token].eq(updatedOutputAmount.mul(-1))).to.be.true;
+    expect(realizedLpFees[destinationChainId][l1Token].eq(slowFillLpFee.mul(-1))).to.be.true;
+  });
+
+  describe("Validation", function () {
+    let roots: ReturnType<typeof computeRootBundleRoots>;
+    let poolRebalanceLeafCount: number;
+
+    const endBlocks = () => chainIds.map(() => toBN(50));
+    const setLatestBlockSearched = (blockNumber: number) =>
+      chainIds.forEach((chainId) => fixture.spokePoolClients[chainId].setLatestBlockNumber(blockNumber));
+
+    beforeEach(async function () {
+      const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+      await fixture.fill(deposit, 20);
+      const slowFillDeposit = await fixture.deposit(originChainId, destinationChainId, 11);
+      await fixture.requestSlowFill(slowFillDeposit, 21);
+      setLatestBlockSearched(100);
+
+      const ranges = blockRanges(0, 50);
+      const bundleData = await bundleDataClient.loadData(ranges, chainIds);
+      const leaves = bundleDataClient.buildRootBundleLeaves(bundleData, ranges, chainIds);
+      roots = computeRootBundleRoots(leaves);
+      poolRebalanceLeafCount = leaves.poolRebalanceLeaves.length;
+    });
+
+    const propose = async (
+      bundleEvaluationBlockNumbers = endBlocks(),
+      leafCount = poolRebalanceLeafCount,
+      relayerRefundRoot = roots.relayerRefundRoot
+    ) => {
+      const { poolRebalanceRoot, slowRelayRoot } = roots;
+      hubPoolClient.proposeRootBundle(
+        fixture.currentTime,
+        leafCount,
+        bundleEvaluationBlockNumbers,
+        poolRebalanceRoot,
+        relayerRefundRoot,
+        slowRelayRoot
+      );
+      await hubPoolClient.update();
+      return hubPoolClient.getLatestProposedRootBundle();
+    };
+
+    it("Accepts a root bundle that matches the SpokePool data", async function () {
+      const validation = await bundleDataClient.validateRootBundle(await propose());
+      expect(validation.status).to.equal(RootBundleValidationStatus.Valid);
+      if (validation.status === RootBundleValidationStatus.Valid) {
+        expect(validation.blockRanges).to.deep.equal(blockRanges(0, 50));
+        expect(validation.expectedRoots).to.deep.equal(roots);
+      }
+    });
+
+    it("Rejects a root bundle with mismatched roots or leaf counts", async function () {
+      const relayerRefundRoot = "0x" + "11".repeat(32);
+      const validation = await bundleDataClient.validateRootBundle(
+        await propose(endBlocks(), poolRebalanceLeafCount + 1, relayerRefundRoot)
+      );
+      expect(validation.status).to.equal(RootBundleValidationStatus.Invalid);
+      if (validation.status === RootBundleValidationStatus.Invalid) {
+        expect(validation.mismatches).to.deep.equal([
+          { field: "relayerRefundRoot", expected: roots.relayerRefundRoot, proposed: relayerRefundRoot },
+          {
+            field: "poolRebalanceLeafCount",
+            expected: String(poolRebalanceLeafCount),
+            proposed: String(poolRebalanceLeafCount + 1),
+          },
+        ]);
+      }
+    });
+
+    it("Rejects a root bundle with the wrong number of bundle end blocks", async function () {
+      const validation = await bundleDataClient.validateRootBundle(await propose(endBlocks().slice(1)));
+      expect(validation.status).to.equal(RootBundleValidationStatus.Invalid);
+      if (validation.status === RootBundleValidationStatus.Invalid) {
+        expect(validation.mismatches.map(({ field }) => field)).to.deep.equal(["bundleBlockRanges"]);
+      }
+    });
+
+    it("Is undecidable when the bundle block ranges cannot be resolved", async function () {
+      // The bundle end blocks do not advance beyond the start of the implied block ranges.
+      const validation = await bundleDataClient.validateRootBundle(await propose(chainIds.map(() => bnZero)));
+      expect(validation.status).to.equal(RootBundleValidationStatus.Undecidable);
+      if (validation.status === RootBundleValidationStatus.Undecidable) {
+        expect(validation.reason).to.match(/Unable to resolve bundle block ranges/);
+        expect(validation.chainIds).to.deep.equal([fixture.hubPoolChainId]);
+      }
+    });
+
+    it("Is undecidable when the SpokePoolClients do not cover the bundle block ranges", async function () {
+      fixture.spokePoolClients[destinationChainId].setLatestBlockNumber(40);
+      const validation = await bundleDataClient.validateRootBundle(await propose());
+      expect(validation.status).to.equal(RootBundleValidationStatus.Undecidable);
+      if (validation.status === RootBundleValidationStatus.Undecidable) {
+        expect(validation.chainIds).to.deep.equal([destinationChainId]);
+      }
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import {
+  DepositWithBlock,
+  FillType,
+  PoolRebalanceLeaf,
+  ProposedRootBundle,
+  RelayerRefundLeaf,
+  RootBundleRelayWithBlock,
+  SlowFillLeaf,
+} from "../src/interfaces";
+import { computeRootBundleRoots, toBN } from "../src/utils";
+import { BundleDataClientFixture, setupBundleDataClient } from "./fixtures/BundleDataClient.Fixture";
+import { expect } from "./utils";
+
+type RootBundleLeaves = {
+  poolRebalanceLeaves: PoolRebalanceLeaf[];
+  relayerRefundLeaves: RelayerRefundLeaf[];
+  slowFillLeaves: SlowFillLeaf[];
+};
+
+describe("BundleDataClient: Root bundle executions", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let originChainId: number, destinationChainId: number;
+  let leaves: RootBundleLeaves;
+
+  const propose = async (leaves: RootBundleLeaves): Promise<ProposedRootBundle> => {
+    const { poolRebalanceRoot, relayerRefundRoot, slowRelayRoot } = computeRootBundleRoots(leaves);
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      leaves.poolRebalanceLeaves.length,
+      chainIds.map(() => toBN(50)),
+      poolRebalanceRoot,
+      relayerRefundRoot,
+      slowRelayRoot
+    );
+    hubPoolClient.rootBundleProposal = {
+      ...hubPoolClient.rootBundleProposal,
+      unclaimedPoolRebalanceLeafCount: leaves.poolRebalanceLeaves.length,
+    };
+    await hubPoolClient.update();
+    return hubPoolClient.getLatestProposedRootBundle();
+  };
+
+  const relay = async (chainId: number, { relayerRefundRoot, slowRelayRoot }: ProposedRootBundle): Promise<void> => {
+    const spokePoolClient = fixture.spokePoolClients[chainId];
+    spokePoolClient.relayRootBundle({ rootBundleId: 0, relayerRefundRoot, slowRelayRoot } as RootBundleRelayWithBlock);
+    await spokePoolClient.update();
+  };
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    await fixture.fill(deposit, 20);
+    for (const blockNumber of [11, 12]) {
+      const slowFillDeposit = await fixture.deposit(originChainId, destinationChainId, blockNumber);
+      await fixture.requestSlowFill(slowFillDeposit, blockNumber + 10);
+    }
+
+    const blockRanges = chainIds.map(() => [0, 50]);
+    const bundleData = await bundleDataClient.loadData(blockRanges, chainIds);
+    leaves = bundleDataClient.buildRootBundleLeaves(bundleData, blockRanges, chainIds);
+    expect(leaves.slowFillLeaves).to.have.length(2);
+  });
+
+  it("Only executes SpokePool leaves once the root bundle has been relayed", async function () {
+    const rootBundle = await propose(leaves);
+
+    let executions = await bundleDataClient.buildRootBundleExecutions(rootBundle, leaves);
+    expect(executions.poolRebalanceLeaves.map(({ leaf }) => leaf)).to.deep.equal(leaves.poolRebalanceLeaves);
+    expect(executions.relayerRefundLeaves).to.be.empty;
+    expect(executions.slowFillLeaves).to.be.empty;
+
+    await relay(destinationChainId, rootBundle);
+    executions = await bundleDataClient.buildRootBundleExecutions(rootBundle, leaves);
+    expect(executions.relayerRefundLeaves[originChainId]).to.be.undefined;
+    expect(executions.relayerRefundLeaves[destinationChainId].map(({ leaf }) => leaf)).to.deep.equal(
+      leaves.relayerRefundLeaves.filter(({ chainId }) => chainId === destinationChainId)
+    );
+    expect(executions.slowFillLeaves[destinationChainId].map(({ leaf }) => leaf)).to.deep.equal(leaves.slowFillLeaves);
+
+    // Each slow fill execution carries its leaf and proof.
+    const { spokePool } = fixture.spokePoolClients[destinationChainId];
+    executions.slowFillLeaves[destinationChainId].forEach(({ leaf, proof, transaction }) => {
+      const [, rootBundleId, txnProof] = spokePool.interface.decodeFunctionData(
+        "executeV3SlowRelayLeaf",
+        transaction.data as string
+      );
+      expect(rootBundleId).to.equal(0);
+      expect(txnProof).to.deep.equal(proof);
+      expect(leaf.chainId).to.equal(destinationChainId);
+    });
+  });
+
+  it("Omits slow fill leaves for filled deposits", async function () {
+    const rootBundle = await propose(leaves);
+    await relay(destinationChainId, rootBundle);
+
+    // The first slow fill deposit is filled by a relayer before its slow fill leaf is executed.
+    const [filledLeaf, unfilledLeaf] = leaves.slowFillLeaves;
+    const { depositId } = filledLeaf.relayData;
+    const deposit = fixture.spokePoolClients[originChainId].getDeposit(depositId) as DepositWithBlock;
+    await fixture.fill(deposit, 60, { relayExecutionInfo: { fillType: FillType.ReplacedSlowFill } });
+
+    const executions = await bundleDataClient.buildRootBundleExecutions(rootBundle, leaves);
+    expect(executions.slowFillLeaves[destinationChainId].map(({ leaf }) => leaf)).to.deep.equal([unfilledLeaf]);
+  });
+
+  it("Omits slow fill leaves whose fill deadline has passed", async function () {
+    // The first slow fill deposit expires before its slow fill leaf is executed.
+    const currentTime = fixture.spokePoolClients[destinationChainId].getCurrentTime();
+    const [expiringLeaf, unexpiredLeaf] = leaves.slowFillLeaves;
+    const expiredLeaf = { ...expiringLeaf, relayData: { ...expiringLeaf.relayData, fillDeadline: currentTime - 1 } };
+    leaves = { ...leaves, slowFillLeaves: [expiredLeaf, unexpiredLeaf] };
+
+    const rootBundle = await propose(leaves);
+    await relay(destinationChainId, rootBundle);
+
+    const executions = await bundleDataClient.buildRootBundleExecutions(rootBundle, leaves);
+    expect(executions.slowFillLeaves[destinationChainId].map(({ leaf }) => leaf)).to.deep.equal([unexpiredLeaf]);
+  });
+});
@@ -0,0 +1,92 @@
+import { BundleDataClient } from "../src/clients";
+import { MockHubPoolClient } from "../src/clients/mocks";
+import { RunningBalanceProjection } from "../src/interfaces";
+import { bnZero, fixedPointAdjustment, toBN } from "../src/utils";
+import {
+  BundleDataClientFixture,
+  DEPOSIT_AMOUNT,
+  LP_FEE_PCT,
+  setupBundleDataClient,
+} from "./fixtures/BundleDataClient.Fixture";
+import { expect, toBNWei } from "./utils";
+
+const lpFee = DEPOSIT_AMOUNT.mul(LP_FEE_PCT).div(fixedPointAdjustment);
+
+describe("BundleDataClient: Running balance projections", function () {
+  let fixture: BundleDataClientFixture;
+  let bundleDataClient: BundleDataClient;
+  let hubPoolClient: MockHubPoolClient;
+  let chainIds: number[];
+  let originChainId: number, destinationChainId: number;
+
+  const projectionFor = (projections: RunningBalanceProjection[], chainId: number) => {
+    const projection = projections.find((projection) => projection.chainId === chainId);
+    expect(projection).to.not.be.undefined;
+    expect(projection?.l1Token).to.equal(fixture.l1Token);
+    return projection as RunningBalanceProjection;
+  };
+
+  beforeEach(async function () {
+    fixture = await setupBundleDataClient();
+    ({ bundleDataClient, hubPoolClient, chainIds } = fixture);
+    [, originChainId, destinationChainId] = chainIds;
+  });
+
+  it("Projects running balances from the flows since genesis", async function () {
+    const deposit = await fixture.deposit(originChainId, destinationChainId, 10);
+    await fixture.fill(deposit, 20);
+    const amountToReturn = toBNWei("40");
+    await fixture.bridgeTokens(originChainId, amountToReturn, 30);
+
+    const projections = await bundleDataClient.projectRunningBalances();
+
+    // The deposit is owed to the HubPool, less the tokens that have already been bridged back.
+    const origin = projectionFor(projections, originChainId);
+    expect(origin.blockRange).to.deep.equal([0, 30]);
+    expect(origin.lastExecutedRunningBalance.eq(bnZero)).to.be.true;
+    expect(origin.flows.deposits.eq(DEPOSIT_AMOUNT.mul(-1))).to.be.true;
+    expect(origin.flows.tokensBridged.eq(amountToReturn)).to.be.true;
+    expect(origin.projectedRunningBalance.eq(amountToReturn.sub(DEPOSIT_AMOUNT))).to.be.true;
+    expect(origin.projectedNetSendAmount.eq(amountToReturn.sub(DEPOSIT_AMOUNT))).to.be.true;
+
+    const destination = projectionFor(projections, destinationChainId);
+    expect(destination.flows.refunds.eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+    expect(destination.flows.tokensBridged.eq(bnZero)).to.be.true;
+    expect(destination.projectedRunningBalance.eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+    expect(destination.projectedNetSendAmount.eq(DEPOSIT_AMOUNT.sub(lpFee))).to.be.true;
+  });
+
+  it("Projects running balances from the latest executed root bundle", async function () {
+    // A fully executed root bundle left the origin SpokePool holding a surplus.
+    const lastRunningBalance = toBNWei("-30");
+    hubPoolClient.proposeRootBundle(
+      fixture.currentTime,
+      1,
+      chainIds.map(() => toBN(50))
+    );
+    await hubPoolClient.update();
+    hubPoolClient.executeRootBundle(
+      bnZero,
+      0,
+      toBN(originChainId),
+      [fixture.l1Token],
+      [bnZero],
+      [bnZero],
+      [lastRunningBalance]
+    );
+    await hubPoolClient.update();
+
+    // Flows made within the executed bundle's block range are not projected again.
+    await fixture.deposit(originChainId, destinationChainId, 40);
+    const amountToReturn = toBNWei("10");
+    await fixture.bridgeTokens(originChainId, amountToReturn, 60);
+    await fixture.deposit(originChainId, destinationChainId, 70);
+
+    const origin = projectionFor(await bundleDataClient.projectRunningBalances(), originChainId);
+    expect(origin.blockRange).to.deep.equal([51, 70]);
+    expect(origin.lastExecutedRunningBalance.eq(lastRunningBalance)).to.be.true;
+    expect(origin.flows.deposits.eq(DEPOSIT_AMOUNT.mul(-1))).to.be.true;
+    expect(origin.flows.tokensBridged.eq(amountToReturn)).to.be.true;
+    expect(origin.projectedRunningBalance.eq(lastRunningBalance.sub(DEPOSIT_AMOUNT).add(amountToReturn))).to.be.true;
+  });
+});
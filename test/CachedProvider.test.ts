@@ -0,0 +1,95 @@
+import { providers } from "ethers";
+import { CachingMechanismInterface } from "../src/interfaces";
+import { CachedProvider } from "../src/providers";
+import { expect } from "./utils";
+
+const chainId = 1;
+const finality = 10;
+
+// In-memory cache that records every write.
+class MemoryCache implements CachingMechanismInterface {
+  readonly entries: { [key: string]: unknown } = {};
+
+  get<T>(key: string): Promise<T | null> {
+    return Promise.resolve((this.entries[key] as T) ?? null);
+  }
+
+  set<T>(key: string, value: T): Promise<string | undefined> {
+    this.entries[key] = value;
+    return Promise.resolve(key);
+  }
+}
+
+// Stand-in for an RPC provider with a fixed chain head.
+class StandInProvider extends providers.StaticJsonRpcProvider {
+  public requests: string[] = [];
+
+  constructor(public latestBlock: number) {
+    super(undefined, chainId);
+  }
+
+  override send(method: string, params: Array<unknown>): Promise<unknown> {
+    this.requests.push(method);
+    switch (method) {
+      case "eth_blockNumber":
+        return Promise.resolve(`0x${this.latestBlock.toString(16)}`);
+      case "eth_getBlockByNumber":
+        return Promise.resolve({ number: params[0], hash: "0x" + "11".repeat(32) });
+      case "eth_getTransactionReceipt":
+        return Promise.resolve(null);
+      default:
+        return Promise.resolve([]);
+    }
+  }
+}
+
+const toHex = (blockNumber: number) => `0x${blockNumber.toString(16)}`;
+
+describe("CachedProvider", function () {
+  let rpcProvider: StandInProvider;
+  let cache: MemoryCache;
+  let provider: CachedProvider;
+
+  beforeEach(function () {
+    rpcProvider = new StandInProvider(100);
+    cache = new MemoryCache();
+    provider = new CachedProvider(rpcProvider, chainId, cache, { finality });
+  });
+
+  it("Caches finalized blocks", async function () {
+    const params = [toHex(rpcProvider.latestBlock - finality), false];
+    const block = await provider.send("eth_getBlockByNumber", params);
+    expect(Object.keys(cache.entries).length).to.equal(1);
+
+    rpcProvider.requests = [];
+    expect(await provider.send("eth_getBlockByNumber", params)).to.deep.equal(block);
+    expect(rpcProvider.requests.length).to.equal(0);
+  });
+
+  it("Does not cache blocks near the chain head", async function () {
+    await provider.send("eth_getBlockByNumber", [toHex(rpcProvider.latestBlock - finality + 1), false]);
+    await provider.send("eth_getBlockByNumber", ["latest", false]);
+    expect(Object.keys(cache.entries).length).to.equal(0);
+  });
+
+  it("Caches logs for finalized block ranges", async function () {
+    const { latestBlock } = rpcProvider;
+    await provider.send("eth_getLogs", [{ fromBlock: toHex(1), toBlock: toHex(latestBlock - finality) }]);
+    expect(Object.keys(cache.entries).length).to.equal(1);
+
+    await provider.send("eth_getLogs", [{ fromBlock: toHex(1), toBlock: toHex(latestBlock) }]);
+    await provider.send("eth_getLogs", [{ fromBlock: toHex(1), toBlock: "latest" }]);
+    expect(Object.keys(cache.entries).length).to.equal(1);
+  });
+
+  it("Does not cache missing data or uncached methods", async function () {
+    await provider.send("eth_getTransactionReceipt", ["0x" + "22".repeat(32)]);
+    await provider.send("eth_blockNumber", []);
+    expect(Object.keys(cache.entries).length).to.equal(0);
+  });
+
+  it("Uses per-chain finality thresholds", function () {
+    expect(new CachedProvider(rpcProvider, chainId, cache).config.finality).to.equal(64);
+    expect(new CachedProvider(rpcProvider, 123456, cache).config.finality).to.equal(256);
+  });
+});
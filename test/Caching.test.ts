@@ -0,0 +1,119 @@
+import { MemoryCache, TieredCache } from "../src/caching";
+import { DEFAULT_CACHING_SAFE_LAG, EMPTY_MESSAGE, ZERO_ADDRESS } from "../src/constants";
+import { CachingMechanismInterface, Deposit } from "../src/interfaces";
+import { bnOne, delay, getCurrentTime, getDepositInCache, getDepositKey, setDepositInCache } from "../src/utils";
+import { destinationChainId, originChainId } from "./constants";
+import { expect, randomAddress, toBNWei } from "./utils";
+
+// A cache tier that is unavailable.
+class UnavailableCache implements CachingMechanismInterface {
+  get<T>(): Promise<T | null> {
+    return Promise.reject(new Error("Connection refused"));
+  }
+
+  set(): Promise<string | undefined> {
+    return Promise.reject(new Error("Connection refused"));
+  }
+}
+
+describe("Caching", function () {
+  describe("MemoryCache", function () {
+    it("Evicts the least recently used entry", async function () {
+      const cache = new MemoryCache(2);
+      await cache.set("a", 1);
+      await cache.set("b", 2);
+      expect(await cache.get("a")).to.equal(1);
+
+      await cache.set("c", 3);
+      expect(cache.size).to.equal(2);
+      expect(await cache.get("b")).to.be.null;
+      expect(await cache.get("a")).to.equal(1);
+      expect(await cache.get("c")).to.equal(3);
+    });
+
+    it("Expires entries after their TTL", async function () {
+      const cache = new MemoryCache();
+      await cache.set("short", 1, 0.1);
+      await cache.set("long", 2);
+
+      await delay(0.2);
+      expect(await cache.get("short")).to.be.null;
+      expect(await cache.get("long")).to.equal(2);
+    });
+  });
+
+  describe("TieredCache", function () {
+    it("Reads through tiers and writes back to faster tiers", async function () {
+      const [memory, durable] = [new MemoryCache(), new MemoryCache()];
+      const cache = new TieredCache([memory, durable]);
+
+      await durable.set("key", "value");
+      expect(await memory.get("key")).to.be.null;
+      expect(await cache.get("key")).to.equal("value");
+      expect(await memory.get("key")).to.equal("value");
+    });
+
+    it("Bounds the TTL of values written back to faster tiers", async function () {
+      const [memory, durable] = [new MemoryCache(), new MemoryCache()];
+      const cache = new TieredCache([memory, durable], 60);
+
+      // The promoted value expires with the value it was read from.
+      await durable.set("short", "value", 0.2);
+      expect(await cache.get("short")).to.equal("value");
+      expect(await memory.getTtl("short")).to.be.lessThanOrEqual(0.2);
+      await delay(0.3);
+      expect(await memory.get("short")).to.be.null;
+
+      // Values that outlive the maximum promotion TTL are promoted with the maximum.
+      await durable.set("long", "value");
+      expect(await cache.get("long")).to.equal("value");
+      expect(await memory.getTtl("long")).to.be.within(59, 60);
+    });
+
+    it("Writes through to every tier", async function () {
+      const [memory, durable] = [new MemoryCache(), new MemoryCache()];
+      const cache = new TieredCache([memory, durable]);
+
+      expect(await cache.set("key", "value")).to.equal("key");
+      expect(await memory.get("key")).to.equal("value");
+      expect(await durable.get("key")).to.equal("value");
+    });
+
+    it("Tolerates unavailable tiers", async function () {
+      const memory = new MemoryCache();
+      const cache = new TieredCache([new UnavailableCache(), memory]);
+
+      expect(await cache.set("key", "value")).to.equal("key");
+      expect(await cache.get("key")).to.equal("value");
+      expect(await cache.get("missing")).to.be.null;
+    });
+
+    it("Stores deposits", async function () {
+      const cache = new TieredCache([new MemoryCache(), new MemoryCache()]);
+      const currentTime = getCurrentTime();
+      const deposit: Deposit = {
+        depositId: 1,
+        originChainId,
+        destinationChainId,
+        depositor: randomAddress(),
+        recipient: randomAddress(),
+        inputToken: randomAddress(),
+        inputAmount: toBNWei(1).add(bnOne),
+        outputToken: randomAddress(),
+        outputAmount: toBNWei(1),
+        quoteTimestamp: currentTime - DEFAULT_CACHING_SAFE_LAG,
+        message: EMPTY_MESSAGE,
+        fillDeadline: currentTime,
+        exclusivityDeadline: 0,
+        exclusiveRelayer: ZERO_ADDRESS,
+        fromLiteChain: false,
+        toLiteChain: false,
+      };
+
+      await setDepositInCache(deposit, currentTime, cache);
+      const cachedDeposit = await getDepositInCache(getDepositKey(deposit), cache);
+      expect(cachedDeposit?.depositId).to.equal(deposit.depositId);
+      expect(cachedDeposit?.inputAmount.eq(deposit.inputAmount)).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Contract, Event, EventFilter, providers } from "ethers";
+import { getEventQueryStats, isBlockRangeError, paginatedEventQuery, resetEventQueryStats } from "../src/utils";
+import { assertPromiseError, expect } from "./utils";
+
+const filter: EventFilter = {};
+
+// Stand-in for a contract whose provider rejects queries spanning more than `maxRange` blocks.
+class StandInContract {
+  readonly queries: [number, number][] = [];
+  readonly provider = {} as providers.Provider;
+
+  constructor(
+    public maxRange: number,
+    readonly eventBlocks: number[] = []
+  ) {}
+
+  queryFilter(_filter: EventFilter, fromBlock: number, toBlock: number): Promise<Event[]> {
+    this.queries.push([fromBlock, toBlock]);
+    if (toBlock - fromBlock + 1 > this.maxRange) {
+      return Promise.reject(new Error("query returned more than 10000 results"));
+    }
+    const events = this.eventBlocks.filter((blockNumber) => blockNumber >= fromBlock && blockNumber <= toBlock);
+    return Promise.resolve(events.map((blockNumber) => ({ blockNumber }) as Event));
+  }
+}
+
+describe("EventUtils: Adaptive event pagination", function () {
+  it("Splits block ranges rejected by the provider", async function () {
+    const stand = new StandInContract(25, [0, 30, 60, 99]);
+    const events = await paginatedEventQuery(stand as unknown as Contract, filter, {
+      fromBlock: 0,
+      toBlock: 99,
+      maxBlockLookBack: 100,
+    });
+
+    expect(events.map(({ blockNumber }) => blockNumber)).to.deep.equal([0, 30, 60, 99]);
+    const stats = getEventQueryStats(stand.provider);
+    expect(stats?.maxBlockLookBack).to.equal(25);
+    expect(stats?.splits).to.equal(3);
+  });
+
+  it("Reuses the learned block range", async function () {
+    const stand = new StandInContract(25);
+    const searchConfig = { fromBlock: 0, toBlock: 99, maxBlockLookBack: 100 };
+    await paginatedEventQuery(stand as unknown as Contract, filter, searchConfig);
+
+    stand.queries.length = 0;
+    await paginatedEventQuery(stand as unknown as Contract, filter, { ...searchConfig, fromBlock: 100, toBlock: 149 });
+    expect(stand.queries).to.deep.equal([
+      [100, 124],
+      [125, 149],
+    ]);
+  });
+
+  it("Grows the block range when results are sparse", async function () {
+    const stand = new StandInContract(25);
+    const searchConfig = { fromBlock: 0, toBlock: 99, maxBlockLookBack: 100 };
+    await paginatedEventQuery(stand as unknown as Contract, filter, searchConfig);
+
+    stand.maxRange = 100;
+    await paginatedEventQuery(stand as unknown as Contract, filter, searchConfig);
+    await paginatedEventQuery(stand as unknown as Contract, filter, searchConfig);
+
+    // The learned range grows to, but is never used beyond, the configured maxBlockLookBack.
+    const stats = getEventQueryStats(stand.provider);
+    expect(stats?.expansions).to.equal(2);
+    expect(stats?.maxBlockLookBack).to.equal(100);
+
+    stand.queries.length = 0;
+    await paginatedEventQuery(stand as unknown as Contract, filter, searchConfig);
+    expect(stand.queries).to.deep.equal([[0, 99]]);
+  });
+
+  it("Learns block ranges independently for each provider", async function () {
+    const [narrow, wide] = [new StandInContract(25), new StandInContract(100)];
+    const searchConfig = { fromBlock: 0, toBlock: 99, maxBlockLookBack: 100 };
+    await paginatedEventQuery(narrow as unknown as Contract, filter, searchConfig);
+    await paginatedEventQuery(wide as unknown as Contract, filter, searchConfig);
+
+    expect(getEventQueryStats(narrow.provider)?.maxBlockLookBack).to.equal(25);
+    expect(getEventQueryStats(wide.provider)?.maxBlockLookBack).to.be.undefined;
+    expect(wide.queries).to.deep.equal([[0, 99]]);
+
+    resetEventQueryStats(narrow.provider);
+    expect(getEventQueryStats(narrow.provider)).to.be.undefined;
+  });
+
+  it("Does not split ranges on unrelated errors", async function () {
+    const stand = new StandInContract(100);
+    stand.queryFilter = () => Promise.reject(new Error("execution reverted"));
+    const query = paginatedEventQuery(stand as unknown as Contract, filter, { fromBlock: 0, toBlock: 9 }, 3);
+
+    await assertPromiseError(query, "execution reverted");
+    expect(getEventQueryStats(stand.provider)?.splits).to.equal(0);
+  });
+
+  it("Does not split ranges on rate limit errors", async function () {
+    expect(isBlockRangeError(new Error("logs limit exceeded"))).to.be.true;
+    expect(isBlockRangeError(new Error("request limit exceeded"))).to.be.false;
+
+    const stand = new StandInContract(100);
+    stand.queryFilter = () => Promise.reject(new Error("rate limit exceeded"));
+    const query = paginatedEventQuery(stand as unknown as Contract, filter, { fromBlock: 0, toBlock: 9 }, 3);
+
+    await assertPromiseError(query, "rate limit exceeded");
+    expect(getEventQueryStats(stand.provider)?.splits).to.equal(0);
+  });
+});
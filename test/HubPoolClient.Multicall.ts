@@ -0,0 +1,115 @@
+import { Contract, providers, utils } from "ethers";
+import { random } from "lodash";
+import { DEFAULT_CONFIG_STORE_VERSION, GLOBAL_CONFIG_STORE_KEYS } from "../src/clients";
+import { MockConfigStoreClient, MockHubPoolClient } from "../src/clients/mocks";
+import { MulticallProvider } from "../src/providers";
+import { AcrossConfigStore__factory, ERC20__factory, HubPool__factory } from "../src/typechain";
+import { getABI, multicall3Addresses } from "../src/utils";
+import { createSpyLogger, expect, randomAddress, toBNWei } from "./utils";
+
+const chainId = 1;
+const multicall3Address = multicall3Addresses[chainId];
+const hubPoolInterface: utils.Interface = HubPool__factory.createInterface();
+const erc20Interface: utils.Interface = ERC20__factory.createInterface();
+
+// Stand-in for an RPC provider with a Multicall3 deployment, which serves the HubPool and ERC20 view functions read by
+// the HubPoolClient.
+class StandInProvider extends providers.StaticJsonRpcProvider {
+  public requests: { to: string; data: string }[] = [];
+
+  constructor(readonly multicall3: utils.Interface) {
+    super(undefined, chainId);
+  }
+
+  override send(method: string, params: Array<unknown>): Promise<unknown> {
+    const [transaction] = params as [{ to: string; data: string }];
+    if (method !== "eth_call") {
+      return Promise.reject(new Error(`Unexpected ${method} request`));
+    }
+    this.requests.push(transaction);
+    if (transaction.to !== multicall3Address) {
+      return Promise.resolve(this.respond(transaction.to, transaction.data));
+    }
+
+    const [calls] = this.multicall3.decodeFunctionData("aggregate3", transaction.data);
+    const results = calls.map(({ target, callData }: { target: string; callData: string }) => [
+      true,
+      this.respond(target, callData),
+    ]);
+    return Promise.resolve(this.multicall3.encodeFunctionResult("aggregate3", [results]));
+  }
+
+  private respond(target: string, data: string): string {
+    const selector = data.slice(0, 10);
+    const [contractInterface] = [hubPoolInterface, erc20Interface].filter((contractInterface) =>
+      Object.values(contractInterface.functions).some((fragment) => contractInterface.getSighash(fragment) === selector)
+    );
+    const { name } = contractInterface.getFunction(selector);
+    switch (name) {
+      case "getCurrentTime":
+        return contractInterface.encodeFunctionResult(name, [1_700_000_000]);
+      case "pooledTokens":
+        return contractInterface.encodeFunctionResult(name, [randomAddress(), true, 0, 0, toBNWei("1"), 0]);
+      case "symbol":
+        // Tokens are deduplicated by symbol, so each token is given a distinct symbol.
+        return contractInterface.encodeFunctionResult(name, [`TKN-${target.slice(2, 8)}`]);
+      case "decimals":
+        return contractInterface.encodeFunctionResult(name, [18]);
+      default:
+        throw new Error(`Unexpected call to ${name}`);
+    }
+  }
+}
+
+describe("HubPoolClient: Multicall", function () {
+  let rpcProvider: StandInProvider;
+  let configStoreClient: MockConfigStoreClient;
+  let hubPoolClient: MockHubPoolClient;
+  const l1Tokens = [randomAddress(), randomAddress(), randomAddress()];
+
+  beforeEach(async function () {
+    const { spyLogger: logger } = createSpyLogger();
+    rpcProvider = new StandInProvider(Contract.getInterface(await getABI("Multicall3")));
+    const provider = new MulticallProvider(rpcProvider, chainId);
+
+    const configStore = new Contract(randomAddress(), AcrossConfigStore__factory.abi);
+    configStoreClient = new MockConfigStoreClient(
+      logger,
+      configStore,
+      { fromBlock: 0, maxBlockLookBack: 0 },
+      DEFAULT_CONFIG_STORE_VERSION,
+      random(2_000_001, 3_000_000, false),
+      true,
+      [chainId]
+    );
+    await configStoreClient.update();
+
+    const hubPool = new Contract(randomAddress(), HubPool__factory.abi, provider);
+    hubPoolClient = new MockHubPoolClient(logger, hubPool, configStoreClient, 0, chainId);
+    l1Tokens.forEach((l1Token) => hubPoolClient.enableL1TokenForLiquidityProvision(l1Token));
+    await hubPoolClient.update();
+  });
+
+  it("Aggregates the view calls of an update", function () {
+    // Token info is read at the latest block, and pooled token state at the end of the update's search range.
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([multicall3Address, multicall3Address]);
+    l1Tokens.forEach((l1Token) => expect(hubPoolClient.getLpTokenInfoForL1Token(l1Token)).to.not.be.undefined);
+  });
+
+  it("Aggregates the view calls of a historical view", async function () {
+    // The ConfigStore must have been searched up to the block of the view.
+    const { latestBlockSearched: blockNumber } = hubPoolClient;
+    configStoreClient.updateGlobalConfig(GLOBAL_CONFIG_STORE_KEYS.MAX_POOL_REBALANCE_LEAF_SIZE, "25", { blockNumber });
+    await configStoreClient.update();
+
+    rpcProvider.requests = [];
+    const view = await hubPoolClient.asOf(blockNumber);
+
+    // The HubPool time and the pooled token state of each L1 token are read in a single aggregate3 call.
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([multicall3Address]);
+    const [{ data }] = rpcProvider.requests;
+    const [calls] = rpcProvider.multicall3.decodeFunctionData("aggregate3", data);
+    expect(calls).to.have.length(1 + l1Tokens.length);
+    expect(view.currentTime).to.equal(1_700_000_000);
+  });
+});
@@ -0,0 +1,22 @@
+import { computeRawCID, verifyRawCID } from "../src/utils";
+import { expect } from "./utils";
+
+describe("IPFSUtils", function () {
+  const content = Buffer.from("hello world", "utf8");
+  const cid = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+
+  it("Computes the CID of a raw block", function () {
+    expect(computeRawCID(content)).to.equal(cid);
+  });
+
+  it("Verifies content against a raw block CID", function () {
+    expect(verifyRawCID(cid, content)).to.be.true;
+    expect(verifyRawCID(cid, Buffer.from("hello world!", "utf8"))).to.be.false;
+  });
+
+  it("Rejects CIDs that can not be verified", function () {
+    // CIDv0 identifiers are dag-pb encoded.
+    const cidV0 = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+    expect(() => verifyRawCID(cidV0, content)).to.throw("Unable to verify content of CID");
+  });
+});
@@ -0,0 +1,167 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { Struct, number, object } from "superstruct";
+import { KuboIPFSClient } from "../src/caching";
+import { computeRawCID, jsonReplacerWithBigNumbers, toBN } from "../src/utils";
+import { assertPromiseError, expect } from "./utils";
+
+const MAX_BLOCK_SIZE = 1024 * 1024;
+
+// Stand-in for the subset of the Kubo RPC API used by KuboIPFSClient. Content is addressed by raw block CIDs, and the
+// content served for a CID can be overridden via `tampered` to simulate a dishonest node.
+class StandInKuboNode {
+  readonly requests: { method: string; params: URLSearchParams }[] = [];
+  readonly blocks: { [cid: string]: Buffer } = {};
+  readonly tampered: { [cid: string]: Buffer } = {};
+  readonly pins = new Set<string>();
+  // If defined, the CID returned for all added content.
+  addedCID?: string;
+
+  private readonly server = http.createServer((req, res) => this.onRequest(req, res));
+
+  listen(): Promise<string> {
+    return new Promise((resolve) =>
+      this.server.listen(0, "127.0.0.1", () => {
+        const { port } = this.server.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}`);
+      })
+    );
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      const method = url.pathname.replace("/api/v0/", "");
+      const params = url.searchParams;
+      this.requests.push({ method, params });
+
+      if (req.method !== "POST") {
+        return this.reply(res, 405, { Message: "method not allowed" });
+      }
+      const cid = params.get("arg") ?? "";
+      switch (method) {
+        case "add": {
+          const content = this.parseFile(Buffer.concat(chunks), req.headers["content-type"] ?? "");
+          const hash = computeRawCID(content);
+          this.blocks[hash] = content;
+          if (params.get("pin") === "true") {
+            this.pins.add(hash);
+          }
+          return this.reply(res, 200, { Name: hash, Hash: this.addedCID ?? hash, Size: String(content.length) });
+        }
+        case "cat": {
+          const content = this.tampered[cid] ?? this.blocks[cid];
+          if (content === undefined) {
+            return this.reply(res, 500, { Message: "block was not found locally (offline)", Code: 0, Type: "error" });
+          }
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          return void res.end(content);
+        }
+        case "pin/add":
+          this.pins.add(cid);
+          return this.reply(res, 200, { Pins: [cid] });
+        case "pin/rm":
+          if (!this.pins.delete(cid)) {
+            return this.reply(res, 500, { Message: "not pinned or pinned indirectly", Code: 0, Type: "error" });
+          }
+          return this.reply(res, 200, { Pins: [cid] });
+        case "pin/ls":
+          if (!this.pins.has(cid)) {
+            return this.reply(res, 500, { Message: `path '${cid}' is not pinned`, Code: 0, Type: "error" });
+          }
+          return this.reply(res, 200, { Keys: { [cid]: { Type: "recursive" } } });
+        default:
+          return this.reply(res, 404, { Message: `unknown method ${method}` });
+      }
+    });
+  }
+
+  // Extract the content of the single file in a multipart/form-data body.
+  private parseFile(body: Buffer, contentType: string): Buffer {
+    const [, boundary] = contentType.match(/boundary=(.+)$/) ?? [];
+    const start = body.indexOf("\r\n\r\n") + 4;
+    const end = body.lastIndexOf(`\r\n--${boundary}--`);
+    return body.subarray(start, end);
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
+
+describe("KuboIPFSClient", function () {
+  let node: StandInKuboNode;
+  let client: KuboIPFSClient;
+
+  beforeEach(async function () {
+    node = new StandInKuboNode();
+    client = new KuboIPFSClient(await node.listen(), 5);
+  });
+
+  afterEach(async function () {
+    await node.close();
+  });
+
+  it("Stores, pins and retrieves values", async function () {
+    const value = { a: 1, b: ["c"], amount: toBN(10).pow(18) };
+    const cid = await client.set("key", value);
+
+    expect(cid).to.equal(computeRawCID(Buffer.from(JSON.stringify(value, jsonReplacerWithBigNumbers), "utf8")));
+    const [{ params }] = node.requests;
+    expect(params.get("cid-version")).to.equal("1");
+    expect(params.get("raw-leaves")).to.equal("true");
+    expect(await client.isPinned(cid!)).to.be.true;
+
+    const retrieved = await client.get<typeof value>(cid);
+    expect(retrieved).to.deep.equal(value);
+    expect(await client.get(undefined)).to.be.null;
+  });
+
+  it("Returns null for values that do not match the struct validator", async function () {
+    const cid = await client.set("key", { a: "1" });
+    const validator = object({ a: number() }) as Struct<unknown, unknown>;
+    expect(await client.get(cid, validator)).to.be.null;
+  });
+
+  it("Pins and unpins values", async function () {
+    const cid = await client.set("key", "value");
+    await client.unpin(cid!);
+    expect(await client.isPinned(cid!)).to.be.false;
+
+    await client.pin(cid!);
+    expect(await client.isPinned(cid!)).to.be.true;
+
+    // Errors other than the CID not being pinned are not swallowed.
+    await node.close();
+    await assertPromiseError(client.isPinned(cid!));
+  });
+
+  it("Rejects content that does not match its CID", async function () {
+    const cid = (await client.set("key", { a: 1 }))!;
+    node.tampered[cid] = Buffer.from(JSON.stringify({ a: 2 }), "utf8");
+    await assertPromiseError(client.get(cid), `does not match CID ${cid}`);
+  });
+
+  it("Rejects unexpected CIDs returned by the node", async function () {
+    node.addedCID = computeRawCID(Buffer.from("other", "utf8"));
+    await assertPromiseError(client.set("key", "value"), `IPFS node returned CID ${node.addedCID}`);
+  });
+
+  it("Limits values to a single block", async function () {
+    // JSON encoding adds the surrounding quotes to the string.
+    const value = "x".repeat(MAX_BLOCK_SIZE - 2);
+    const cid = await client.set("key", value);
+    expect(node.blocks[cid!]).to.have.length(MAX_BLOCK_SIZE);
+
+    const requests = node.requests.length;
+    await assertPromiseError(client.set("key", `${value}x`), "exceeds the maximum IPFS block size");
+    expect(node.requests).to.have.length(requests);
+  });
+});
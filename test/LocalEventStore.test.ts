@@ -0,0 +1,61 @@
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { LocalEventStore } from "../src/caching";
+import { StoredEvent } from "../src/interfaces";
+import { expect, randomAddress, toBNWei } from "./utils";
+
+describe("LocalEventStore", function () {
+  const key = { chainId: 10, contract: randomAddress(), eventName: "FilledV3Relay" };
+  let directory: string;
+  let eventStore: LocalEventStore;
+
+  const storedEvent = (blockNumber: number): StoredEvent => ({
+    event: key.eventName,
+    args: { depositId: blockNumber, inputAmount: toBNWei(blockNumber) },
+    blockNumber,
+    transactionIndex: 0,
+    logIndex: 0,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+  });
+
+  beforeEach(async function () {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "event-store-"));
+    eventStore = new LocalEventStore(directory);
+  });
+
+  afterEach(async function () {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("Returns nothing for an unknown key", async function () {
+    expect(await eventStore.getBlockRange(key)).to.be.undefined;
+    expect(await eventStore.load(key, 0, 100)).to.deep.equal([]);
+  });
+
+  it("Round-trips events, including BigNumbers", async function () {
+    await eventStore.append(key, 1, 10, [storedEvent(5), storedEvent(2)]);
+
+    expect(await eventStore.getBlockRange(key)).to.deep.equal([1, 10]);
+    const events = await eventStore.load(key, 1, 10);
+    expect(events.map(({ blockNumber }) => blockNumber)).to.deep.equal([2, 5]);
+    expect(events[1].args.inputAmount).to.equal(toBNWei(5));
+    expect(await eventStore.load(key, 3, 10)).to.have.length(1);
+  });
+
+  it("Extends the stored range with adjoining ranges", async function () {
+    await eventStore.append(key, 1, 10, [storedEvent(5)]);
+    await eventStore.append(key, 11, 20, [storedEvent(15)]);
+
+    expect(await eventStore.getBlockRange(key)).to.deep.equal([1, 20]);
+    expect((await eventStore.load(key, 1, 20)).map(({ blockNumber }) => blockNumber)).to.deep.equal([5, 15]);
+  });
+
+  it("Replaces the stored range with a disjoint range", async function () {
+    await eventStore.append(key, 1, 10, [storedEvent(5)]);
+    await eventStore.append(key, 50, 60, [storedEvent(55)]);
+
+    expect(await eventStore.getBlockRange(key)).to.deep.equal([50, 60]);
+    expect((await eventStore.load(key, 0, 100)).map(({ blockNumber }) => blockNumber)).to.deep.equal([55]);
+  });
+});
@@ -0,0 +1,118 @@
+import { PoolRebalanceLeaf, RelayerRefundLeaf, SlowFillLeaf } from "../src/interfaces";
+import {
+  EMPTY_MERKLE_ROOT,
+  buildPoolRebalanceLeafTree,
+  buildRelayerRefundTree,
+  buildSlowRelayTree,
+  computeRootBundleRoots,
+  verifyPoolRebalanceLeafProof,
+  verifyRelayerRefundLeafProof,
+  verifySlowFillLeafProof,
+} from "../src/utils";
+import { EMPTY_MESSAGE, ZERO_ADDRESS } from "../src/constants";
+import { contractsV2Utils, expect, randomAddress, toBN, toBNWei } from "./utils";
+
+describe("MerkleTreeUtils", function () {
+  const l1Tokens = [randomAddress(), randomAddress()];
+
+  const poolRebalanceLeaves: PoolRebalanceLeaf[] = [1, 10, 137].map((chainId, leafId) => ({
+    chainId,
+    groupIndex: 0,
+    bundleLpFees: [toBNWei(1), toBNWei(2)],
+    netSendAmounts: [toBNWei(-10), toBNWei(20)],
+    runningBalances: [toBNWei(5), toBNWei(-5)],
+    leafId,
+    l1Tokens,
+  }));
+
+  const relayerRefundLeaves: RelayerRefundLeaf[] = [10, 137].map((chainId, leafId) => ({
+    amountToReturn: toBNWei(leafId),
+    chainId,
+    refundAmounts: [toBNWei(1), toBNWei(2)],
+    leafId,
+    l2TokenAddress: randomAddress(),
+    refundAddresses: [randomAddress(), randomAddress()],
+  }));
+
+  const slowFillLeaves: SlowFillLeaf[] = [0, 1].map((depositId) => ({
+    relayData: {
+      depositor: randomAddress(),
+      recipient: randomAddress(),
+      exclusiveRelayer: ZERO_ADDRESS,
+      inputToken: randomAddress(),
+      outputToken: randomAddress(),
+      inputAmount: toBNWei(1),
+      outputAmount: toBNWei("0.99"),
+      originChainId: 10,
+      depositId,
+      fillDeadline: 1_000_000,
+      exclusivityDeadline: 0,
+      message: EMPTY_MESSAGE,
+    },
+    chainId: 137,
+    updatedOutputAmount: toBNWei("0.99"),
+  }));
+
+  it("Matches the contracts' leaf encoding", async function () {
+    const [poolRebalanceTree, relayerRefundTree, slowRelayTree] = await Promise.all([
+      contractsV2Utils.buildPoolRebalanceLeafTree(
+        poolRebalanceLeaves.map((leaf) => ({
+          ...leaf,
+          chainId: toBN(leaf.chainId),
+          groupIndex: toBN(0),
+          leafId: toBN(leaf.leafId),
+        }))
+      ),
+      contractsV2Utils.buildRelayerRefundTree(
+        relayerRefundLeaves.map((leaf) => ({ ...leaf, chainId: toBN(leaf.chainId), leafId: toBN(leaf.leafId) }))
+      ),
+      contractsV2Utils.buildV3SlowRelayTree(slowFillLeaves),
+    ]);
+
+    expect(buildPoolRebalanceLeafTree(poolRebalanceLeaves).getHexRoot()).to.equal(poolRebalanceTree.getHexRoot());
+    expect(buildRelayerRefundTree(relayerRefundLeaves).getHexRoot()).to.equal(relayerRefundTree.getHexRoot());
+    expect(buildSlowRelayTree(slowFillLeaves).getHexRoot()).to.equal(slowRelayTree.getHexRoot());
+  });
+
+  it("Generates verifiable proofs", function () {
+    const { poolRebalanceRoot, relayerRefundRoot, slowRelayRoot } = computeRootBundleRoots({
+      poolRebalanceLeaves,
+      relayerRefundLeaves,
+      slowFillLeaves,
+    });
+
+    const poolRebalanceTree = buildPoolRebalanceLeafTree(poolRebalanceLeaves);
+    poolRebalanceLeaves.forEach((leaf) => {
+      const proof = poolRebalanceTree.getHexProof(leaf);
+      expect(verifyPoolRebalanceLeafProof(poolRebalanceRoot, leaf, proof)).to.be.true;
+      expect(verifyPoolRebalanceLeafProof(poolRebalanceRoot, { ...leaf, groupIndex: 1 }, proof)).to.be.false;
+    });
+
+    const relayerRefundTree = buildRelayerRefundTree(relayerRefundLeaves);
+    relayerRefundLeaves.forEach((leaf) => {
+      const proof = relayerRefundTree.getHexProof(leaf);
+      expect(verifyRelayerRefundLeafProof(relayerRefundRoot, leaf, proof)).to.be.true;
+      expect(verifyRelayerRefundLeafProof(relayerRefundRoot, { ...leaf, amountToReturn: toBN(1) }, proof)).to.be.false;
+    });
+
+    const slowRelayTree = buildSlowRelayTree(slowFillLeaves);
+    slowFillLeaves.forEach((leaf) => {
+      const proof = slowRelayTree.getHexProof(leaf);
+      expect(verifySlowFillLeafProof(slowRelayRoot, leaf, proof)).to.be.true;
+      expect(verifySlowFillLeafProof(slowRelayRoot, { ...leaf, chainId: 1 }, proof)).to.be.false;
+    });
+  });
+
+  it("Resolves empty trees to the empty Merkle root", function () {
+    const roots = computeRootBundleRoots({ poolRebalanceLeaves: [], relayerRefundLeaves: [], slowFillLeaves: [] });
+    Object.values(roots).forEach((root) => expect(root).to.equal(EMPTY_MERKLE_ROOT));
+  });
+
+  it("Rejects malformed leaves", function () {
+    const [leaf] = poolRebalanceLeaves;
+    expect(() => buildPoolRebalanceLeafTree([{ ...leaf, bundleLpFees: [] }])).to.throw(/Mismatched/);
+
+    const [refundLeaf] = relayerRefundLeaves;
+    expect(() => buildRelayerRefundTree([{ ...refundLeaf, refundAmounts: [] }])).to.throw(/Mismatched/);
+  });
+});
@@ -0,0 +1,142 @@
+import { Contract, providers, utils } from "ethers";
+import fs from "fs/promises";
+import { getViewSelectors, MulticallProvider } from "../src/providers";
+import { getABI, registerViewSelectors } from "../src/utils";
+import { assertPromiseError, expect, sinon } from "./utils";
+
+const chainId = 1;
+const multicall3Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const [target, revertingTarget] = ["0x" + "11".repeat(20), "0x" + "22".repeat(20)];
+
+// A view function and a state-changing function that can be called statically.
+const targetInterface = new utils.Interface([
+  "function balanceOf(uint256 account) view returns (uint256)",
+  "function exchangeRateCurrent(uint256 account) returns (uint256)",
+]);
+const viewCall = (account: number) => targetInterface.encodeFunctionData("balanceOf", [account]);
+const nonViewCall = (account: number) => targetInterface.encodeFunctionData("exchangeRateCurrent", [account]);
+
+const errorData = (reason: string) =>
+  utils.id("Error(string)").slice(0, 10) + utils.defaultAbiCoder.encode(["string"], [reason]).slice(2);
+
+// Stand-in for an RPC provider with a Multicall3 deployment. Calls to `target` echo their calldata, and calls to
+// `revertingTarget` revert.
+class StandInProvider extends providers.StaticJsonRpcProvider {
+  public requests: { to: string; data: string }[] = [];
+
+  constructor(readonly multicall3: utils.Interface) {
+    super(undefined, chainId);
+  }
+
+  override send(_method: string, params: Array<unknown>): Promise<unknown> {
+    const [transaction] = params as [{ to: string; data: string }];
+    this.requests.push(transaction);
+    if (transaction.to !== multicall3Address) {
+      return transaction.to === revertingTarget
+        ? Promise.reject(Object.assign(new Error("execution reverted"), { data: errorData("nope") }))
+        : Promise.resolve(transaction.data);
+    }
+
+    const [calls] = this.multicall3.decodeFunctionData("aggregate3", transaction.data);
+    const results = calls.map(({ target, callData }: { target: string; callData: string }) =>
+      target === revertingTarget ? [false, errorData("nope")] : [true, callData]
+    );
+    return Promise.resolve(this.multicall3.encodeFunctionResult("aggregate3", [results]));
+  }
+}
+
+describe("MulticallProvider", function () {
+  let rpcProvider: StandInProvider;
+  let provider: MulticallProvider;
+
+  beforeEach(async function () {
+    rpcProvider = new StandInProvider(Contract.getInterface(await getABI("Multicall3")));
+    provider = new MulticallProvider(rpcProvider, chainId, { viewSelectors: getViewSelectors(targetInterface) });
+  });
+
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  it("Batches concurrent calls", async function () {
+    const data = [1, 2, 3].map(viewCall);
+    const calls = data.map((data) => provider.send("eth_call", [{ to: target, data }, "latest"]));
+    expect(await Promise.all(calls)).to.deep.equal(data);
+    expect(rpcProvider.requests.length).to.equal(1);
+    expect(rpcProvider.requests[0].to).to.equal(multicall3Address);
+  });
+
+  it("Batches calls separately per block tag", async function () {
+    await Promise.all([
+      provider.send("eth_call", [{ to: target, data: viewCall(1) }, "0x10"]),
+      provider.send("eth_call", [{ to: target, data: viewCall(2) }, "0x10"]),
+      provider.send("eth_call", [{ to: target, data: viewCall(3) }, "0x11"]),
+    ]);
+
+    // The single call at block 0x11 is sent directly.
+    expect(rpcProvider.requests.map(({ to }) => to)).to.have.members([multicall3Address, target]);
+  });
+
+  it("Rejects failed calls individually", async function () {
+    const [good, bad] = [
+      provider.send("eth_call", [{ to: target, data: viewCall(1) }, "latest"]),
+      provider.send("eth_call", [{ to: revertingTarget, data: viewCall(2) }, "latest"]),
+    ];
+
+    expect(await good).to.equal(viewCall(1));
+    await assertPromiseError(bad, "execution reverted: nope");
+    expect(rpcProvider.requests.length).to.equal(1);
+  });
+
+  it("Does not batch calls with a sender", async function () {
+    const from = "0x" + "33".repeat(20);
+    await Promise.all([
+      provider.send("eth_call", [{ to: target, data: viewCall(1), from }, "latest"]),
+      provider.send("eth_call", [{ to: target, data: viewCall(2), from }, "latest"]),
+    ]);
+    expect(rpcProvider.requests.length).to.equal(2);
+  });
+
+  it("Does not batch calls to functions that are not opted in", async function () {
+    await Promise.all([
+      provider.send("eth_call", [{ to: target, data: nonViewCall(1) }, "latest"]),
+      provider.send("eth_call", [{ to: target, data: nonViewCall(2) }, "latest"]),
+      provider.send("eth_call", [{ to: target, data: viewCall(3) }, "latest"]),
+    ]);
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([target, target, target]);
+
+    // Nothing is batched by default.
+    provider = new MulticallProvider(rpcProvider, chainId);
+    rpcProvider.requests = [];
+    await Promise.all([1, 2].map((account) => provider.send("eth_call", [{ to: target, data: viewCall(account) }])));
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([target, target]);
+  });
+
+  it("Batches calls to registered view functions", async function () {
+    const registeredInterface = new utils.Interface([
+      "function registered(uint256 account) view returns (uint256)",
+      "function unregistrable(uint256 account) returns (uint256)",
+    ]);
+    expect(() => registerViewSelectors(registeredInterface, ["unregistrable"])).to.throw("nonpayable function");
+    registerViewSelectors(registeredInterface, ["registered"]);
+
+    provider = new MulticallProvider(rpcProvider, chainId);
+    const data = [1, 2].map((account) => registeredInterface.encodeFunctionData("registered", [account]));
+    await Promise.all(data.map((data) => provider.send("eth_call", [{ to: target, data }])));
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([multicall3Address]);
+  });
+
+  it("Retries loading the Multicall3 ABI after a failure", async function () {
+    const readFile = sinon.stub(fs, "readFile").callThrough();
+    readFile.onFirstCall().rejects(new Error("EMFILE"));
+
+    // The failed batch falls back to individual calls.
+    const batch = () => [1, 2].map((account) => provider.send("eth_call", [{ to: target, data: viewCall(account) }]));
+    expect(await Promise.all(batch())).to.deep.equal([1, 2].map(viewCall));
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([target, target]);
+
+    rpcProvider.requests = [];
+    expect(await Promise.all(batch())).to.deep.equal([1, 2].map(viewCall));
+    expect(rpcProvider.requests.map(({ to }) => to)).to.deep.equal([multicall3Address]);
+  });
+});
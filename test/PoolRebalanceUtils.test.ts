@@ -0,0 +1,25 @@
+import { getNetSendAmountForL1Token, getRunningBalanceForL1Token } from "../src/clients/BundleDataClient";
+import { bnZero } from "../src/utils";
+import { expect, toBNWei } from "./utils";
+
+describe("PoolRebalanceUtils", function () {
+  const spokeTargetBalance = { target: toBNWei(10), threshold: toBNWei(20) };
+
+  it("Sends the full running balance when the SpokePool is owed funds", function () {
+    const runningBalance = toBNWei(5);
+    expect(getNetSendAmountForL1Token(spokeTargetBalance, runningBalance)).to.equal(runningBalance);
+    expect(getRunningBalanceForL1Token(spokeTargetBalance, runningBalance)).to.equal(bnZero);
+  });
+
+  it("Retains excess SpokePool funds below the threshold", function () {
+    const runningBalance = toBNWei(-15);
+    expect(getNetSendAmountForL1Token(spokeTargetBalance, runningBalance)).to.equal(bnZero);
+    expect(getRunningBalanceForL1Token(spokeTargetBalance, runningBalance)).to.equal(runningBalance);
+  });
+
+  it("Returns excess SpokePool funds down to the target above the threshold", function () {
+    const runningBalance = toBNWei(-25);
+    expect(getNetSendAmountForL1Token(spokeTargetBalance, runningBalance)).to.equal(toBNWei(-15));
+    expect(getRunningBalanceForL1Token(spokeTargetBalance, runningBalance)).to.equal(toBNWei(-10));
+  });
+});
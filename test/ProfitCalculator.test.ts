@@ -0,0 +1,113 @@
+import { CHAIN_IDs, EMPTY_MESSAGE, TOKEN_SYMBOLS_MAP, ZERO_ADDRESS } from "../src/constants";
+import { Deposit } from "../src/interfaces";
+import { PriceFeedAdapter, TokenPrice } from "../src/priceClient";
+import { ProfitCalculator, QueryInterface } from "../src/relayFeeCalculator";
+import { bnZero, getCurrentTime, toBN, toBNWei } from "../src/utils";
+import { expect, randomAddress } from "./utils";
+
+const { OPTIMISM: originChainId, ARBITRUM: destinationChainId } = CHAIN_IDs;
+const { ETH, USDC, WETH } = TOKEN_SYMBOLS_MAP;
+
+// Prices in USD, keyed by lower-case mainnet address.
+const prices: Record<string, number> = {
+  [USDC.addresses[CHAIN_IDs.MAINNET].toLowerCase()]: 1,
+  [ETH.addresses[CHAIN_IDs.MAINNET].toLowerCase()]: 2000,
+  [WETH.addresses[CHAIN_IDs.MAINNET].toLowerCase()]: 2000,
+};
+
+const priceFeed: PriceFeedAdapter = {
+  name: "StandInPriceFeed",
+  getPriceByAddress: (address: string): Promise<TokenPrice> =>
+    Promise.resolve({ address, price: prices[address.toLowerCase()], timestamp: getCurrentTime() }),
+  getPricesByAddress: (addresses: string[]): Promise<TokenPrice[]> =>
+    Promise.all(addresses.map((address) => priceFeed.getPriceByAddress(address, "usd"))),
+};
+
+// The realized LP fee depends on the repayment chain.
+const lpFees: Record<number, string> = { [destinationChainId]: "0.001", [originChainId]: "0.002" };
+const hubPoolClient = {
+  computeRealizedLpFeePct: ({ paymentChainId }: { paymentChainId?: number }) =>
+    Promise.resolve({ quoteBlock: 0, realizedLpFeePct: toBNWei(lpFees[paymentChainId ?? destinationChainId]) }),
+};
+
+// Filling costs 0.00005 ETH, or $0.10.
+const queries: QueryInterface = {
+  getGasCosts: () => Promise.resolve({ nativeGasCost: toBN(100_000), tokenGasCost: toBNWei("0.00005") }),
+  getTokenPrice: () => Promise.resolve(1),
+  getTokenDecimals: () => 18,
+};
+
+describe("ProfitCalculator", function () {
+  let deposit: Deposit;
+  let calculator: ProfitCalculator;
+
+  beforeEach(function () {
+    const currentTime = getCurrentTime();
+    deposit = {
+      depositId: 1,
+      originChainId,
+      destinationChainId,
+      depositor: randomAddress(),
+      recipient: randomAddress(),
+      inputToken: USDC.addresses[originChainId],
+      inputAmount: toBNWei("100", USDC.decimals),
+      outputToken: USDC.addresses[destinationChainId],
+      outputAmount: toBNWei("99.5", USDC.decimals),
+      quoteTimestamp: currentTime,
+      message: EMPTY_MESSAGE,
+      fillDeadline: currentTime + 3600,
+      exclusivityDeadline: 0,
+      exclusiveRelayer: ZERO_ADDRESS,
+      fromLiteChain: false,
+      toLiteChain: false,
+    };
+
+    calculator = new ProfitCalculator(
+      hubPoolClient,
+      priceFeed,
+      { [destinationChainId]: queries },
+      { minMarginPct: toBNWei("0.0025") }
+    );
+  });
+
+  it("Computes the net relayer fee of a fill", async function () {
+    const profit = await calculator.getFillProfit(deposit);
+    expect(profit.repaymentChainId).to.equal(destinationChainId);
+    expect(profit.inputAmountUsd.eq(toBNWei("100"))).to.be.true;
+    expect(profit.outputAmountUsd.eq(toBNWei("99.5"))).to.be.true;
+    expect(profit.grossRelayerFeeUsd.eq(toBNWei("0.5"))).to.be.true;
+    expect(profit.lpFeeUsd.eq(toBNWei("0.1"))).to.be.true;
+    expect(profit.gasCostUsd.eq(toBNWei("0.1"))).to.be.true;
+    expect(profit.netRelayerFeeUsd.eq(toBNWei("0.3"))).to.be.true;
+    expect(profit.netRelayerFeePct.eq(toBNWei("0.003"))).to.be.true;
+    expect(profit.shouldFill).to.be.true;
+  });
+
+  it("Normalizes different input and output tokens", async function () {
+    deposit.inputToken = WETH.addresses[originChainId];
+    deposit.inputAmount = toBNWei("0.05", WETH.decimals);
+
+    const profit = await calculator.getFillProfit(deposit);
+    expect(profit.inputAmountUsd.eq(toBNWei("100"))).to.be.true;
+    expect(profit.netRelayerFeeUsd.eq(toBNWei("0.3"))).to.be.true;
+    expect(profit.shouldFill).to.be.true;
+  });
+
+  it("Skips fills below the minimum margin", async function () {
+    const profit = await calculator.getFillProfit(deposit, originChainId);
+    expect(profit.lpFeeUsd.eq(toBNWei("0.2"))).to.be.true;
+    expect(profit.netRelayerFeePct.eq(toBNWei("0.002"))).to.be.true;
+    expect(profit.shouldFill).to.be.false;
+
+    deposit.outputAmount = deposit.inputAmount;
+    const unprofitable = await calculator.getFillProfit(deposit);
+    expect(unprofitable.netRelayerFeeUsd.lt(bnZero)).to.be.true;
+    expect(unprofitable.shouldFill).to.be.false;
+  });
+
+  it("Selects the most profitable repayment chain", async function () {
+    const profit = await calculator.getBestRepaymentChain(deposit, [originChainId, destinationChainId]);
+    expect(profit.repaymentChainId).to.equal(destinationChainId);
+    expect(profit.shouldFill).to.be.true;
+  });
+});
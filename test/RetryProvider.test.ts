@@ -0,0 +1,145 @@
+import { providers } from "ethers";
+import { RetryProvider } from "../src/providers";
+import { assertPromiseError, expect } from "./utils";
+
+const chainId = 1;
+
+// Stand-in for an RPC provider that returns a fixed response to every request.
+class StandInProvider extends providers.StaticJsonRpcProvider {
+  public nRequests = 0;
+  public maxInFlight = 0;
+  public readonly requestTimes: number[] = [];
+  private inFlight = 0;
+
+  constructor(
+    private readonly response: () => unknown,
+    private readonly latency = 0
+  ) {
+    super(undefined, chainId);
+  }
+
+  override async send(): Promise<unknown> {
+    ++this.nRequests;
+    this.requestTimes.push(Date.now());
+    this.maxInFlight = Math.max(this.maxInFlight, ++this.inFlight);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+      return this.response();
+    } finally {
+      --this.inFlight;
+    }
+  }
+}
+
+const log = (logIndex: number) => ({
+  address: "0x4d9079bb4165aeb4084c526a32695dcfd2f77381",
+  blockHash: "0x" + "11".repeat(32),
+  blockNumber: "0x10",
+  data: "0x",
+  logIndex: `0x${logIndex.toString(16)}`,
+  topics: ["0x" + "22".repeat(32)],
+  transactionHash: "0x" + "33".repeat(32),
+  transactionIndex: "0x0",
+});
+
+const succeed = (result: unknown) => new StandInProvider(() => result);
+const fail = (message = "server error", details: { code?: number; data?: string } = {}) =>
+  new StandInProvider(() => {
+    throw Object.assign(new Error(message), details);
+  });
+
+describe("RetryProvider", function () {
+  it("Fails over to the next provider", async function () {
+    const [bad, good] = [fail(), succeed("0x1")];
+    const provider = new RetryProvider([bad, good], chainId, { retryDelay: 0 });
+
+    expect(await provider.send("eth_blockNumber", [])).to.equal("0x1");
+    expect(bad.nRequests).to.equal(1);
+    expect(good.nRequests).to.equal(1);
+  });
+
+  it("Retries once all providers have failed", async function () {
+    const bad = [fail("first"), fail("second")];
+    const provider = new RetryProvider(bad, chainId, { retries: 2, retryDelay: 0 });
+
+    await assertPromiseError(provider.send("eth_blockNumber", []), "second");
+    bad.forEach(({ nRequests }) => expect(nRequests).to.equal(3));
+  });
+
+  it("Does not retry contract reverts", async function () {
+    const [reverting, good] = [fail("execution reverted"), succeed("0x")];
+    const provider = new RetryProvider([reverting, good], chainId, { retries: 2, retryDelay: 0 });
+
+    await assertPromiseError(provider.send("eth_call", []), "execution reverted");
+    expect(reverting.nRequests).to.equal(1);
+    expect(good.nRequests).to.equal(0);
+  });
+
+  it("Identifies contract reverts by error code", async function () {
+    const [reverting, good] = [fail("reverted", { code: 3, data: "0x" }), succeed("0x")];
+    const provider = new RetryProvider([reverting, good], chainId, { retries: 2, retryDelay: 0 });
+
+    await assertPromiseError(provider.send("eth_call", []), "reverted");
+    expect(reverting.nRequests).to.equal(1);
+    expect(good.nRequests).to.equal(0);
+  });
+
+  it("Fails over on errors that carry data but are not reverts", async function () {
+    const [bad, good] = [fail("rate limited", { code: -32005, data: "0x1" }), succeed("0x1")];
+    const provider = new RetryProvider([bad, good], chainId, { retryDelay: 0 });
+
+    expect(await provider.send("eth_call", [])).to.equal("0x1");
+    expect(good.nRequests).to.equal(1);
+  });
+
+  it("Limits concurrent requests per provider", async function () {
+    const rpcProvider = new StandInProvider(() => "0x1", 10);
+    const provider = new RetryProvider([rpcProvider], chainId, { maxConcurrency: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, () => provider.send("eth_blockNumber", [])));
+    expect(rpcProvider.nRequests).to.equal(6);
+    expect(rpcProvider.maxInFlight).to.equal(2);
+  });
+
+  it("Limits requests per second per provider", async function () {
+    const rpcProvider = succeed("0x1");
+    const maxRequestsPerSecond = 4;
+    const provider = new RetryProvider([rpcProvider], chainId, { maxRequestsPerSecond });
+
+    await Promise.all(Array.from({ length: maxRequestsPerSecond + 1 }, () => provider.send("eth_blockNumber", [])));
+    const { requestTimes } = rpcProvider;
+    expect(requestTimes).to.have.length(maxRequestsPerSecond + 1);
+    // The final request is held back until the first has aged out of the one second window (less timer jitter).
+    expect(requestTimes[maxRequestsPerSecond] - requestTimes[0]).to.be.greaterThan(900);
+  });
+
+  it("Accepts getLogs results that meet quorum", async function () {
+    const logs = [log(0), log(1)];
+    const rpcProviders = [
+      succeed(logs),
+      // Case and non-standard fields do not affect equivalence.
+      succeed(logs.map((entry) => ({ ...entry, address: entry.address.toUpperCase(), blockTimestamp: "0x1" }))),
+      succeed([]),
+    ];
+    const provider = new RetryProvider(rpcProviders, chainId, { nodeQuorumThreshold: 2 });
+
+    expect(await provider.send("eth_getLogs", [{}])).to.deep.equal(logs);
+    expect(rpcProviders[2].nRequests).to.equal(0);
+  });
+
+  it("Queries fallback providers when getLogs results mismatch", async function () {
+    const logs = [log(0), log(1)];
+    const rpcProviders = [succeed([logs[0]]), succeed(logs), succeed(logs)];
+    const provider = new RetryProvider(rpcProviders, chainId, { nodeQuorumThreshold: 2 });
+
+    expect(await provider.send("eth_getLogs", [{}])).to.deep.equal(logs);
+    rpcProviders.forEach(({ nRequests }) => expect(nRequests).to.equal(1));
+  });
+
+  it("Rejects getLogs results that do not meet quorum", async function () {
+    const rpcProviders = [succeed([log(0)]), succeed([log(1)]), fail()];
+    const provider = new RetryProvider(rpcProviders, chainId, { nodeQuorumThreshold: 2, retries: 0 });
+
+    await assertPromiseError(provider.send("eth_getLogs", [{}]), "Unable to reach quorum");
+  });
+});
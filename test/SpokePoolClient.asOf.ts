@@ -0,0 +1,103 @@
+import { SpokePoolClient } from "../src/clients";
+import { V3Deposit } from "../src/interfaces";
+import { bnOne } from "../src/utils";
+import { EMPTY_MESSAGE, ZERO_ADDRESS } from "../src/constants";
+import { originChainId, destinationChainId } from "./constants";
+import {
+  Contract,
+  SignerWithAddress,
+  assertPromiseError,
+  fillV3Relay,
+  createSpyLogger,
+  deploySpokePoolWithToken,
+  ethers,
+  expect,
+  setupTokensForWallet,
+  toBNWei,
+} from "./utils";
+
+describe("SpokePoolClient: Historical views", function () {
+  let spokePool: Contract, erc20: Contract, destErc20: Contract, weth: Contract;
+  let depositor: SignerWithAddress, relayer: SignerWithAddress;
+  let spokePoolClient: SpokePoolClient;
+  let deploymentBlock: number;
+  let deposit: V3Deposit;
+
+  beforeEach(async function () {
+    [, depositor, relayer] = await ethers.getSigners();
+    ({ spokePool, erc20, destErc20, weth, deploymentBlock } = await deploySpokePoolWithToken(
+      originChainId,
+      destinationChainId
+    ));
+    await spokePool.setChainId(destinationChainId);
+
+    spokePoolClient = new SpokePoolClient(
+      createSpyLogger().spyLogger,
+      spokePool,
+      null,
+      destinationChainId,
+      deploymentBlock
+    );
+
+    await setupTokensForWallet(spokePool, relayer, [erc20, destErc20], weth, 10);
+
+    const spokePoolTime = Number(await spokePool.getCurrentTime());
+    deposit = {
+      depositId: 0,
+      originChainId,
+      destinationChainId,
+      depositor: depositor.address,
+      recipient: depositor.address,
+      inputToken: erc20.address,
+      inputAmount: toBNWei(1).add(bnOne),
+      outputToken: destErc20.address,
+      outputAmount: toBNWei(1),
+      relayerFeePct: toBNWei("0.01"),
+      quoteTimestamp: spokePoolTime - 60,
+      message: EMPTY_MESSAGE,
+      fillDeadline: spokePoolTime + 600,
+      exclusivityDeadline: 0,
+      exclusiveRelayer: ZERO_ADDRESS,
+    };
+  });
+
+  it("Answers queries as of a historical block", async function () {
+    const { blockNumber } = await fillV3Relay(spokePool, deposit, relayer);
+    await spokePool.setCurrentTime(deposit.fillDeadline);
+    await fillV3Relay(spokePool, { ...deposit, depositId: 1 }, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getFills().length).to.equal(2);
+
+    const view = await spokePoolClient.asOf(blockNumber);
+    expect(view.isHistoricalView).to.be.true;
+    expect(view.latestBlockSearched).to.equal(blockNumber);
+    expect(view.getFills().map(({ depositId }) => depositId)).to.deep.equal([0]);
+    expect(view.getCurrentTime()).to.be.lessThan(deposit.fillDeadline);
+
+    // The original client is unaffected.
+    expect(spokePoolClient.isHistoricalView).to.be.false;
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0, 1]);
+    expect(spokePoolClient.getCurrentTime()).to.equal(deposit.fillDeadline);
+  });
+
+  it("Rewinds deposit routes", async function () {
+    await spokePoolClient.update();
+    const { latestBlockSearched } = spokePoolClient;
+    expect(spokePoolClient.getDepositRoutes()[erc20.address][destinationChainId]).to.be.true;
+
+    await spokePool.setEnableRoute(erc20.address, destinationChainId, false);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getDepositRoutes()[erc20.address][destinationChainId]).to.be.false;
+
+    const view = await spokePoolClient.asOf(latestBlockSearched);
+    expect(view.getDepositRoutes()[erc20.address][destinationChainId]).to.be.true;
+  });
+
+  it("Rejects updates to historical views", async function () {
+    await spokePoolClient.update();
+    const view = await spokePoolClient.asOf(spokePoolClient.latestBlockSearched);
+
+    await assertPromiseError(view.update(), "Cannot update a client view");
+    await assertPromiseError(spokePoolClient.asOf(spokePoolClient.latestBlockSearched + 1), "Cannot view client");
+  });
+});
@@ -0,0 +1,137 @@
+import hre from "hardhat";
+import { SpokePoolClient } from "../src/clients";
+import { V3Deposit } from "../src/interfaces";
+import { bnOne } from "../src/utils";
+import { EMPTY_MESSAGE, ZERO_ADDRESS } from "../src/constants";
+import { originChainId, destinationChainId } from "./constants";
+import {
+  Contract,
+  SignerWithAddress,
+  fillV3Relay,
+  createSpyLogger,
+  deploySpokePoolWithToken,
+  ethers,
+  expect,
+  setupTokensForWallet,
+  sinon,
+  toBNWei,
+} from "./utils";
+
+describe("SpokePoolClient: Reorgs", function () {
+  let spokePool: Contract, erc20: Contract, destErc20: Contract, weth: Contract;
+  let depositor: SignerWithAddress, relayer: SignerWithAddress;
+  let spokePoolClient: SpokePoolClient;
+  let deploymentBlock: number;
+  let deposit: V3Deposit;
+
+  beforeEach(async function () {
+    [, depositor, relayer] = await ethers.getSigners();
+    ({ spokePool, erc20, destErc20, weth, deploymentBlock } = await deploySpokePoolWithToken(
+      originChainId,
+      destinationChainId
+    ));
+    await spokePool.setChainId(destinationChainId);
+
+    spokePoolClient = new SpokePoolClient(
+      createSpyLogger().spyLogger,
+      spokePool,
+      null,
+      destinationChainId,
+      deploymentBlock
+    );
+
+    await setupTokensForWallet(spokePool, relayer, [erc20, destErc20], weth, 10);
+
+    const spokePoolTime = Number(await spokePool.getCurrentTime());
+    deposit = {
+      depositId: 0,
+      originChainId,
+      destinationChainId,
+      depositor: depositor.address,
+      recipient: depositor.address,
+      inputToken: erc20.address,
+      inputAmount: toBNWei(1).add(bnOne),
+      outputToken: destErc20.address,
+      outputAmount: toBNWei(1),
+      relayerFeePct: toBNWei("0.01"),
+      quoteTimestamp: spokePoolTime - 60,
+      message: EMPTY_MESSAGE,
+      fillDeadline: spokePoolTime + 600,
+      exclusivityDeadline: 0,
+      exclusiveRelayer: ZERO_ADDRESS,
+    };
+  });
+
+  it("Evicts and re-queries events from reorged blocks", async function () {
+    await fillV3Relay(spokePool, deposit, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getFills().length).to.equal(1);
+
+    // Fill a second deposit, then reorg it out of the chain and replace it with a different fill.
+    const snapshotId = await hre.network.provider.send("evm_snapshot", []);
+    await fillV3Relay(spokePool, { ...deposit, depositId: 1 }, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0, 1]);
+
+    await hre.network.provider.send("evm_revert", [snapshotId]);
+    await fillV3Relay(spokePool, { ...deposit, depositId: 2 }, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0, 2]);
+  });
+
+  it("Notifies listeners of reorgs before re-emitting events", async function () {
+    const notifications: string[] = [];
+    spokePoolClient.on("reorg", (rewindBlock) => notifications.push(`reorg:${rewindBlock}`));
+    spokePoolClient.on("fill", ({ depositId }) => notifications.push(`fill:${depositId}`));
+
+    await fillV3Relay(spokePool, deposit, relayer);
+    await spokePoolClient.update();
+    const { latestBlockSearched } = spokePoolClient;
+
+    const snapshotId = await hre.network.provider.send("evm_snapshot", []);
+    await fillV3Relay(spokePool, { ...deposit, depositId: 1 }, relayer);
+    await spokePoolClient.update();
+
+    await hre.network.provider.send("evm_revert", [snapshotId]);
+    await fillV3Relay(spokePool, { ...deposit, depositId: 2 }, relayer);
+    await spokePoolClient.update();
+    expect(notifications).to.deep.equal(["fill:0", "fill:1", `reorg:${latestBlockSearched}`, "fill:2"]);
+  });
+
+  it("Discards updates that race a reorg of the search end block", async function () {
+    await fillV3Relay(spokePool, deposit, relayer);
+
+    // The search end block is replaced after the client has anchored to it, but before the update completes.
+    const { provider } = spokePool;
+    const getBlock = provider.getBlock.bind(provider);
+    const stub = sinon.stub(provider, "getBlock").callsFake(async (blockTag) => {
+      const block = await getBlock(blockTag);
+      return stub.callCount === 2 ? { ...block, hash: ethers.utils.hexZeroPad("0x01", 32) } : block;
+    });
+
+    try {
+      await spokePoolClient.update();
+    } finally {
+      stub.restore();
+    }
+    expect(spokePoolClient.isUpdated).to.be.false;
+    expect(spokePoolClient.getFills()).to.be.empty;
+
+    // The next update is anchored to the canonical block.
+    await spokePoolClient.update();
+    expect(spokePoolClient.isUpdated).to.be.true;
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0]);
+  });
+
+  it("Does not rewind when previously searched blocks are canonical", async function () {
+    await fillV3Relay(spokePool, deposit, relayer);
+    await spokePoolClient.update();
+    const { latestBlockSearched } = spokePoolClient;
+
+    await fillV3Relay(spokePool, { ...deposit, depositId: 1 }, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0, 1]);
+    expect(spokePoolClient.firstBlockToSearch).to.equal(spokePoolClient.latestBlockSearched + 1);
+    expect(spokePoolClient.latestBlockSearched).to.be.greaterThan(latestBlockSearched);
+  });
+});
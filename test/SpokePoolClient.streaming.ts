@@ -0,0 +1,112 @@
+import { providers } from "ethers";
+import { SpokePoolClient } from "../src/clients";
+import { FillWithBlock, V3Deposit } from "../src/interfaces";
+import { bnOne } from "../src/utils";
+import { EMPTY_MESSAGE, ZERO_ADDRESS } from "../src/constants";
+import { originChainId, destinationChainId } from "./constants";
+import {
+  Contract,
+  SignerWithAddress,
+  fillV3Relay,
+  createSpyLogger,
+  deploySpokePoolWithToken,
+  ethers,
+  expect,
+  setupTokensForWallet,
+  toBNWei,
+} from "./utils";
+
+describe("SpokePoolClient: Streaming", function () {
+  let spokePool: Contract, erc20: Contract, destErc20: Contract, weth: Contract;
+  let depositor: SignerWithAddress, relayer: SignerWithAddress;
+  let spokePoolClient: SpokePoolClient;
+  let deploymentBlock: number;
+  let deposit: V3Deposit;
+
+  beforeEach(async function () {
+    [, depositor, relayer] = await ethers.getSigners();
+    ({ spokePool, erc20, destErc20, weth, deploymentBlock } = await deploySpokePoolWithToken(
+      originChainId,
+      destinationChainId
+    ));
+    await spokePool.setChainId(destinationChainId);
+
+    spokePoolClient = new SpokePoolClient(
+      createSpyLogger().spyLogger,
+      spokePool,
+      null,
+      destinationChainId,
+      deploymentBlock
+    );
+
+    await setupTokensForWallet(spokePool, relayer, [erc20, destErc20], weth, 10);
+
+    const spokePoolTime = Number(await spokePool.getCurrentTime());
+    deposit = {
+      depositId: 0,
+      originChainId,
+      destinationChainId,
+      depositor: depositor.address,
+      recipient: depositor.address,
+      inputToken: erc20.address,
+      inputAmount: toBNWei(1).add(bnOne),
+      outputToken: destErc20.address,
+      outputAmount: toBNWei(1),
+      relayerFeePct: toBNWei("0.01"),
+      quoteTimestamp: spokePoolTime - 60,
+      message: EMPTY_MESSAGE,
+      fillDeadline: spokePoolTime + 600,
+      exclusivityDeadline: 0,
+      exclusiveRelayer: ZERO_ADDRESS,
+    };
+  });
+
+  afterEach(function () {
+    spokePoolClient.stopStreaming();
+  });
+
+  it("Emits newly indexed events on update", async function () {
+    const fills: FillWithBlock[] = [];
+    spokePoolClient.on("fill", (fill) => fills.push(fill));
+
+    await fillV3Relay(spokePool, deposit, relayer);
+    await spokePoolClient.update();
+    expect(fills.map(({ depositId }) => depositId)).to.deep.equal([0]);
+
+    // Events are only emitted once.
+    await fillV3Relay(spokePool, { ...deposit, depositId: 1 }, relayer);
+    await spokePoolClient.update();
+    expect(fills.map(({ depositId }) => depositId)).to.deep.equal([0, 1]);
+  });
+
+  it("Isolates listeners that throw", async function () {
+    const fills: FillWithBlock[] = [];
+    spokePoolClient.on("fill", () => {
+      throw new Error("Listener failure");
+    });
+    spokePoolClient.on("fill", (fill) => fills.push(fill));
+
+    await fillV3Relay(spokePool, deposit, relayer);
+    await spokePoolClient.update();
+    expect(spokePoolClient.isUpdated).to.be.true;
+    expect(fills.map(({ depositId }) => depositId)).to.deep.equal([0]);
+  });
+
+  it("Updates on new blocks while streaming", async function () {
+    (spokePool.provider as providers.JsonRpcProvider).pollingInterval = 100;
+    await spokePoolClient.update();
+
+    const fill = new Promise<FillWithBlock>((resolve) => spokePoolClient.once("fill", resolve));
+    spokePoolClient.startStreaming();
+    expect(spokePoolClient.isStreaming).to.be.true;
+
+    await fillV3Relay(spokePool, deposit, relayer);
+    const { depositId, blockNumber } = await fill;
+    expect(depositId).to.equal(deposit.depositId);
+    expect(spokePoolClient.getFills().map(({ depositId }) => depositId)).to.deep.equal([0]);
+    expect(spokePoolClient.latestBlockSearched).to.be.at.least(blockNumber);
+
+    spokePoolClient.stopStreaming();
+    expect(spokePoolClient.isStreaming).to.be.false;
+  });
+});
@@ -0,0 +1,206 @@
+import { ZERO_ADDRESS } from "../src/constants";
+import { FillSimulationStatus } from "../src/interfaces";
+import { bnOne, simulateFill } from "../src/utils";
+import { destinationChainId, originChainId } from "./constants";
+import {
+  BigNumber,
+  Contract,
+  SignerWithAddress,
+  assertPromiseError,
+  deploySpokePoolWithToken,
+  depositV3,
+  ethers,
+  expect,
+  fillV3Relay,
+  getLastBlockTime,
+  getUpdatedV3DepositSignature,
+  setupTokensForWallet,
+  toBNWei,
+} from "./utils";
+
+let spokePool_1: Contract, erc20_1: Contract, spokePool_2: Contract, erc20_2: Contract;
+let depositor: SignerWithAddress, relayer: SignerWithAddress, unfundedRelayer: SignerWithAddress;
+
+describe("SpokeUtils: Fill simulation", function () {
+  let inputToken: string, outputToken: string;
+  let inputAmount: BigNumber, outputAmount: BigNumber;
+
+  beforeEach(async function () {
+    [, depositor, relayer, unfundedRelayer] = await ethers.getSigners();
+    ({ spokePool: spokePool_1, erc20: erc20_1 } = await deploySpokePoolWithToken(originChainId, destinationChainId));
+    ({ spokePool: spokePool_2, erc20: erc20_2 } = await deploySpokePoolWithToken(destinationChainId, originChainId));
+
+    await setupTokensForWallet(spokePool_1, depositor, [erc20_1], undefined, 10);
+    await setupTokensForWallet(spokePool_2, relayer, [erc20_2], undefined, 10);
+
+    const currentTime = await getLastBlockTime(spokePool_1.provider);
+    await Promise.all([spokePool_1.setCurrentTime(currentTime), spokePool_2.setCurrentTime(currentTime)]);
+
+    inputToken = erc20_1.address;
+    inputAmount = toBNWei(1);
+    outputToken = erc20_2.address;
+    outputAmount = inputAmount.sub(bnOne);
+  });
+
+  it("Predicts successful fills", async function () {
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount
+    );
+
+    const { status } = await simulateFill(spokePool_2, deposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.Success);
+  });
+
+  it("Identifies filled deposits", async function () {
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount
+    );
+    await fillV3Relay(spokePool_2, deposit, relayer);
+
+    const { status } = await simulateFill(spokePool_2, deposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.AlreadyFilled);
+  });
+
+  it("Identifies expired deposits", async function () {
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount
+    );
+    await spokePool_2.setCurrentTime(deposit.fillDeadline + 1);
+
+    const { status } = await simulateFill(spokePool_2, deposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.Expired);
+  });
+
+  it("Enforces exclusivity", async function () {
+    const exclusivityDeadline = Number(await spokePool_1.getCurrentTime()) + 60;
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount,
+      { exclusiveRelayer: unfundedRelayer.address, exclusivityDeadline }
+    );
+
+    let { status } = await simulateFill(spokePool_2, deposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.NotExclusiveRelayer);
+
+    // Once the exclusivity deadline has passed, any relayer can fill.
+    await spokePool_2.setCurrentTime(exclusivityDeadline + 1);
+    ({ status } = await simulateFill(spokePool_2, deposit, relayer.address));
+    expect(status).to.equal(FillSimulationStatus.Success);
+  });
+
+  it("Applies exclusivity to the zero address only for sped up fills", async function () {
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount
+    );
+    const exclusivityDeadline = Number(await spokePool_2.getCurrentTime()) + 60;
+    const exclusiveDeposit = { ...deposit, exclusiveRelayer: ZERO_ADDRESS, exclusivityDeadline };
+
+    // Sped up fills are rejected by the SpokePool until the exclusivity deadline has passed.
+    const updatedOutputAmount = outputAmount.sub(bnOne);
+    const speedUpSignature = await getUpdatedV3DepositSignature(
+      depositor,
+      deposit.depositId,
+      originChainId,
+      updatedOutputAmount,
+      deposit.recipient,
+      deposit.message
+    );
+    const spedUpDeposit = {
+      ...exclusiveDeposit,
+      speedUpSignature,
+      updatedOutputAmount,
+      updatedRecipient: deposit.recipient,
+      updatedMessage: deposit.message,
+    };
+    let { status } = await simulateFill(spokePool_2, spedUpDeposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.NotExclusiveRelayer);
+    const spedUpFill = spokePool_2
+      .connect(relayer)
+      .fillV3RelayWithUpdatedDeposit(
+        exclusiveDeposit,
+        destinationChainId,
+        updatedOutputAmount,
+        deposit.recipient,
+        deposit.message,
+        speedUpSignature
+      );
+    await assertPromiseError(spedUpFill, "NotExclusiveRelayer");
+
+    // Other fills are not subject to exclusivity.
+    ({ status } = await simulateFill(spokePool_2, exclusiveDeposit, relayer.address));
+    expect(status).to.equal(FillSimulationStatus.Success);
+    await fillV3Relay(spokePool_2, exclusiveDeposit, relayer);
+    ({ status } = await simulateFill(spokePool_2, exclusiveDeposit, relayer.address));
+    expect(status).to.equal(FillSimulationStatus.AlreadyFilled);
+  });
+
+  it("Identifies insufficient relayer balances and allowances", async function () {
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount
+    );
+
+    let { status } = await simulateFill(spokePool_2, deposit, unfundedRelayer.address);
+    expect(status).to.equal(FillSimulationStatus.InsufficientBalance);
+
+    await erc20_2.connect(relayer).transfer(unfundedRelayer.address, outputAmount);
+    ({ status } = await simulateFill(spokePool_2, deposit, unfundedRelayer.address));
+    expect(status).to.equal(FillSimulationStatus.InsufficientAllowance);
+
+    await erc20_2.connect(unfundedRelayer).approve(spokePool_2.address, outputAmount);
+    ({ status } = await simulateFill(spokePool_2, deposit, unfundedRelayer.address));
+    expect(status).to.equal(FillSimulationStatus.Success);
+  });
+
+  it("Identifies reverting messages", async function () {
+    // The recipient is a contract that does not implement handleV3AcrossMessage().
+    const deposit = await depositV3(
+      spokePool_1,
+      destinationChainId,
+      depositor,
+      inputToken,
+      inputAmount,
+      outputToken,
+      outputAmount,
+      { recipient: erc20_2.address, message: "0x1234" }
+    );
+
+    const { status, error } = await simulateFill(spokePool_2, deposit, relayer.address);
+    expect(status).to.equal(FillSimulationStatus.MessageReverts);
+    expect(error).to.not.be.undefined;
+  });
+});
@@ -3,7 +3,7 @@ import Arweave from "arweave";
 import { JWKInterface } from "arweave/node/lib/wallet";
 import axios from "axios";
 import { expect } from "chai";
-import { object, string } from "superstruct";
+import { array, number, object, string } from "superstruct";
 import winston from "winston";
 import { ArweaveClient } from "../src/caching";
 import { ARWEAVE_TAG_APP_NAME } from "../src/constants";
@@ -94,6 +94,23 @@ describe("ArweaveClient", () => {
     expect(retrievedValue).to.deep.equal(expectedValue);
   });
 
+  it("should read back a record before it is mined", async () => {
+    const value = { test: "pending" };
+    const txID = await client.set(value, "test-topic-for-pending-records", 1);
+    expect(txID).to.not.be.undefined;
+
+    // The tags of the transaction are not available until it is mined.
+    expect(await client.get(txID!, object())).to.deep.equal(value);
+    expect(await client.getMetadata(txID!)).to.be.null;
+
+    // Wait for the transaction to be mined
+    await mineBlock();
+    await mineBlock();
+
+    expect(await client.get(txID!, object())).to.deep.equal(value);
+    expect((await client.getMetadata(txID!))?.topic).to.equal("test-topic-for-pending-records");
+  });
+
   it("should fail to get a non-existent record", async () => {
     const retrievedValue = await client.get("non-existent", object());
     expect(retrievedValue).to.be.null;
@@ -184,6 +201,112 @@ describe("ArweaveClient", () => {
     ]);
   });
 
+  it("should page through the data by the topic tag", async () => {
+    const topicTag = "test-topic-for-pagination";
+    const values = [0, 1, 2, 3, 4].map((idx) => ({ test: `value-${idx}` }));
+    const txIDs: string[] = [];
+    for (const value of values) {
+      txIDs.push((await client.set(value, topicTag))!);
+    }
+
+    // Wait for the transactions to be mined
+    await mineBlock();
+    await mineBlock();
+
+    const validator = object({ test: string() });
+    const originQueryAddress = await client.getAddress();
+    const pages: { data: { test: string }; hash: string }[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.getByTopicPage(topicTag, validator, { originQueryAddress, pageSize: 2, cursor });
+      pages.push(page.records);
+      cursor = page.cursor;
+    } while (cursor !== undefined);
+
+    expect(pages.length).to.equal(3);
+    expect(pages.flat().map(({ hash }) => hash)).to.have.members(txIDs);
+
+    const data = await client.getByTopic(topicTag, validator, originQueryAddress);
+    expect(data.map(({ data }) => data)).to.have.deep.members(values);
+  });
+
+  it("should restrict the data by the topic tag to a time window", async () => {
+    const value = { test: "value" };
+    const topicTag = "test-topic-for-time-window";
+    const txID = await client.set(value, topicTag);
+
+    // Wait for the transaction to be mined
+    await mineBlock();
+    await mineBlock();
+
+    const validator = object({ test: string() });
+    const originQueryAddress = await client.getAddress();
+    const now = Math.floor(Date.now() / 1000);
+
+    const inWindow = await client.getByTopic(topicTag, validator, originQueryAddress, {
+      fromTimestamp: now - 3600,
+      toTimestamp: now + 3600,
+    });
+    expect(inWindow).to.deep.equal([{ data: value, hash: txID }]);
+
+    const before = await client.getByTopic(topicTag, validator, originQueryAddress, { toTimestamp: now - 3600 });
+    const after = await client.getByTopic(topicTag, validator, originQueryAddress, { fromTimestamp: now + 3600 });
+    expect(before).to.deep.equal([]);
+    expect(after).to.deep.equal([]);
+  });
+
+  it("should store and reassemble chunked records", async () => {
+    const chunkedClient = new ArweaveClient(
+      jwk,
+      winston.createLogger({ transports: [new winston.transports.Console({ level: "warn" })] }),
+      LOCAL_ARWEAVE_NODE.host,
+      LOCAL_ARWEAVE_NODE.protocol,
+      LOCAL_ARWEAVE_NODE.port,
+      64
+    );
+    const value = { test: "value".repeat(50), nested: { list: [1, 2, 3] } };
+    const topicTag = "test-topic-for-chunked-records";
+    const txID = await chunkedClient.set(value, topicTag);
+    expect(txID).to.not.be.undefined;
+
+    // Wait for the transactions to be mined
+    await mineBlock();
+    await mineBlock();
+
+    const validator = object({ test: string(), nested: object({ list: array(number()) }) });
+    expect(await chunkedClient.get(txID!, validator)).to.deep.equal(value);
+
+    // Chunks are not returned as records in their own right.
+    const data = await chunkedClient.getByTopic(topicTag, validator, await chunkedClient.getAddress());
+    expect(data).to.deep.equal([{ data: value, hash: txID }]);
+  });
+
+  it("should migrate records stored under older schema versions", async () => {
+    const schema = {
+      version: 2,
+      validator: object({ name: string(), amount: string() }),
+      migrations: {
+        0: (record: unknown) => ({ name: (record as { test: string }).test }),
+        1: (record: unknown) => ({ ...(record as { name: string }), amount: "0" }),
+      },
+    };
+
+    // Unversioned records are migrated from version 0.
+    const unversionedTxID = await client.set({ test: "value" });
+    const versionedTxID = await client.set({ name: "value" }, undefined, 1);
+    const currentTxID = await client.set({ name: "value", amount: "1" }, undefined, 2);
+    const newerTxID = await client.set({ name: "value", amount: "1" }, undefined, 3);
+
+    // Wait for the transactions to be mined
+    await mineBlock();
+    await mineBlock();
+
+    expect(await client.get(unversionedTxID!, schema)).to.deep.equal({ name: "value", amount: "0" });
+    expect(await client.get(versionedTxID!, schema)).to.deep.equal({ name: "value", amount: "0" });
+    expect(await client.get(currentTxID!, schema)).to.deep.equal({ name: "value", amount: "1" });
+    expect(await client.get(newerTxID!, schema)).to.be.null;
+  });
+
   it("should gracefully handle out of funds errors", async () => {
     const jwk = await Arweave.init({}).wallets.generate();
     // Create a new Arweave client
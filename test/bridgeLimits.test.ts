@@ -0,0 +1,193 @@
+import { BigNumber } from "ethers";
+import hre from "hardhat";
+import { LpFeeRequest } from "../src/clients";
+import { Deposit, ExecutedRootBundle, PoolRebalanceLeaf, ProposedRootBundle } from "../src/interfaces";
+import {
+  BridgeLimitsBundleDataClient,
+  BridgeLimitsCalculator,
+  BridgeLimitsHubPoolClient,
+  RelayerFeeDetails,
+} from "../src/relayFeeCalculator";
+import { BlockFinder, bnZero, buildPoolRebalanceLeafTree, isDefined, toBNWei } from "../src/utils";
+import { assertPromiseError, ethers, expect, randomAddress } from "./utils";
+
+const [hubChainId, originChainId, destinationChainId] = [1, 10, 42161];
+const toUSDC = (amount: string) => toBNWei(amount, 6);
+const minDeposit = toUSDC("2.5");
+
+describe("BridgeLimitsCalculator", function () {
+  const l1Token = randomAddress();
+  let hubPoolClient: BridgeLimitsHubPoolClient;
+  let calculator: BridgeLimitsCalculator;
+  let liquidReserves: BigNumber;
+  let pendingRootBundle: ProposedRootBundle | undefined;
+  let poolRebalanceLeaves: PoolRebalanceLeaf[];
+  let executedLeafIds: number[];
+
+  // Build a PoolRebalanceLeaf. Positive net send amounts are paid out in full, so they leave no running balance.
+  const leaf = (
+    leafId: number,
+    chainId: number,
+    l1Tokens: string[],
+    netSendAmounts: BigNumber[],
+    runningBalances = netSendAmounts.map(() => bnZero)
+  ): PoolRebalanceLeaf => ({
+    chainId,
+    groupIndex: 0,
+    bundleLpFees: l1Tokens.map(() => bnZero),
+    netSendAmounts,
+    runningBalances,
+    leafId,
+    l1Tokens,
+  });
+
+  // Propose a root bundle with the given PoolRebalanceLeaves, none of which have been executed.
+  const proposeRootBundle = (leaves: PoolRebalanceLeaf[]) => {
+    poolRebalanceLeaves = leaves;
+    executedLeafIds = [];
+    pendingRootBundle = {
+      blockNumber: 100,
+      transactionIndex: 0,
+      logIndex: 0,
+      transactionHash: randomAddress(),
+      challengePeriodEndTimestamp: 0,
+      poolRebalanceLeafCount: leaves.length,
+      bundleEvaluationBlockNumbers: [],
+      poolRebalanceRoot: buildPoolRebalanceLeafTree(leaves).getHexRoot(),
+      relayerRefundRoot: randomAddress(),
+      slowRelayRoot: randomAddress(),
+      proposer: randomAddress(),
+    };
+  };
+
+  // Stand-in BundleDataClient that rebuilds the pending root bundle's PoolRebalanceLeaves.
+  const bundleDataClient: BridgeLimitsBundleDataClient = {
+    buildRootBundleLeavesForRootBundle: () =>
+      Promise.resolve({ poolRebalanceLeaves, relayerRefundLeaves: [], slowFillLeaves: [] }),
+  };
+
+  // Stand-in RelayFeeCalculator that reports a fixed minimum deposit.
+  const relayFeeCalculator = {
+    relayerFeeDetails: (deposit: Deposit): Promise<RelayerFeeDetails> =>
+      Promise.resolve({
+        amountToRelay: deposit.inputAmount.toString(),
+        tokenSymbol: "USDC",
+        gasFeePercent: "0",
+        gasFeeTotal: "0",
+        gasDiscountPercent: 0,
+        capitalFeePercent: "0",
+        capitalFeeTotal: "0",
+        capitalDiscountPercent: 0,
+        relayFeePercent: "0",
+        relayFeeTotal: "0",
+        feeLimitPercent: 0,
+        isAmountTooLow: false,
+        maxGasFeePercent: "0",
+        minDeposit: minDeposit.toString(),
+      }),
+  };
+
+  before(async function () {
+    // Produce a short history of blocks for the BlockFinder to search.
+    for (let i = 0; i < 5; ++i) {
+      await hre.network.provider.send("evm_increaseTime", [60]);
+      await hre.network.provider.send("evm_mine");
+    }
+  });
+
+  beforeEach(async function () {
+    const { timestamp: currentTime } = await ethers.provider.getBlock("latest");
+    liquidReserves = toUSDC("2000");
+    pendingRootBundle = undefined;
+    poolRebalanceLeaves = [];
+    executedLeafIds = [];
+
+    hubPoolClient = {
+      chainId: hubChainId,
+      latestBlockSearched: 200,
+      hasPendingProposal: () => isDefined(pendingRootBundle),
+      getLatestProposedRootBundle: () => pendingRootBundle as ProposedRootBundle,
+      getExecutedLeavesForRootBundle: () => executedLeafIds.map((leafId) => ({ leafId }) as ExecutedRootBundle),
+      blockFinder: new BlockFinder(ethers.provider),
+      currentTime,
+      deploymentBlock: 0,
+      batchComputeRealizedLpFeePct: (deposits: LpFeeRequest[]) =>
+        Promise.resolve(deposits.map(() => ({ quoteBlock: 0, realizedLpFeePct: bnZero }))),
+      getL2TokenForDeposit: () => randomAddress(),
+      getL2TokenForL1TokenAtBlock: () => randomAddress(),
+      getLpTokenInfoForL1Token: () => ({ lastLpFeeUpdate: currentTime, liquidReserves }),
+      getTokenInfoForL1Token: () => ({ address: l1Token, symbol: "USDC", decimals: 6 }),
+      configStoreClient: { isChainLiteChainAtTimestamp: () => false },
+    };
+
+    calculator = new BridgeLimitsCalculator(hubPoolClient, relayFeeCalculator, bundleDataClient, [
+      { relayer: randomAddress(), balances: { [destinationChainId]: toUSDC("300"), [hubChainId]: toUSDC("200") } },
+      { relayer: randomAddress(), balances: { [destinationChainId]: toUSDC("400") } },
+    ]);
+  });
+
+  it("Derives limits from liquid reserves and relayer inventory", async function () {
+    // Only positive net send amounts are paid out by the HubPool.
+    const pendingNetSendAmounts = { [originChainId]: toUSDC("100"), [destinationChainId]: toUSDC("-50") };
+    const limits = await calculator.getBridgeLimits(l1Token, originChainId, destinationChainId, pendingNetSendAmounts);
+
+    expect(limits.minDeposit.eq(minDeposit)).to.be.true;
+    expect(limits.maxDeposit.eq(toUSDC("1900"))).to.be.true;
+    expect(limits.maxDepositInstant.eq(toUSDC("400"))).to.be.true;
+    expect(limits.maxDepositShortDelay.eq(toUSDC("900"))).to.be.true;
+  });
+
+  it("Reserves the unexecuted net send amounts of the pending root bundle", async function () {
+    const otherToken = randomAddress();
+    proposeRootBundle([
+      leaf(0, hubChainId, [l1Token], [bnZero]),
+      // Deposits on the origin chain left a negative running balance below the rebalance threshold.
+      leaf(1, originChainId, [l1Token], [bnZero], [toUSDC("-150")]),
+      leaf(2, destinationChainId, [l1Token], [toUSDC("300")]),
+      leaf(3, 137, [otherToken, l1Token], [toUSDC("1000"), toUSDC("200")]),
+    ]);
+
+    let pendingNetSendAmounts = await calculator.getPendingNetSendAmounts(l1Token);
+    expect(Object.keys(pendingNetSendAmounts).map(Number)).to.have.members([destinationChainId, 137]);
+    expect(pendingNetSendAmounts[destinationChainId].eq(toUSDC("300"))).to.be.true;
+    expect(pendingNetSendAmounts[137].eq(toUSDC("200"))).to.be.true;
+
+    let limits = await calculator.getBridgeLimits(l1Token, originChainId, destinationChainId);
+    expect(limits.maxDeposit.eq(toUSDC("1500"))).to.be.true;
+
+    // Executing the destination chain's leaf sends its funds out of the HubPool's liquid reserves.
+    executedLeafIds.push(2);
+    liquidReserves = liquidReserves.sub(toUSDC("300"));
+    pendingNetSendAmounts = await calculator.getPendingNetSendAmounts(l1Token);
+    expect(Object.keys(pendingNetSendAmounts).map(Number)).to.deep.equal([137]);
+    limits = await calculator.getBridgeLimits(l1Token, originChainId, destinationChainId);
+    expect(limits.maxDeposit.eq(toUSDC("1500"))).to.be.true;
+
+    // Supplied net send amounts take precedence.
+    limits = await calculator.getBridgeLimits(l1Token, originChainId, destinationChainId, {});
+    expect(limits.maxDeposit.eq(liquidReserves)).to.be.true;
+  });
+
+  it("Rejects rebuilt leaves that do not match the pending root bundle", async function () {
+    proposeRootBundle([leaf(0, destinationChainId, [l1Token], [toUSDC("300")])]);
+    poolRebalanceLeaves = [leaf(0, destinationChainId, [l1Token], [toUSDC("30")])];
+    await assertPromiseError(calculator.getPendingNetSendAmounts(l1Token), "Unable to rebuild");
+  });
+
+  it("Does not double count inventory when the destination is the hub chain", async function () {
+    const limits = await calculator.getBridgeLimits(l1Token, originChainId, hubChainId);
+    expect(limits.maxDepositInstant.eq(toUSDC("200"))).to.be.true;
+    expect(limits.maxDepositShortDelay.eq(toUSDC("200"))).to.be.true;
+  });
+
+  it("Caps relayer limits at the available reserves", async function () {
+    calculator.setRelayerInventory([{ relayer: randomAddress(), balances: { [destinationChainId]: toUSDC("5000") } }]);
+    const limits = await calculator.getBridgeLimits(l1Token, originChainId, destinationChainId, {
+      [destinationChainId]: toUSDC("1500"),
+    });
+
+    expect(limits.maxDeposit.eq(toUSDC("500"))).to.be.true;
+    expect(limits.maxDepositInstant.eq(toUSDC("500"))).to.be.true;
+    expect(limits.maxDepositShortDelay.eq(toUSDC("500"))).to.be.true;
+  });
+});
@@ -0,0 +1,157 @@
+import hre from "hardhat";
+import { LpFeeRequest } from "../src/clients";
+import { ZERO_ADDRESS } from "../src/constants";
+import { Deposit } from "../src/interfaces";
+import { DepositQuoteHubPoolClient, RelayerFeeDetails, getDepositQuote } from "../src/relayFeeCalculator";
+import { BlockFinder, bnZero, fixedPointAdjustment, toBNWei } from "../src/utils";
+import { BigNumber, ethers, expect, randomAddress } from "./utils";
+
+const [originChainId, destinationChainId] = [10, 42161];
+const realizedLpFeePct = toBNWei("0.0001");
+const relayFeePct = toBNWei("0.0004");
+
+describe("getDepositQuote", function () {
+  let hubPoolClient: DepositQuoteHubPoolClient;
+  let simulatedDeposits: Deposit[];
+  let lpFeeRequests: LpFeeRequest[];
+  let liteChainIds: number[];
+  let isAmountTooLow: boolean;
+  let currentTime: number;
+  const [inputToken, outputToken] = [randomAddress(), randomAddress()];
+
+  // Stand-in RelayFeeCalculator that charges a flat relayer fee.
+  const relayFeeCalculator = {
+    relayerFeeDetails: (deposit: Deposit, amountToRelay?: BigNumber): Promise<RelayerFeeDetails> => {
+      simulatedDeposits.push(deposit);
+      const amount = amountToRelay ?? deposit.outputAmount;
+      const relayFeeTotal = amount.mul(relayFeePct).div(fixedPointAdjustment);
+      return Promise.resolve({
+        amountToRelay: amount.toString(),
+        tokenSymbol: "USDC",
+        gasFeePercent: relayFeePct.toString(),
+        gasFeeTotal: relayFeeTotal.toString(),
+        gasDiscountPercent: 0,
+        capitalFeePercent: "0",
+        capitalFeeTotal: "0",
+        capitalDiscountPercent: 0,
+        relayFeePercent: relayFeePct.toString(),
+        relayFeeTotal: relayFeeTotal.toString(),
+        feeLimitPercent: 0,
+        isAmountTooLow,
+        maxGasFeePercent: "0",
+        minDeposit: "0",
+      });
+    },
+  };
+
+  before(async function () {
+    // Produce a short history of blocks for the BlockFinder to search.
+    for (let i = 0; i < 5; ++i) {
+      await hre.network.provider.send("evm_increaseTime", [60]);
+      await hre.network.provider.send("evm_mine");
+    }
+  });
+
+  beforeEach(async function () {
+    ({ timestamp: currentTime } = await ethers.provider.getBlock("latest"));
+    simulatedDeposits = [];
+    lpFeeRequests = [];
+    liteChainIds = [];
+    isAmountTooLow = false;
+
+    hubPoolClient = {
+      blockFinder: new BlockFinder(ethers.provider),
+      currentTime,
+      deploymentBlock: 0,
+      batchComputeRealizedLpFeePct: (deposits: LpFeeRequest[]) => {
+        lpFeeRequests.push(...deposits);
+        return Promise.resolve(deposits.map(() => ({ quoteBlock: 0, realizedLpFeePct })));
+      },
+      getL2TokenForDeposit: () => outputToken,
+      configStoreClient: { isChainLiteChainAtTimestamp: (chainId: number) => liteChainIds.includes(chainId) },
+    };
+  });
+
+  it("Quotes the output amount net of LP and relayer fees", async function () {
+    const inputAmount = toBNWei("100", 6);
+    const quote = await getDepositQuote(hubPoolClient, relayFeeCalculator, {
+      originChainId,
+      destinationChainId,
+      inputToken,
+      inputAmount,
+    });
+
+    const quoteBlock = await ethers.provider.getBlock(quote.quoteBlock);
+    expect(quote.quoteTimestamp).to.equal(quoteBlock.timestamp);
+    expect(quote.quoteTimestamp).to.be.at.most(currentTime - 60);
+
+    expect(quote.outputToken).to.equal(outputToken);
+    expect(quote.lpFeeTotal.eq(toBNWei("0.01", 6))).to.be.true;
+    expect(quote.totalFeePct.eq(realizedLpFeePct.add(relayFeePct))).to.be.true;
+    expect(quote.outputAmount.eq(toBNWei("99.95", 6))).to.be.true;
+    expect(quote.fillDeadline).to.equal(currentTime + 4 * 60 * 60);
+    expect(quote.exclusiveRelayer).to.equal(ZERO_ADDRESS);
+    expect(quote.exclusivityDeadline).to.equal(0);
+    expect(quote.isAmountTooLow).to.be.false;
+
+    // The relayer fee is simulated against the quoted deposit.
+    const [deposit] = simulatedDeposits;
+    expect(deposit.quoteTimestamp).to.equal(quote.quoteTimestamp);
+    expect(deposit.outputToken).to.equal(outputToken);
+    expect(deposit.fillDeadline).to.equal(quote.fillDeadline);
+    expect(deposit.fromLiteChain).to.be.false;
+    expect(lpFeeRequests.map(({ paymentChainId }) => paymentChainId)).to.deep.equal([destinationChainId]);
+  });
+
+  it("Computes the LP fee of lite chain deposits for repayment on the origin chain", async function () {
+    liteChainIds = [originChainId];
+    await getDepositQuote(hubPoolClient, relayFeeCalculator, {
+      originChainId,
+      destinationChainId,
+      inputToken,
+      inputAmount: toBNWei("100", 6),
+    });
+
+    expect(lpFeeRequests.map(({ paymentChainId }) => paymentChainId)).to.deep.equal([originChainId]);
+    expect(simulatedDeposits[0].fromLiteChain).to.be.true;
+    expect(simulatedDeposits[0].toLiteChain).to.be.false;
+  });
+
+  it("Applies a configured exclusive relayer window", async function () {
+    const exclusiveRelayer = randomAddress();
+    const quote = await getDepositQuote(
+      hubPoolClient,
+      relayFeeCalculator,
+      { originChainId, destinationChainId, inputToken, inputAmount: toBNWei("100", 6), outputToken: inputToken },
+      { exclusiveRelayer, exclusivityPeriod: 30, fillDeadlineBuffer: 600 }
+    );
+
+    expect(quote.outputToken).to.equal(inputToken);
+    expect(quote.exclusiveRelayer).to.equal(exclusiveRelayer);
+    expect(quote.exclusivityDeadline).to.equal(currentTime + 30);
+    expect(quote.fillDeadline).to.equal(currentTime + 600);
+    expect(simulatedDeposits[0].exclusiveRelayer).to.equal(exclusiveRelayer);
+  });
+
+  it("Flags amounts that are too low", async function () {
+    isAmountTooLow = true;
+    let quote = await getDepositQuote(hubPoolClient, relayFeeCalculator, {
+      originChainId,
+      destinationChainId,
+      inputToken,
+      inputAmount: toBNWei("100", 6),
+    });
+    expect(quote.isAmountTooLow).to.be.true;
+
+    // Amounts that are entirely consumed by fees are too low, irrespective of the relayer fee calculation.
+    isAmountTooLow = false;
+    quote = await getDepositQuote(hubPoolClient, relayFeeCalculator, {
+      originChainId,
+      destinationChainId,
+      inputToken,
+      inputAmount: bnZero,
+    });
+    expect(quote.outputAmount.eq(bnZero)).to.be.true;
+    expect(quote.isAmountTooLow).to.be.true;
+  });
+});
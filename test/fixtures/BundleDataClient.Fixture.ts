@@ -0,0 +1,230 @@
+// Sets up a BundleDataClient over mocked ConfigStore, HubPool and SpokePool clients. SpokePool contract reads that the
+// BundleDataClient makes directly (SpokePool time and fill statuses) are served by fake contracts.
+
+import { FakeContract, FakeContractSpec } from "@defi-wonderland/smock";
+import { random } from "lodash";
+import { BundleDataClient, DEFAULT_CONFIG_STORE_VERSION, GLOBAL_CONFIG_STORE_KEYS } from "../../src/clients";
+import { MockConfigStoreClient, MockHubPoolClient, MockSpokePoolClient } from "../../src/clients/mocks";
+import {
+  DepositWithBlock,
+  Fill,
+  FillStatus,
+  FillType,
+  FillWithBlock,
+  RelayData,
+  RelayExecutionEventInfo,
+  TokensBridged,
+} from "../../src/interfaces";
+import { AcrossConfigStore__factory, HubPool__factory, SpokePool__factory } from "../../src/typechain";
+import { EMPTY_MESSAGE } from "../../src/constants";
+import { getCurrentTime, getRelayDataHash, toBNWei } from "../../src/utils";
+import { BigNumber, Contract, createSpyLogger, ethers, fillFromDeposit, randomAddress, smock } from "../utils";
+
+export const MAX_REFUNDS_PER_LEAF = 2;
+export const MAX_L1_TOKENS_PER_LEAF = 2;
+export const LP_FEE_PCT = toBNWei("0.0001");
+export const DEPOSIT_AMOUNT = toBNWei("100");
+
+// Fake contracts lack some of the internals of ethers Contracts, but stand in for them wherever a client reads state.
+const fakeContract = async (
+  abi: FakeContractSpec,
+  address = randomAddress()
+): Promise<FakeContract<Contract> & Contract> =>
+  (await smock.fake<Contract>(abi, { address })) as FakeContract<Contract> & Contract;
+
+// Mocked events are produced at low block numbers; the fake SpokePools must be callable at those block tags.
+const MIN_BLOCK_NUMBER = 1024;
+
+// Fill overrides may specify a subset of the relay execution info.
+export type FillOverrides = Partial<Omit<Fill, "relayExecutionInfo">> & {
+  relayExecutionInfo?: Partial<RelayExecutionEventInfo>;
+};
+
+export type BundleDataClientFixture = {
+  chainIds: number[];
+  hubPoolChainId: number;
+  currentTime: number;
+  l1Token: string;
+  l2Tokens: { [chainId: number]: string };
+  configStoreClient: MockConfigStoreClient;
+  hubPoolClient: MockHubPoolClient;
+  spokePoolClients: { [chainId: number]: MockSpokePoolClient };
+  bundleDataClient: BundleDataClient;
+  setFillStatus: (relayData: RelayData, destinationChainId: number, fillStatus: FillStatus) => void;
+  deposit: (
+    originChainId: number,
+    destinationChainId: number,
+    blockNumber: number,
+    overrides?: Partial<DepositWithBlock>
+  ) => Promise<DepositWithBlock>;
+  fill: (deposit: DepositWithBlock, blockNumber: number, overrides?: FillOverrides) => Promise<FillWithBlock>;
+  requestSlowFill: (deposit: DepositWithBlock, blockNumber: number) => Promise<void>;
+  bridgeTokens: (chainId: number, amountToReturn: BigNumber, blockNumber: number) => Promise<void>;
+};
+
+/**
+ * Set up a BundleDataClient over a HubPool chain and a number of additional SpokePool chains. Each chain is assigned
+ * a random chain ID, such that it does not share mocked events with other tests.
+ * @param nSpokePoolChains The number of SpokePool chains, in addition to the HubPool chain.
+ * @returns The BundleDataClient and the mocked clients that it reads from.
+ */
+export async function setupBundleDataClient(nSpokePoolChains = 2): Promise<BundleDataClientFixture> {
+  const { spyLogger: logger } = createSpyLogger();
+  const currentTime = getCurrentTime();
+
+  const blockNumber = await ethers.provider.getBlockNumber();
+  if (blockNumber < MIN_BLOCK_NUMBER) {
+    await ethers.provider.send("hardhat_mine", [ethers.utils.hexValue(MIN_BLOCK_NUMBER - blockNumber)]);
+  }
+
+  const hubPoolChainId = random(100_000, 1_000_000, false);
+  const chainIds = [hubPoolChainId];
+  while (chainIds.length <= nSpokePoolChains) {
+    chainIds.push(random(1_000_001, 2_000_000, false));
+  }
+
+  // The ConfigStore is given its own mocked chain, so that its events are not consumed by the HubPoolClient. The
+  // random chain IDs are not a superset of the protocol defaults, so the chain ID indices are overridden directly.
+  const configStore = await fakeContract(AcrossConfigStore__factory.abi);
+  const configStoreClient = new MockConfigStoreClient(
+    logger,
+    configStore,
+    { fromBlock: 0, maxBlockLookBack: 0 },
+    DEFAULT_CONFIG_STORE_VERSION,
+    random(2_000_001, 3_000_000, false),
+    true,
+    chainIds
+  );
+  configStoreClient.setAvailableChains(chainIds);
+  // Leaf sizes apply from genesis, such that they are in effect for every bundle.
+  const genesis = { blockNumber: 0 };
+  configStoreClient.updateGlobalConfig(
+    GLOBAL_CONFIG_STORE_KEYS.MAX_RELAYER_REPAYMENT_LEAF_SIZE,
+    `${MAX_REFUNDS_PER_LEAF}`,
+    genesis
+  );
+  configStoreClient.updateGlobalConfig(
+    GLOBAL_CONFIG_STORE_KEYS.MAX_POOL_REBALANCE_LEAF_SIZE,
+    `${MAX_L1_TOKENS_PER_LEAF}`,
+    genesis
+  );
+  await configStoreClient.update();
+
+  // A single L1 token is mapped to a distinct L2 token on each chain.
+  const l1Token = randomAddress();
+  const l2Tokens = Object.fromEntries(chainIds.map((chainId) => [chainId, randomAddress()]));
+
+  const hubPool = await fakeContract(HubPool__factory.abi);
+  const hubPoolClient = new MockHubPoolClient(logger, hubPool, configStoreClient, 0, hubPoolChainId);
+  hubPoolClient.setDefaultRealizedLpFeePct(LP_FEE_PCT);
+  hubPoolClient.addL1Token({ address: l1Token, symbol: "WETH", decimals: 18 });
+  chainIds.forEach((chainId) => {
+    hubPoolClient.setTokenMapping(l1Token, chainId, l2Tokens[chainId]);
+    hubPoolClient.setPoolRebalanceRoute(chainId, l1Token, l2Tokens[chainId], genesis);
+  });
+  await hubPoolClient.update();
+
+  const fillStatuses: { [relayDataHash: string]: FillStatus } = {};
+  const spokePoolClients: { [chainId: number]: MockSpokePoolClient } = {};
+  for (const chainId of chainIds) {
+    const spokePool = await fakeContract(SpokePool__factory.abi);
+    spokePool.chainId.returns(chainId);
+    spokePool.getCurrentTime.returns(currentTime);
+    spokePool.multicall.returns(([calls]: string[][]) =>
+      calls.map((data) => {
+        const [relayDataHash] = spokePool.interface.decodeFunctionData("fillStatuses", data);
+        return ethers.utils.defaultAbiCoder.encode(["uint256"], [fillStatuses[relayDataHash] ?? FillStatus.Unfilled]);
+      })
+    );
+
+    spokePoolClients[chainId] = new MockSpokePoolClient(logger, spokePool, chainId, 0, { hubPoolClient });
+    await spokePoolClients[chainId].update();
+  }
+
+  const setFillStatus = (relayData: RelayData, destinationChainId: number, fillStatus: FillStatus): void => {
+    fillStatuses[getRelayDataHash(relayData, destinationChainId)] = fillStatus;
+  };
+
+  // Each of the following helpers injects a single event and updates the affected SpokePoolClient.
+  const deposit = async (
+    originChainId: number,
+    destinationChainId: number,
+    blockNumber: number,
+    overrides: Partial<DepositWithBlock> = {}
+  ): Promise<DepositWithBlock> => {
+    const spokePoolClient = spokePoolClients[originChainId];
+    const { args } = spokePoolClient.depositV3({
+      destinationChainId,
+      depositor: randomAddress(),
+      inputToken: l2Tokens[originChainId],
+      inputAmount: DEPOSIT_AMOUNT,
+      outputToken: l2Tokens[destinationChainId],
+      outputAmount: DEPOSIT_AMOUNT,
+      message: EMPTY_MESSAGE,
+      quoteTimestamp: currentTime,
+      fillDeadline: currentTime + 3600,
+      exclusivityDeadline: 0,
+      blockNumber,
+      ...overrides,
+    } as DepositWithBlock);
+    await spokePoolClient.update();
+
+    return spokePoolClient.getDeposit(args?.depositId) as DepositWithBlock;
+  };
+
+  const fill = async (
+    deposit: DepositWithBlock,
+    blockNumber: number,
+    overrides: FillOverrides = {}
+  ): Promise<FillWithBlock> => {
+    const spokePoolClient = spokePoolClients[deposit.destinationChainId];
+    const fill = fillFromDeposit(deposit, randomAddress());
+    const { transactionHash } = spokePoolClient.fillV3Relay({
+      ...fill,
+      exclusiveRelayer: deposit.exclusiveRelayer,
+      ...overrides,
+      relayExecutionInfo: { ...fill.relayExecutionInfo, fillType: FillType.FastFill, ...overrides.relayExecutionInfo },
+      blockNumber,
+    } as FillWithBlock);
+    await spokePoolClient.update();
+
+    return spokePoolClient.getFills().find((fill) => fill.transactionHash === transactionHash) as FillWithBlock;
+  };
+
+  const requestSlowFill = async (deposit: DepositWithBlock, blockNumber: number): Promise<void> => {
+    const spokePoolClient = spokePoolClients[deposit.destinationChainId];
+    spokePoolClient.requestV3SlowFill({ ...deposit, blockNumber });
+    await spokePoolClient.update();
+  };
+
+  const bridgeTokens = async (chainId: number, amountToReturn: BigNumber, blockNumber: number): Promise<void> => {
+    const spokePoolClient = spokePoolClients[chainId];
+    spokePoolClient.bridgeTokens({
+      amountToReturn,
+      chainId,
+      leafId: 0,
+      l2TokenAddress: l2Tokens[chainId],
+      blockNumber,
+    } as TokensBridged);
+    await spokePoolClient.update();
+  };
+
+  const bundleDataClient = new BundleDataClient(logger, hubPoolClient, spokePoolClients);
+
+  return {
+    chainIds,
+    hubPoolChainId,
+    currentTime,
+    l1Token,
+    l2Tokens,
+    configStoreClient,
+    hubPoolClient,
+    spokePoolClients,
+    bundleDataClient,
+    setFillStatus,
+    deposit,
+    fill,
+    requestSlowFill,
+    bridgeTokens,
+  };
+}
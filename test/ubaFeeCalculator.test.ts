@@ -0,0 +1,118 @@
+import { UBAParsedConfigType } from "../src/interfaces";
+import {
+  UBAFeeCalculator,
+  evaluatePiecewiseLinear,
+  integratePiecewiseLinear,
+  resolveUBAConfigEntry,
+} from "../src/ubaFeeCalculator";
+import { BN, bnZero, toBNWei } from "../src/utils";
+import { expect } from "./utils";
+
+const [originChainId, destinationChainId, otherChainId] = [1, 10, 137];
+
+// Balancing fees increase linearly from -10% at a zero running balance to +10% at a running balance of 2000.
+const omega: [string, string][] = [
+  ["0", "-0.1"],
+  ["2000", "0.1"],
+];
+
+const toCurve = (curve: [string, string][]) => curve.map(([x, y]) => [toBNWei(x), toBNWei(y)]) as [BN, BN][];
+
+const config: UBAParsedConfigType = {
+  alpha: { default: toBNWei("0.0004"), [`${originChainId}-${destinationChainId}`]: toBNWei("0.0001") },
+  gamma: {
+    default: toCurve([
+      ["0", "0"],
+      ["0.5", "0.001"],
+      ["1", "0.011"],
+    ]),
+  },
+  omega: { default: toCurve(omega) },
+  rebalance: { default: {} },
+  ubaRewardMultiplier: { [destinationChainId]: toBNWei("0.5") },
+  incentivePoolAdjustment: { [originChainId]: toBNWei("1") },
+};
+
+describe("UBAFeeCalculator", function () {
+  const calculator = new UBAFeeCalculator(config);
+
+  it("Evaluates piecewise-linear curves", function () {
+    const curve = toCurve([
+      ["1", "1"],
+      ["3", "5"],
+    ]);
+    expect(evaluatePiecewiseLinear(curve, toBNWei("0")).eq(toBNWei("1"))).to.be.true;
+    expect(evaluatePiecewiseLinear(curve, toBNWei("2")).eq(toBNWei("3"))).to.be.true;
+    expect(evaluatePiecewiseLinear(curve, toBNWei("4")).eq(toBNWei("5"))).to.be.true;
+
+    // Area of a trapezoid between x = 1 and x = 3, and of the flat extension beyond x = 3.
+    expect(integratePiecewiseLinear(curve, toBNWei("1"), toBNWei("3")).eq(toBNWei("6"))).to.be.true;
+    expect(integratePiecewiseLinear(curve, toBNWei("3"), toBNWei("1")).eq(toBNWei("-6"))).to.be.true;
+    expect(integratePiecewiseLinear(curve, toBNWei("2"), toBNWei("4")).eq(toBNWei("9"))).to.be.true;
+
+    expect(() => evaluatePiecewiseLinear([], bnZero)).to.throw();
+    expect(() => evaluatePiecewiseLinear([...curve].reverse(), bnZero)).to.throw();
+  });
+
+  it("Prefers route-specific config entries over the default", function () {
+    expect(resolveUBAConfigEntry(config.alpha, [`${originChainId}-${destinationChainId}`]).eq(toBNWei("0.0001"))).to.be
+      .true;
+    expect(resolveUBAConfigEntry(config.alpha, [`${originChainId}-${otherChainId}`]).eq(toBNWei("0.0004"))).to.be.true;
+    expect(() => resolveUBAConfigEntry({ "1-10": bnZero }, ["10-1"])).to.throw();
+  });
+
+  it("Computes LP fees from alpha and gamma", function () {
+    const utilization = toBNWei("0.5");
+    expect(calculator.getLpFeePct(originChainId, destinationChainId, utilization).eq(toBNWei("0.0011"))).to.be.true;
+    expect(calculator.getLpFeePct(originChainId, otherChainId, utilization).eq(toBNWei("0.0014"))).to.be.true;
+
+    // The mean of gamma between 50% and 100% utilization is 0.6%.
+    const lpFeePct = calculator.getLpFeePct(originChainId, otherChainId, utilization, toBNWei("1"));
+    expect(lpFeePct.eq(toBNWei("0.0064"))).to.be.true;
+  });
+
+  it("Charges balancing fees for flows that unbalance a chain", function () {
+    const balances = { runningBalance: toBNWei("1500"), incentiveBalance: bnZero };
+
+    // Area under omega between running balances of 1500 and 1600 is 100 * mean(5%, 6%).
+    const { fee, incentivePoolDraw } = calculator.getBalancingFee(originChainId, "inflow", toBNWei("100"), balances);
+    expect(fee.eq(toBNWei("5.5"))).to.be.true;
+    expect(incentivePoolDraw.eq(bnZero)).to.be.true;
+  });
+
+  it("Pays rewards from the incentive pool for flows that rebalance a chain", function () {
+    const amount = toBNWei("100");
+    const balances = { runningBalance: toBNWei("1500"), incentiveBalance: toBNWei("10") };
+
+    // The outflow reward of 4.5 is scaled by the destination chain's reward multiplier.
+    let { fee, incentivePoolDraw } = calculator.getBalancingFee(destinationChainId, "outflow", amount, balances);
+    expect(fee.eq(toBNWei("-2.25"))).to.be.true;
+    expect(incentivePoolDraw.eq(toBNWei("2.25"))).to.be.true;
+
+    // Rewards are capped by the incentive pool, including any DAO adjustment.
+    ({ fee, incentivePoolDraw } = calculator.getBalancingFee(originChainId, "outflow", amount, {
+      ...balances,
+      incentiveBalance: toBNWei("2"),
+    }));
+    expect(fee.eq(toBNWei("-3"))).to.be.true;
+    expect(incentivePoolDraw.eq(toBNWei("3"))).to.be.true;
+  });
+
+  it("Computes the fees of a transfer", function () {
+    const amount = toBNWei("100");
+    const balances = {
+      [originChainId]: { runningBalance: toBNWei("1500"), incentiveBalance: bnZero },
+      [destinationChainId]: { runningBalance: toBNWei("1500"), incentiveBalance: toBNWei("10") },
+    };
+
+    const fees = calculator.getFees(originChainId, destinationChainId, amount, balances, toBNWei("0.5"));
+    expect(fees.lpFeePct.eq(toBNWei("0.0011"))).to.be.true;
+    expect(fees.lpFee.eq(toBNWei("0.11"))).to.be.true;
+    expect(fees.depositBalancingFee.eq(toBNWei("5.5"))).to.be.true;
+    expect(fees.refundBalancingFee.eq(toBNWei("-2.25"))).to.be.true;
+    expect(fees.incentivePoolDraw.eq(toBNWei("2.25"))).to.be.true;
+    expect(fees.totalFee.eq(toBNWei("3.36"))).to.be.true;
+
+    expect(() => calculator.getFees(originChainId, otherChainId, amount, balances, toBNWei("0.5"))).to.throw();
+  });
+});